@@ -0,0 +1,106 @@
+import { RelevanceDecision } from './islamic-agents';
+import { RoutingCandidate } from './agent-router';
+import { LLMProvider } from './llm-provider';
+
+export class ClassificationError extends Error {
+  constructor(message: string, public readonly rawResponse?: string) {
+    super(message);
+    this.name = 'ClassificationError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Scores every candidate agent with a single completion instead of one
+ * relevance call per agent.
+ */
+export class BatchClassifier {
+  private provider: LLMProvider;
+
+  constructor(provider: LLMProvider) {
+    this.provider = provider;
+  }
+
+  public async classify(
+    question: string,
+    candidates: RoutingCandidate[]
+  ): Promise<Map<string, RelevanceDecision>> {
+    const response = await this.provider.createChatCompletion([
+      { role: 'system', content: this.buildPrompt(candidates) },
+      { role: 'user', content: question }
+    ], { temperature: 0.1, maxTokens: 60 * candidates.length + 40 });
+
+    const scores = this.parseScores(response, candidates.map(({ name }) => name));
+    const decisions = new Map<string, RelevanceDecision>();
+
+    for (const { name, agent } of candidates) {
+      decisions.set(name, {
+        ...scores[name],
+        matchedKeywords: agent.matchKeywords(question)
+      });
+    }
+
+    return decisions;
+  }
+
+  private buildPrompt(candidates: RoutingCandidate[]): string {
+    const specializations = candidates.map(({ name, agent }) =>
+      `- ${name}
+  Topics: ${agent.getTopics().join(', ')}
+  Keywords: ${agent.getKeywords().join(', ')}`
+    ).join('\n');
+
+    return `You are an expert in determining which Islamic specialists should answer a question.
+The available specialists are:
+${specializations}
+
+For every specialist, rate how relevant the question is to its topics with a number between 0 and 1.
+Respond with a JSON object of the form:
+{"scores": {"<specialist>": {"score": <number>, "reason": "<one short sentence>"}}}
+Include every specialist listed above. Only respond with the JSON object, nothing else.`;
+  }
+
+  private parseScores(
+    response: string,
+    names: string[]
+  ): Record<string, { score: number; reason: string }> {
+    const json = response.match(/\{[\s\S]*\}/);
+    if (!json) {
+      throw new ClassificationError('Classifier did not return JSON', response);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json[0]);
+    } catch (error) {
+      throw new ClassificationError('Classifier returned malformed JSON', response);
+    }
+
+    const scores = isRecord(parsed) ? parsed.scores : undefined;
+    if (!isRecord(scores)) {
+      throw new ClassificationError('Classifier response is missing "scores"', response);
+    }
+
+    const result: Record<string, { score: number; reason: string }> = {};
+    for (const name of names) {
+      const entry = scores[name];
+      const score = Number(isRecord(entry) ? entry.score : entry);
+
+      if (entry === undefined) {
+        console.warn(`Classifier omitted ${name}, scoring it 0`);
+        result[name] = { score: 0, reason: 'Not scored by classifier' };
+      } else if (!Number.isFinite(score) || score < 0 || score > 1) {
+        throw new ClassificationError(`Invalid score for ${name}: ${JSON.stringify(entry)}`, response);
+      } else {
+        result[name] = {
+          score,
+          reason: String((isRecord(entry) && entry.reason) || 'No reason given')
+        };
+      }
+    }
+
+    return result;
+  }
+}
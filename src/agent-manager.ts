@@ -1,10 +1,51 @@
+import { randomBytes } from 'crypto';
 import { config } from 'dotenv';
-import { Bot, Context } from 'grammy';
-import { FatwaAgent, MazhabAgent, JakimAgent, MalaysianFatwaAgent, IbadhahAgent, OpinionAgent, BaseIslamicAgent } from './islamic-agents';
+import axios from 'axios';
+import { Bot, Context, InlineKeyboard, Keyboard } from 'grammy';
+import { FatwaAgent, MazhabAgent, JakimAgent, MalaysianFatwaAgent, IbadhahAgent, OpinionAgent, BaseIslamicAgent, ResponseContext } from './islamic-agents';
+import { AgentRouter } from './agent-router';
+import { BatchClassifier } from './agent-classifier';
+import { ConversationStore } from './conversation-store';
+import { Collections, createStorage, StorageBackend } from './storage';
+import { AnswerCache, CacheLookup } from './answer-cache';
+import { FollowUpAction, FollowUpRecord, FollowUpStore } from './follow-up-actions';
+import { StreamingReply } from './streaming-reply';
+import { FairQueue, loadRateLimitConfig, RateLimiter, RateLimitResult } from './rate-limiter';
+import { GroupAllowlist } from './group-allowlist';
+import { PrivateChatPolicy } from './private-chat-policy';
+import { GroupSettingsStore } from './group-settings';
+import { findState, MALAYSIAN_STATES } from './malaysian-states';
+import { findZone, nearestZone, PRAYER_ZONES, PrayerZone, zoneByCode, zoneForState } from './prayer-zones';
+import { compassPoint, Coordinates, parseCoordinates, qiblaFrom } from './qibla';
+import { describeEvent, formatGregorian, formatHijri, HijriCalendar, parseGregorianDate, parseHijriDate } from './hijri-calendar';
+import { addDays, CalendarDate, calculatePrayerTimes, formatTime, malaysianToday, parseDaysAhead, parsePrayerTimeQuestion, PRAYER_NAMES } from './prayer-times';
+import { QuranCorpus, VerseRange } from './quran-corpus';
+import { QuranVerifier } from './quran-verifier';
+import { findCollection, HadithCollectionInfo, HadithLibrary, HadithRecord, HADITH_COLLECTIONS, sunnahLink } from './hadith-library';
+import { HadithVerifier } from './hadith-verifier';
+import { describeDocument, FatwaKnowledgeBase, parseMetadata, SUPPORTED_EXTENSIONS } from './fatwa-knowledge-base';
+import {
+  calculateZakat, describeRates, formatRinggit, missingRates, nextStep, parseAmount, parseRateValue,
+  ZAKAT_TYPES, ZakatRateField, ZakatRateStore, ZakatSession, ZakatType
+} from './zakat-calculator';
+import { calculateFaraid, formatFraction, Fraction, Heir, HEIR_NAMES, HEIRS, MAX_HEIRS, parseHeirs } from './faraid-calculator';
+import { dailyIndex, findJobType, JOB_TYPES, JobScheduler, MAX_JOBS_PER_CHAT, parseSchedule, ScheduledJob } from './scheduler';
+import { detectLanguage, replyLocale } from './language-detector';
+import { bilingual, DEFAULT_LOCALE, Locale, MessageKey, t, validateCatalog } from './messages';
+import { createProvider, DeepseekMessage, loadProviderConfig, ProviderConfig, StreamListener } from './llm-provider';
 
 // Load environment variables
 config();
 
+// Daily usage counts are deleted after this many days
+const USAGE_RETENTION_DAYS = 90;
+// How often stored data past its retention is deleted
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// Unanswered /zakat calculations are dropped after this long
+const ZAKAT_SESSION_TTL_MS = 30 * 60 * 1000;
+// Longer hadiths are left out of the daily hadith post
+const DAILY_HADITH_MAX_LENGTH = 1200;
+
 interface AgentInfo {
   agent: FatwaAgent | MazhabAgent | JakimAgent | MalaysianFatwaAgent | IbadhahAgent | OpinionAgent;
   isRunning: boolean;
@@ -13,7 +54,33 @@ interface AgentInfo {
 export class AgentManager {
   private agents: Map<string, AgentInfo> = new Map();
   private bot: Bot;
+  private router: AgentRouter<BaseIslamicAgent>;
+  private conversations: ConversationStore;
+  private privateConversations: ConversationStore;
+  private privatePolicy: PrivateChatPolicy;
+  private privateRefusals: Set<number> = new Set();
+  private storage: StorageBackend;
+  private answerCache: AnswerCache;
+  private followUps: FollowUpStore;
+  private rateLimiter: RateLimiter;
+  private queue: FairQueue;
+  private rateLimitNotices: Map<string, number> = new Map();
+  private allowlist: GroupAllowlist;
+  private groupSettings: GroupSettingsStore;
+  private quran: QuranCorpus;
+  private hadith: HadithLibrary;
+  private fatwaKnowledgeBase: FatwaKnowledgeBase;
+  private calendar: HijriCalendar;
+  private zakatRates: ZakatRateStore;
+  // Open /zakat calculations by session id, at most one per user per chat
+  private zakatSessions: Map<string, ZakatSession> = new Map();
+  private scheduler: JobScheduler;
+  private pruneTimer?: NodeJS.Timeout;
+  private ownerIds: number[];
+  // /opinion costs one call per specialized agent plus the synthesis
+  private opinionWeight: number = Number(process.env.RATE_LIMIT_OPINION_WEIGHT) || 6;
   private botUsername: string = '';
+  private maxAyat: number = Number(process.env.AYAT_MAX_VERSES) || 10;
 
   constructor() {
     console.log('\n=== Initializing Agent Manager ===');
@@ -23,11 +90,12 @@ export class AgentManager {
     if (!process.env.TELEGRAM_TOKEN) {
       throw new Error('TELEGRAM_TOKEN is not set in environment variables');
     }
-    if (!process.env.DEEPSEEK_API_KEY) {
-      throw new Error('DEEPSEEK_API_KEY is not set in environment variables');
-    }
-    if (!process.env.GROUP_IDS) {
-      throw new Error('GROUP_IDS is not set in environment variables');
+    this.ownerIds = (process.env.BOT_OWNER_IDS || '')
+      .split(',')
+      .map(id => Number(id.trim()))
+      .filter(id => Number.isFinite(id) && id !== 0);
+    if (!process.env.GROUP_IDS && this.ownerIds.length === 0) {
+      throw new Error('Set GROUP_IDS or BOT_OWNER_IDS so the bot has groups to serve or an owner to approve them');
     }
 
     // Create single bot instance
@@ -35,22 +103,71 @@ export class AgentManager {
 
     const config = {
       telegramToken: process.env.TELEGRAM_TOKEN,
-      deepseekKey: process.env.DEEPSEEK_API_KEY,
-      groupIds: process.env.GROUP_IDS.split(','),
-      responseThreshold: 0.7,
-      messageHistory: new Map()
+      groupIds: (process.env.GROUP_IDS || '').split(','),
+      responseThreshold: 0.7
     };
 
+    this.storage = createStorage(process.env);
+    this.allowlist = new GroupAllowlist(this.storage, config.groupIds);
+    this.conversations = new ConversationStore({
+      tokenBudget: Number(process.env.CONVERSATION_TOKEN_BUDGET) || undefined
+    }, this.storage);
+    this.privateConversations = new ConversationStore({
+      tokenBudget: Number(process.env.PRIVATE_CONVERSATION_TOKEN_BUDGET) || 3000,
+      collection: Collections.privateConversations
+    }, this.storage);
+    this.privatePolicy = PrivateChatPolicy.fromEnv(process.env, this.ownerIds);
+    this.answerCache = new AnswerCache(this.storage, Number(process.env.ANSWER_CACHE_TTL_HOURS) || undefined);
+    this.followUps = new FollowUpStore(this.storage);
+    this.rateLimiter = new RateLimiter(loadRateLimitConfig(process.env));
+    this.queue = new FairQueue(Number(process.env.QUEUE_CONCURRENCY) || 2);
+    this.quran = QuranCorpus.fromEnv(process.env);
+    this.hadith = HadithLibrary.fromEnv(process.env);
+    this.fatwaKnowledgeBase = FatwaKnowledgeBase.fromEnv(process.env);
+    this.calendar = HijriCalendar.fromEnv(process.env);
+    this.zakatRates = new ZakatRateStore(this.storage);
+    this.scheduler = new JobScheduler(this.storage, {
+      run: (job, occurrence) => this.runScheduledJob(job, occurrence),
+      prayerTimes: (chatId, date) => {
+        const zone = this.chatZone(chatId);
+        return zone ? calculatePrayerTimes(zone, date) : undefined;
+      }
+    });
+    const postProcessors = [new QuranVerifier(this.quran), new HadithVerifier(this.hadith)];
+
     console.log('Creating agents with configuration...');
-    console.log('- Group IDs:', config.groupIds);
+    console.log('- Seed group IDs:', config.groupIds);
+    console.log('- Bot owners:', this.ownerIds);
+    console.log('- Private chat mode:', this.privatePolicy.mode);
+
+    const catalogProblems = validateCatalog();
+    if (catalogProblems.length > 0) {
+      console.warn(`⚠️ Message catalog problems:\n- ${catalogProblems.join('\n- ')}`);
+    }
+
+    // Each agent gets its own provider so models can be overridden per agent
+    const withProvider = (agentName: string, defaults?: Partial<ProviderConfig>) => {
+      const providerConfig = loadProviderConfig(process.env, agentName, defaults);
+      const provider = createProvider(providerConfig);
+      console.log(`- ${agentName} LLM: ${provider.name} (${provider.model})`);
+      return {
+        ...config,
+        name: agentName,
+        provider,
+        answerCache: this.answerCache,
+        followUps: this.followUps,
+        contextFor: (ctx: Context) => this.responseContextFor(ctx),
+        postProcessors
+      };
+    };
     
     // Initialize specialized agents first
     const specializedAgents = [
-      new FatwaAgent(config, this.bot),
-      new MazhabAgent(config, this.bot),
-      new JakimAgent(config, this.bot),
-      new MalaysianFatwaAgent(config, this.bot),
-      new IbadhahAgent(config, this.bot)
+      new FatwaAgent({ ...withProvider('fatwa'), calendar: this.calendar }, this.bot),
+      new MazhabAgent(withProvider('mazhab'), this.bot),
+      new JakimAgent({ ...withProvider('jakim'), knowledgeBase: this.fatwaKnowledgeBase }, this.bot),
+      new MalaysianFatwaAgent({ ...withProvider('malaysianfatwa'), knowledgeBase: this.fatwaKnowledgeBase }, this.bot),
+      new IbadhahAgent({ ...withProvider('ibadah'), calendar: this.calendar }, this.bot)
     ];
 
     // Set up specialized agents
@@ -85,8 +202,9 @@ export class AgentManager {
     console.log('✓ Ibadah Agent created');
 
     // Initialize the Opinion agent with all other agents and lower threshold
+    // The synthesis step needs a larger token budget than single-agent answers
     const opinionConfig = {
-      ...config,
+      ...withProvider('opinion', { maxTokens: 2000 }),
       responseThreshold: 0.3
     };
     
@@ -96,44 +214,68 @@ export class AgentManager {
     });
     console.log('✓ Opinion Agent created');
 
+    this.groupSettings = new GroupSettingsStore(this.storage, Array.from(this.agents.keys()));
+
+    // Route natural language queries between the specialized agents only,
+    // scoring all of them with a single classifier call
+    const classifier = new BatchClassifier(withProvider('classifier').provider);
+    this.router = new AgentRouter(
+      Array.from(this.agents)
+        .filter(([name]) => name !== 'opinion')
+        .map(([name, info]) => ({ name, agent: info.agent })),
+      classifier
+    );
+
     // Configure bot to handle messages and commands
-    this.bot.on('message:text', async (ctx) => {
+    this.bot.on('message:text', async (ctx, next) => {
       console.log('\n=== Incoming message ===');
       console.log('Chat ID:', ctx.chat?.id);
-      console.log('Allowed groups:', config.groupIds);
       console.log('Message text:', ctx.message.text);
       
-      if (ctx.chat?.id && config.groupIds.includes(ctx.chat.id.toString())) {
-        console.log('✓ Message is from allowed group');
+      const isPrivate = ctx.chat.type === 'private';
+      if (this.isChatAllowed(ctx)) {
+        console.log(`✓ Message is from allowed ${isPrivate ? 'private chat' : 'group'}`);
 
         // Get bot info if we don't have it yet
         if (!this.botUsername && ctx.me) {
           this.botUsername = ctx.me.username || '';
         }
 
+        // Amounts typed into an open /zakat calculation
+        if (await this.handleZakatInput(ctx)) {
+          return;
+        }
+
         // Check if message is a reply
         const isReply = !!ctx.message.reply_to_message;
         console.log('Is reply:', isReply);
 
-        // Get the full context of the question
-        let questionText = ctx.message.text;
-        
+        const questionText = ctx.message.text;
+        const chatId = ctx.chat.id;
+        const repliedMessage = ctx.message.reply_to_message;
+        const conversations = this.conversationsFor(ctx);
+        let history: DeepseekMessage[] = [];
+
         // Handle replies to bot's messages
         if (isReply) {
-          const repliedMessage = ctx.message.reply_to_message;
           const isBotMessage = repliedMessage?.from?.id === ctx.me?.id;
           const isBotMentioned = this.isBotMentioned(questionText);
 
-          if (isBotMessage || isBotMentioned) {
-            // Include the replied message for context
-            if (repliedMessage?.text) {
-              questionText = `Context: ${repliedMessage.text}\n\nFollow-up: ${questionText}`;
+          if (isBotMessage || isBotMentioned || isPrivate) {
+            history = conversations.getHistory(chatId, repliedMessage?.message_id);
+
+            // Thread unknown (e.g. after a restart): use the replied message alone as context
+            if (history.length === 0 && repliedMessage?.text) {
+              history = [{ role: isBotMessage ? 'assistant' : 'user', content: repliedMessage.text }];
             }
-            console.log('Processing as follow-up question:', questionText);
+            console.log(`Processing as follow-up question with ${history.length} prior turns`);
           } else {
             // Not a reply to bot's message and bot not mentioned, ignore
             return;
           }
+        } else if (isPrivate) {
+          // Private chats read as one conversation, so continue the recent thread
+          history = conversations.getHistory(chatId, this.privateThreadMessageId(chatId));
         }
 
         const isMentioned = this.isBotMentioned(questionText);
@@ -144,16 +286,24 @@ export class AgentManager {
         console.log('Is command:', isCommand);
         console.log('Is getKeywords:', isGetKeywords);
 
-        // Handle commands separately
+        // Commands are handled by the command handlers further down the chain;
+        // agent commands count against the rate limits and share the chat queue
         if (isCommand) {
-          for (const [_, info] of this.agents) {
-            await info.agent.setupHandlers();
+          const command = questionText.slice(1).split(/[\s@]/)[0].toLowerCase();
+          if (this.agents.has(command)) {
+            if (!this.groupSettings.isAgentEnabled(chatId, command)) {
+              await this.replyAgentDisabled(ctx);
+              return;
+            }
+            await this.runLimited(ctx, command === 'opinion' ? this.opinionWeight : 1, () => next());
+          } else {
+            await next();
           }
           return;
         }
 
-        // Handle mentions and natural language queries
-        if (isMentioned || isReply) {
+        // Handle mentions and natural language queries; private chats need no mention
+        if (isMentioned || isReply || isPrivate) {
           console.log('Processing message...');
           const question = isMentioned ? this.removeBotMention(questionText) : questionText;
           console.log('Cleaned question:', question);
@@ -161,15 +311,27 @@ export class AgentManager {
           // If just mentioned without a question, prompt for one
           if (!question.trim()) {
             console.log('Empty question after cleaning, prompting user');
-            await ctx.reply('Yes? How can I help you?', {
+            await ctx.reply(t(this.localeFor(ctx, questionText), 'mention.empty'), {
               reply_to_message_id: ctx.message.message_id
             });
             return;
           }
 
+          // Prayer times come from the calculator; an agent would guess them
+          const prayerQuestion = parsePrayerTimeQuestion(question);
+          if (prayerQuestion) {
+            console.log('Answering prayer time question from the calculator');
+            await this.replyPrayerTimes(ctx, prayerQuestion.zone || this.defaultZone(ctx), prayerQuestion.daysAhead, this.localeFor(ctx, question));
+            return;
+          }
+
           // Check if it's a simple interaction
-          const simpleCheck = this.isSimpleInteraction(question);
+          const simpleCheck = this.isSimpleInteraction(question, this.localeFor(ctx, question));
           if (simpleCheck.isSimple && simpleCheck.response) {
+            if (!this.groupSettings.get(chatId).greetings) {
+              console.log('Ignoring simple interaction, greetings are turned off for this chat');
+              return;
+            }
             console.log('Handling simple interaction');
             await ctx.reply(simpleCheck.response, {
               reply_to_message_id: ctx.message.message_id
@@ -177,71 +339,1364 @@ export class AgentManager {
             return;
           }
 
-          // Process with appropriate agent
-          if (isGetKeywords) {
-            // Use OpinionAgent for comprehensive analysis
-            console.log('Processing with OpinionAgent (getKeywords requested)...');
-            const opinionAgent = this.agents.get('opinion')?.agent as OpinionAgent;
-            if (opinionAgent) {
-              try {
-                const response = await opinionAgent.generateResponse(question);
-                await this.replyWithFormattedResponse(ctx, response);
-              } catch (error) {
-                console.error('Error generating opinion:', error);
-                await ctx.reply(
-                  'I apologize, but I encountered an error while processing your question. Please try again later.',
-                  { reply_to_message_id: ctx.message.message_id }
-                );
-              }
-            }
-          } else {
-            // Use the most relevant specialized agent
-            console.log('Finding most relevant specialized agent...');
-            let bestAgent: BaseIslamicAgent | null = null;
-            let highestRelevance = 0;
-
-            for (const [name, info] of this.agents) {
-              if (name === 'opinion') continue; // Skip OpinionAgent for regular queries
-              
-              const agent = info.agent;
-              const relevanceScore = await agent.shouldRespond(question);
-              if (typeof relevanceScore === 'number' && relevanceScore > highestRelevance) {
-                highestRelevance = relevanceScore;
-                bestAgent = agent;
-              }
-            }
-
-            if (bestAgent) {
-              try {
-                const response = await bestAgent.generateResponse(question);
-                await this.replyWithFormattedResponse(ctx, response);
-              } catch (error) {
-                console.error('Error generating response:', error);
-                await ctx.reply(
-                  'I apologize, but I encountered an error while processing your question. Please try again later.',
-                  { reply_to_message_id: ctx.message.message_id }
-                );
-              }
-            } else {
-              // No agent found relevant enough, use default response
-              await ctx.reply(
-                'I\'m not sure I understand your question. Could you please rephrase it or use one of my commands?\n\n' +
-                'Use /help to see available commands.',
-                { reply_to_message_id: ctx.message.message_id }
-              );
-            }
-          }
+          // Process with appropriate agent, within the asker's rate limits
+          const useOpinion = isGetKeywords && this.groupSettings.isAgentEnabled(chatId, 'opinion');
+          const weight = useOpinion ? this.opinionWeight : 1;
+          await this.runLimited(ctx, weight, () =>
+            this.answerQuestion(ctx, question, history, useOpinion)
+          );
         }
       } else {
-        console.log('❌ Message is not from allowed group');
+        console.log(`❌ Message is not from allowed ${isPrivate ? 'private chat' : 'group'}`);
+
+        // Owners can manage the allowlist from anywhere, including the unknown group itself
+        if (ctx.message.text.startsWith('/') && this.isOwner(ctx)) {
+          await next();
+          return;
+        }
+        if (isPrivate) {
+          await this.refusePrivateChat(ctx);
+        } else if (ctx.chat.type === 'group' || ctx.chat.type === 'supergroup') {
+          await this.handleUnknownGroup(ctx);
+        }
       }
     });
 
-    // Set up command handlers separately
+    // Set up command handlers separately; documents captioned /addfatwa and shared locations go on as well
     this.bot.on('message', async (ctx, next) => {
-      if (ctx.message?.text?.startsWith('/')) {
+      const { text, caption, location } = ctx.message;
+      if (text !== undefined) {
+        if (text.startsWith('/')) {
+          await next();
+        }
+        return;
+      }
+      // Other captioned commands would reach the agents past the enabled check and rate limits above,
+      // and neither kind went through the allowlist check there
+      const addsFatwa = /^\/addfatwa(@\w+)?(\s|$)/i.test(caption || '');
+      if ((addsFatwa || location) && (this.isChatAllowed(ctx) || this.isOwner(ctx))) {
+        await next();
+      }
+    });
+
+    // Inline follow-up buttons under answers
+    this.bot.on('callback_query:data', async (ctx, next) => {
+      const parsed = FollowUpStore.parse(ctx.callbackQuery.data);
+      if (!parsed) {
         await next();
+        return;
+      }
+
+      const record = await this.followUps.get(parsed.id);
+      const chatId = ctx.chat?.id;
+      if (!record || !chatId || record.chatId !== chatId || !this.isChatAllowed(ctx)) {
+        await ctx.answerCallbackQuery({ text: t(this.localeFor(ctx), 'followUp.expired') });
+        return;
+      }
+
+      // These buttons hand the question to another agent, which the chat may have turned off
+      const targetAgent = parsed.action === 'mazhab' || parsed.action === 'opinion' ? parsed.action : record.agentName;
+      if (this.agents.has(targetAgent) && !this.groupSettings.isAgentEnabled(chatId, targetAgent)) {
+        await ctx.answerCallbackQuery({ text: t(this.localeFor(ctx), 'agent.disabledShort') });
+        return;
       }
+
+      await ctx.answerCallbackQuery();
+      const weight = parsed.action === 'opinion' ? this.opinionWeight : 1;
+      await this.runLimited(ctx, weight, () => this.handleFollowUp(ctx, parsed.action, record));
+    });
+
+    this.setupAdminCommands();
+    this.setupGroupManagement();
+    this.setupOnboarding();
+    this.setupSettings();
+    this.setupQuranCommands();
+    this.setupHadithCommands();
+    this.setupKnowledgeBaseCommands();
+    this.setupPrayerTimeCommands();
+    this.setupQiblaCommands();
+    this.setupHijriCommands();
+    this.setupZakatCommands();
+    this.setupFaraidCommands();
+    this.setupScheduleCommands();
+  }
+
+  /**
+   * Answer preferences for a chat plus the language of the question, which
+   * defaults to the text of the message being handled.
+   */
+  private responseContextFor(ctx: Context, question?: string): ResponseContext {
+    const detected = detectLanguage(question ?? ctx.msg?.text ?? '');
+    if (!ctx.chat) {
+      return { detected };
+    }
+    const settings = this.groupSettings.get(ctx.chat.id);
+    return {
+      detected,
+      language: settings.language === 'auto' ? undefined : settings.language,
+      answerLength: settings.answerLength,
+      state: this.homeState(ctx) || settings.state || undefined
+    };
+  }
+
+  /**
+   * The asker's own home state from /negeri. Private chat ids are user ids,
+   * so this is the state stored in the user's private chat settings.
+   */
+  private homeState(ctx: Context): string | undefined {
+    return ctx.from ? this.groupSettings.get(ctx.from.id).state || undefined : undefined;
+  }
+
+  /** Language of the bot's own messages: the chat's setting, else the asker's language. */
+  private localeFor(ctx: Context, text?: string): Locale {
+    const language = ctx.chat ? this.groupSettings.get(ctx.chat.id).language : 'auto';
+    return language === 'auto' ? replyLocale(detectLanguage(text ?? ctx.msg?.text ?? '')) : language;
+  }
+
+  private async replyAgentDisabled(ctx: Context) {
+    await ctx.reply(t(this.localeFor(ctx), 'agent.disabled'), {
+      reply_to_message_id: ctx.msg?.message_id
+    });
+  }
+
+  /** Private chats belong to their only user; in groups only admins may change settings. */
+  private async canEditSettings(ctx: Context): Promise<boolean> {
+    return ctx.chat?.type === 'private' || this.isChatAdmin(ctx);
+  }
+
+  private setupSettings() {
+    this.bot.command('settings', async (ctx) => {
+      if (!this.isChatAllowed(ctx)) {
+        return;
+      }
+      const locale = this.localeFor(ctx);
+      if (!(await this.canEditSettings(ctx))) {
+        await ctx.reply(t(locale, 'settings.adminOnly'));
+        return;
+      }
+
+      await ctx.reply(this.groupSettings.describe(ctx.chat.id, locale), {
+        reply_markup: this.groupSettings.keyboard(ctx.chat.id, 'main', locale)
+      });
+    });
+
+    // /negeri selangor - in a group, admins set the group's state and everyone else their own
+    this.bot.command('negeri', async (ctx) => {
+      if (!this.isChatAllowed(ctx)) {
+        return;
+      }
+      const locale = this.localeFor(ctx);
+      const states = MALAYSIAN_STATES.map(state => state.id).join(', ');
+      const input = ctx.match?.toString().trim() || '';
+      const isGroup = ctx.chat.type !== 'private';
+
+      if (!input) {
+        const none = t(locale, 'settings.none');
+        const lines = [t(locale, 'state.current', { value: findState(this.homeState(ctx))?.name || none })];
+        if (isGroup) {
+          lines.push(t(locale, 'state.currentGroup', { value: findState(this.groupSettings.get(ctx.chat.id).state || undefined)?.name || none }));
+        }
+        await ctx.reply(`${lines.join('\n')}\n\n${t(locale, 'state.usage', { states })}`);
+        return;
+      }
+
+      const clear = /^(padam|tiada|none|clear|reset)$/i.test(input);
+      const state = clear ? undefined : findState(input);
+      if (!clear && !state) {
+        await ctx.reply(t(locale, 'state.notFound', { input, states }));
+        return;
+      }
+
+      const forGroup = isGroup && (await this.isChatAdmin(ctx));
+      const chatId = forGroup ? ctx.chat.id : ctx.from!.id;
+      await this.groupSettings.update(chatId, { state: state?.id || null }, ctx.from?.id);
+      console.log(`State for ${forGroup ? 'chat' : 'user'} ${chatId} set to ${state?.id || 'none'} by ${ctx.from?.id}`);
+      const key = forGroup
+        ? (state ? 'state.setGroup' : 'state.clearedGroup')
+        : (state ? 'state.setUser' : 'state.cleared');
+      await ctx.reply(t(locale, key, { state: state?.name || '' }));
+    });
+
+    this.bot.callbackQuery(/^set:/, async (ctx) => {
+      const action = GroupSettingsStore.parse(ctx.callbackQuery.data);
+      const chatId = ctx.chat?.id;
+      if (!action || !chatId || !this.isChatAllowed(ctx)) {
+        await ctx.answerCallbackQuery();
+        return;
+      }
+      if (!(await this.canEditSettings(ctx))) {
+        await ctx.answerCallbackQuery({ text: t(this.localeFor(ctx), 'settings.adminOnly') });
+        return;
+      }
+
+      const view = await this.groupSettings.apply(chatId, action, ctx.from.id);
+      if (action.type !== 'view' && action.type !== 'close') {
+        console.log(`Settings for chat ${chatId} changed by ${ctx.from.id}:`, this.groupSettings.get(chatId));
+      }
+      await ctx.answerCallbackQuery();
+
+      // Picked after applying, so switching the language redraws the menu in it
+      const locale = this.localeFor(ctx);
+      const keyboard = action.type === 'close' ? undefined : this.groupSettings.keyboard(chatId, view, locale);
+      await ctx.editMessageText(this.groupSettings.describe(chatId, locale), keyboard ? { reply_markup: keyboard } : {})
+        .catch(error => {
+          // Telegram rejects edits that do not change anything
+          if (!String(error?.description || '').includes('message is not modified')) {
+            console.error('Error updating settings menu:', error);
+          }
+        });
+    });
+  }
+
+  private setupQuranCommands() {
+    // /ayat 2:255, /ayat 2:255-257 or /ayat al-baqarah 255
+    this.bot.command('ayat', async (ctx) => {
+      if (!this.isChatAllowed(ctx)) {
+        return;
+      }
+      const locale = this.localeFor(ctx);
+      if (!this.quran.isLoaded) {
+        await ctx.reply(t(locale, 'quran.unavailable'));
+        return;
+      }
+
+      const range = this.quran.parseRange(ctx.match?.toString() || '');
+      if (!range) {
+        await ctx.reply(t(locale, 'quran.usage'));
+        return;
+      }
+      const surah = this.quran.surah(range.surah)!;
+      if (range.from < 1 || range.to > surah.verseCount) {
+        await ctx.reply(t(locale, 'quran.notFound', {
+          reference: `${range.surah}:${range.to > range.from ? `${range.from}-${range.to}` : range.from}`,
+          surah: surah.transliteration,
+          count: surah.verseCount
+        }));
+        return;
+      }
+      if (range.to - range.from + 1 > this.maxAyat) {
+        await ctx.reply(t(locale, 'quran.tooMany', { count: this.maxAyat }));
+        return;
+      }
+
+      for (const chunk of this.splitResponse(this.formatResponseForTelegram(this.describeVerses(range, locale)), locale)) {
+        await ctx.reply(chunk, {
+          reply_to_message_id: ctx.msg?.message_id,
+          parse_mode: 'HTML'
+        });
+      }
+    });
+  }
+
+  private describeVerses(range: VerseRange, locale: Locale): string {
+    const surah = this.quran.surah(range.surah)!;
+    const verses = range.to > range.from ? `${range.from}-${range.to}` : `${range.from}`;
+    const lines = [`### 📖 ${surah.transliteration} (${surah.name}) ${surah.number}:${verses}`];
+    const translators = new Set<string>();
+
+    for (const verse of this.quran.range(range)) {
+      const translation = this.quran.translation(verse, locale);
+      translators.add(translation.translator);
+      lines.push('', `${verse.arabic} ﴿${verse.ayah}﴾`, '', translation.text);
+    }
+    lines.push('', `*${t(locale, 'quran.translation', { translator: [...translators].join(', ') })}*`);
+    return lines.join('\n');
+  }
+
+  private setupHadithCommands() {
+    // /hadis bukhari 1, /hadis sahih muslim 55a
+    this.bot.command(['hadis', 'hadith'], async (ctx) => {
+      if (!this.isChatAllowed(ctx)) {
+        return;
+      }
+      const locale = this.localeFor(ctx);
+      const match = ctx.match?.toString().trim().match(/^(.+?)\s*[:#]?\s*(\d{1,5}[a-z]?)$/i);
+      const collection = match ? findCollection(match[1]) : undefined;
+      if (!match || !collection) {
+        await ctx.reply(t(locale, 'hadith.usage', { collections: HADITH_COLLECTIONS.map(info => info.id).join(', ') }));
+        return;
+      }
+
+      const number = match[2].toLowerCase();
+      if (!this.hadith.isImported(collection)) {
+        await ctx.reply(t(locale, 'hadith.notImportedCommand', { collection: collection.name, link: sunnahLink(collection, number) }));
+        return;
+      }
+      const hadith = this.hadith.get(collection, number);
+      if (!hadith) {
+        await ctx.reply(t(locale, 'hadith.notFound', { number, collection: collection.name, count: this.hadith.count(collection) }));
+        return;
+      }
+
+      for (const chunk of this.splitResponse(this.formatResponseForTelegram(this.describeHadith(collection, hadith, locale)), locale)) {
+        await ctx.reply(chunk, {
+          reply_to_message_id: ctx.msg?.message_id,
+          parse_mode: 'HTML'
+        });
+      }
+    });
+  }
+
+  private describeHadith(collection: HadithCollectionInfo, hadith: HadithRecord, locale: Locale): string {
+    const lines = [`### 📜 ${collection.name} ${hadith.number}`];
+    if (hadith.book) {
+      lines.push(t(locale, 'hadith.book', { book: hadith.book }));
+    }
+    lines.push(t(locale, 'hadith.grade', { grade: this.hadith.gradeLabel(collection, hadith, locale) }));
+    const translation = this.hadith.translation(hadith, locale);
+    for (const text of [hadith.arabic, translation]) {
+      if (text) {
+        lines.push('', text);
+      }
+    }
+    lines.push('', `🔗 ${sunnahLink(collection, hadith.number)}`);
+    return lines.join('\n');
+  }
+
+  private setupKnowledgeBaseCommands() {
+    // Upload a document with "/addfatwa state=selangor; authority=...; date=..." as its caption,
+    // or reply to an uploaded document with the same command
+    this.bot.command('addfatwa', ctx => this.addFatwaDocument(ctx));
+    this.bot.on('message:document', async (ctx, next) => {
+      if (!/^\/addfatwa(@\w+)?\b/i.test(ctx.msg.caption || '')) {
+        return next();
+      }
+      await this.addFatwaDocument(ctx);
+    });
+
+    this.bot.command('removefatwa', async (ctx) => {
+      const locale = this.localeFor(ctx);
+      if (!this.isOwner(ctx)) {
+        await ctx.reply(t(locale, 'owner.only'));
+        return;
+      }
+      const id = ctx.match?.toString().trim();
+      if (!id) {
+        await ctx.reply(t(locale, 'kb.removeUsage'));
+        return;
+      }
+      if (!(await this.fatwaKnowledgeBase.remove(id))) {
+        await ctx.reply(t(locale, 'kb.notFound', { id }));
+        return;
+      }
+      console.log(`Fatwa document ${id} removed by ${ctx.from?.id}`);
+      await this.answerCache.invalidate();
+      await ctx.reply(t(locale, 'kb.removed', { id }));
+    });
+
+    this.bot.command('fatwadocs', async (ctx) => {
+      const locale = this.localeFor(ctx);
+      if (!this.isOwner(ctx) && !(await this.isChatAdmin(ctx))) {
+        await ctx.reply(t(locale, 'kb.adminOnly'));
+        return;
+      }
+      const documents = this.fatwaKnowledgeBase.list();
+      const lines = documents.map(document => `• ${document.id} — ${document.title} (${describeDocument(document, locale)})`);
+      await ctx.reply(`${t(locale, 'kb.list', { count: documents.length })}\n${lines.join('\n')}`.trim());
+    });
+  }
+
+  /** Only owners add and remove documents, as the knowledge base answers every chat. */
+  private async addFatwaDocument(ctx: Context) {
+    const locale = this.localeFor(ctx);
+    if (!this.isOwner(ctx)) {
+      await ctx.reply(t(locale, 'owner.only'));
+      return;
+    }
+
+    const document = ctx.msg?.document || ctx.msg?.reply_to_message?.document;
+    const fileName = document?.file_name || '';
+    if (!document) {
+      await ctx.reply(t(locale, 'kb.addUsage', { extensions: SUPPORTED_EXTENSIONS.join(', ') }));
+      return;
+    }
+    if (!SUPPORTED_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension))) {
+      await ctx.reply(t(locale, 'kb.unsupported', { extensions: SUPPORTED_EXTENSIONS.join(', ') }));
+      return;
+    }
+
+    const metadata = parseMetadata((ctx.msg?.text || ctx.msg?.caption || '').replace(/^\/addfatwa(@\w+)?\s*/i, ''));
+    try {
+      // Bots can download files of up to 20 MB
+      const file = await ctx.api.getFile(document.file_id);
+      const response = await axios.get<ArrayBuffer>(
+        `https://api.telegram.org/file/bot${process.env.TELEGRAM_TOKEN}/${file.file_path}`,
+        { responseType: 'arraybuffer' }
+      );
+      const added = await this.fatwaKnowledgeBase.add(fileName, Buffer.from(response.data), metadata, ctx.from?.id);
+      console.log(`Fatwa document ${added.id} added by ${ctx.from?.id}`);
+      // Answers cached before the document was added could not draw on it
+      await this.answerCache.invalidate();
+      await ctx.reply(t(locale, 'kb.added', { id: added.id, title: added.title }));
+    } catch (error) {
+      // Only the message: the whole error would log the download URL, which carries the bot token
+      console.error('Error adding fatwa document:', error instanceof Error ? error.message : error);
+      await ctx.reply(t(locale, 'kb.addFailed', { name: fileName }));
+    }
+  }
+
+  private setupPrayerTimeCommands() {
+    // /waktusolat, /waktusolat sgr01, /waktusolat kuantan esok
+    this.bot.command('waktusolat', async (ctx) => {
+      if (!this.isChatAllowed(ctx)) {
+        return;
+      }
+      const locale = this.localeFor(ctx);
+      const input = ctx.match?.toString().trim() || '';
+      const place = input.replace(/\b(?:hari ini|hari ni|today|esok|besok|tomorrow|lusa)\b/gi, '').trim();
+      const zone = place ? findZone(place) : this.defaultZone(ctx);
+      if (place && !zone) {
+        const zones = PRAYER_ZONES.map(zone => `${zone.code} - ${zone.places.join(', ')}`);
+        await ctx.reply(`${t(locale, 'prayer.notFound', { input: place })}\n\n${zones.join('\n')}`);
+        return;
+      }
+      await this.replyPrayerTimes(ctx, zone, parseDaysAhead(input), locale);
+    });
+  }
+
+  private setupQiblaCommands() {
+    // /kiblat, /kiblat 3.139, 101.687, /kiblat shah alam
+    this.bot.command('kiblat', async (ctx) => {
+      if (!this.isChatAllowed(ctx)) {
+        return;
+      }
+      const locale = this.localeFor(ctx);
+      const input = ctx.match?.toString().trim() || '';
+      if (!input) {
+        // Telegram only offers the share-location button in private chats
+        const keyboard = ctx.chat?.type === 'private'
+          ? new Keyboard().requestLocation(t(locale, 'qibla.shareButton')).resized().oneTime()
+          : undefined;
+        await ctx.reply(t(locale, 'qibla.usage'), { reply_to_message_id: ctx.msg?.message_id, reply_markup: keyboard });
+        return;
+      }
+
+      // A place name stands for its zone's reference point
+      const coordinates = parseCoordinates(input);
+      const zone = coordinates ? undefined : findZone(input);
+      const place = coordinates || zone;
+      if (!place) {
+        await ctx.reply(t(locale, 'qibla.invalid', { input }), { reply_to_message_id: ctx.msg?.message_id });
+        return;
+      }
+      await this.replyQibla(ctx, place, locale, zone);
+    });
+
+    // Shared locations: always in private chats, in groups only in reply to the bot
+    this.bot.on('message:location', async (ctx) => {
+      if (!this.isChatAllowed(ctx)) {
+        return;
+      }
+      if (ctx.chat.type !== 'private' && ctx.message.reply_to_message?.from?.id !== ctx.me.id) {
+        return;
+      }
+      const { latitude, longitude } = ctx.message.location;
+      await this.replyQibla(ctx, { latitude, longitude }, this.localeFor(ctx));
+    });
+  }
+
+  private setupHijriCommands() {
+    // /hijri, /hijri 31/3/2025, /hijri 1 Syawal 1447
+    this.bot.command('hijri', async (ctx) => {
+      if (!this.isChatAllowed(ctx)) {
+        return;
+      }
+      const locale = this.localeFor(ctx);
+      const input = ctx.match?.toString().trim() || '';
+      const hijriInput = input ? parseHijriDate(input) : undefined;
+      const date = input ? (hijriInput ? this.calendar.toGregorian(hijriInput) : parseGregorianDate(input)) : malaysianToday();
+      if (!date) {
+        await ctx.reply(hijriInput ? t(locale, 'hijri.noSuchDay', { date: formatHijri(hijriInput) }) : t(locale, 'hijri.usage'));
+        return;
+      }
+
+      const lines = [
+        `### ${t(locale, 'hijri.title')}`,
+        `📅 ${formatGregorian(date, locale, true)}`,
+        `🌙 ${formatHijri(this.calendar.toHijri(date))}`
+      ];
+      const event = this.calendar.eventOn(date);
+      if (event) {
+        lines.push(`✨ ${t(locale, `hijri.event.${event}` as MessageKey)}`);
+      }
+      if (!input) {
+        lines.push('', `**${t(locale, 'hijri.upcoming')}**`);
+        for (const entry of this.calendar.upcomingEvents(date, 6)) {
+          const when = entry.daysAway === 0 ? t(locale, 'hijri.today') : t(locale, 'hijri.daysAway', { count: entry.daysAway });
+          lines.push(`- ${describeEvent(entry, locale)} · ${when}`);
+        }
+      }
+      lines.push('', `*${t(locale, 'hijri.note')}*`);
+
+      for (const chunk of this.splitResponse(this.formatResponseForTelegram(lines.join('\n')), locale)) {
+        await ctx.reply(chunk, {
+          reply_to_message_id: ctx.msg?.message_id,
+          parse_mode: 'HTML'
+        });
+      }
+    });
+  }
+
+  private setupZakatCommands() {
+    // /zakat, /zakat fitrah, /zakat emas johor
+    this.bot.command('zakat', async (ctx) => {
+      if (!this.isChatAllowed(ctx) || !ctx.from) {
+        return;
+      }
+      const input = ctx.match?.toString().trim().toLowerCase() || '';
+      const type = ZAKAT_TYPES.find(candidate => input.split(/\s+/).includes(candidate));
+      const groupState = this.groupSettings.get(ctx.chat.id).state || undefined;
+      const session: ZakatSession = {
+        id: randomBytes(6).toString('base64url'),
+        chatId: ctx.chat.id,
+        userId: ctx.from.id,
+        locale: this.localeFor(ctx),
+        type,
+        state: findState(input.replace(type || '', '').trim())?.id || this.homeState(ctx) || groupState,
+        inputs: {},
+        updatedAt: Date.now()
+      };
+
+      // A new calculation replaces the user's earlier one in this chat
+      for (const [id, other] of this.zakatSessions) {
+        if ((other.chatId === session.chatId && other.userId === session.userId) || other.updatedAt < Date.now() - ZAKAT_SESSION_TTL_MS) {
+          this.zakatSessions.delete(id);
+        }
+      }
+      this.zakatSessions.set(session.id, session);
+      await this.continueZakat(ctx, session);
+    });
+
+    this.bot.callbackQuery(/^zk:/, async (ctx) => {
+      const [, id, action, value] = ctx.callbackQuery.data.split(':');
+      const session = this.zakatSessions.get(id);
+      if (!session || !this.isChatAllowed(ctx) || session.updatedAt < Date.now() - ZAKAT_SESSION_TTL_MS) {
+        await ctx.answerCallbackQuery({ text: t(this.localeFor(ctx), 'zakat.expired') });
+        return;
+      }
+      const locale = session.locale;
+
+      // Anyone may ask for the explanation of a finished calculation
+      if (action === 'e') {
+        if (!session.working) {
+          await ctx.answerCallbackQuery({ text: t(locale, 'zakat.expired') });
+          return;
+        }
+        if (!this.groupSettings.isAgentEnabled(session.chatId, 'ibadah')) {
+          await ctx.answerCallbackQuery({ text: t(locale, 'agent.disabledShort') });
+          return;
+        }
+        await ctx.answerCallbackQuery();
+        await this.runLimited(ctx, 1, () => this.explainZakat(ctx, session));
+        return;
+      }
+      if (ctx.from.id !== session.userId) {
+        await ctx.answerCallbackQuery({ text: t(locale, 'zakat.notYours') });
+        return;
+      }
+
+      const step = session.type && session.state
+        ? nextStep(session.type, session.inputs, this.zakatRates.get(session.state))
+        : undefined;
+      let label: string | undefined;
+      if (action === 't' && !session.type && ZAKAT_TYPES.includes(value as ZakatType)) {
+        session.type = value as ZakatType;
+        label = t(locale, `zakat.type.${value}` as MessageKey);
+      } else if (action === 's' && !session.state && findState(value)) {
+        session.state = value;
+        label = findState(value)!.name;
+      } else if (action === 'c' && step?.kind === 'choice' && step.options.includes(value)) {
+        session.inputs[step.field] = value;
+        label = this.zakatOptionLabel(step.field, value, locale);
+      }
+      await ctx.answerCallbackQuery();
+      if (!label) {
+        return;
+      }
+
+      // Keep the question with the answer picked and move on to the next one
+      session.updatedAt = Date.now();
+      const question = ctx.callbackQuery.message?.text || '';
+      await ctx.editMessageText(`${question}\n✅ ${label}`).catch(error => console.error('Error updating zakat question:', error));
+      await this.continueZakat(ctx, session);
+    });
+
+    // /zakatrate selangor nisab 24000 - rates are shared by every chat, like the answer cache
+    this.bot.command('zakatrate', async (ctx) => {
+      const locale = this.localeFor(ctx);
+      // The rates are shared by every chat
+      if (!this.isOwner(ctx)) {
+        await ctx.reply(t(locale, 'owner.only'));
+        return;
+      }
+      const states = MALAYSIAN_STATES.map(state => state.id).join(', ');
+      const match = (ctx.match?.toString().trim() || '').match(/^(.+?)\s+(nisab|emas|uruf|fitrah)\s+(.+)$/i);
+      if (!match) {
+        const rates = this.zakatRates.list().map(([stateId, rates]) =>
+          `• ${findState(stateId)!.name} — ${describeRates(rates, locale) || t(locale, 'settings.none')}` +
+          ` (${rates.updatedAt ? formatGregorian(malaysianToday(new Date(rates.updatedAt)), locale) : rates.year})`);
+        await ctx.reply(`${t(locale, 'zakat.ratesList')}\n${rates.join('\n')}\n\n${t(locale, 'zakat.ratesUsage', { states })}`);
+        return;
+      }
+
+      const state = findState(match[1]);
+      if (!state) {
+        await ctx.reply(t(locale, 'state.notFound', { input: match[1], states }));
+        return;
+      }
+      const field = match[2].toLowerCase() as ZakatRateField;
+      const value = parseRateValue(field, match[3]);
+      if (value === null) {
+        await ctx.reply(t(locale, 'zakat.ratesInvalid', { field, value: match[3] }));
+        return;
+      }
+      const rates = await this.zakatRates.update(state.id, field, value, ctx.from?.id);
+      console.log(`Zakat rate ${field} for ${state.id} set to ${value ?? 'none'} by ${ctx.from?.id}`);
+      await ctx.reply(t(locale, 'zakat.ratesUpdated', { state: state.name, rates: describeRates(rates, locale) || t(locale, 'settings.none') }));
+    });
+  }
+
+  /**
+   * Asks for whatever the calculation still needs, picking from inline
+   * keyboards and typing amounts in reply to a prompt, then shows the result.
+   */
+  private async continueZakat(ctx: Context, session: ZakatSession) {
+    const { locale } = session;
+    const data = (action: string, value: string = '') => `zk:${session.id}:${action}:${value}`;
+    const ask = async (text: string, keyboard: InlineKeyboard) => {
+      keyboard.row();
+      await ctx.reply(text, { reply_markup: keyboard, reply_to_message_id: ctx.callbackQuery ? undefined : ctx.msg?.message_id });
+    };
+
+    if (!session.type) {
+      const keyboard = new InlineKeyboard();
+      ZAKAT_TYPES.forEach((type, index) => {
+        keyboard.text(t(locale, `zakat.type.${type}` as MessageKey), data('t', type));
+        if (index % 2 === 1) {
+          keyboard.row();
+        }
+      });
+      await ask(t(locale, 'zakat.chooseType'), keyboard);
+      return;
+    }
+    if (!session.state) {
+      const keyboard = new InlineKeyboard();
+      MALAYSIAN_STATES.forEach((state, index) => {
+        keyboard.text(state.name, data('s', state.id));
+        if (index % 2 === 1) {
+          keyboard.row();
+        }
+      });
+      await ask(t(locale, 'zakat.chooseState'), keyboard);
+      return;
+    }
+
+    const stateName = findState(session.state)!.name;
+    const rates = this.zakatRates.get(session.state);
+    const missing = missingRates(session.type, rates, session.inputs);
+    if (missing.length > 0) {
+      this.zakatSessions.delete(session.id);
+      await ctx.reply(t(locale, 'zakat.notConfigured', { state: stateName, fields: missing.join(', ') }));
+      return;
+    }
+
+    const step = nextStep(session.type, session.inputs, rates);
+    if (step?.kind === 'choice') {
+      const keyboard = new InlineKeyboard();
+      for (const option of step.options) {
+        keyboard.text(this.zakatOptionLabel(step.field, option, locale), data('c', option)).row();
+      }
+      await ask(t(locale, `zakat.ask.${step.field}` as MessageKey), keyboard);
+      return;
+    }
+    if (step) {
+      const prompt = await ctx.reply(t(locale, `zakat.ask.${step.field}` as MessageKey), {
+        reply_markup: { force_reply: true, input_field_placeholder: step.whole ? '1' : 'RM' },
+        reply_to_message_id: ctx.callbackQuery ? undefined : ctx.msg?.message_id
+      });
+      session.promptMessageId = prompt.message_id;
+      return;
+    }
+
+    const result = calculateZakat(session.type, session.inputs, rates, stateName, locale);
+    session.working = [
+      `### 🧮 ${t(locale, 'zakat.title', { type: t(locale, `zakat.type.${session.type}` as MessageKey), state: stateName })}`,
+      ...result.working.map(line => `- ${line}`),
+      '',
+      `**${result.due ? t(locale, 'zakat.result.due', { amount: formatRinggit(result.amount) }) : t(locale, 'zakat.result.none')}**`
+    ].join('\n');
+    // Figures nobody has set with /zakatrate are the bundled ones for their year
+    const note = rates.updatedAt
+      ? t(locale, 'zakat.note', { state: stateName, date: formatGregorian(malaysianToday(new Date(rates.updatedAt)), locale) })
+      : t(locale, 'zakat.noteDefaults', { state: stateName, year: rates.year ?? '-' });
+    const text = `${session.working}\n\n*${note}*`;
+
+    const chunks = this.splitResponse(this.formatResponseForTelegram(text), locale);
+    for (const [index, chunk] of chunks.entries()) {
+      await ctx.reply(chunk, {
+        reply_to_message_id: ctx.callbackQuery ? undefined : ctx.msg?.message_id,
+        parse_mode: 'HTML',
+        reply_markup: index === chunks.length - 1 ? new InlineKeyboard().text(t(locale, 'zakat.explain'), data('e')) : undefined
+      });
+    }
+    console.log(`Zakat ${session.type} for ${session.state} calculated in chat ${session.chatId}`);
+  }
+
+  /**
+   * Takes an amount typed for an open /zakat calculation. Returns false when
+   * the message is not one, so it is handled as a question instead.
+   */
+  private async handleZakatInput(ctx: Context): Promise<boolean> {
+    const text = ctx.msg?.text || '';
+    const session = [...this.zakatSessions.values()].find(session =>
+      session.chatId === ctx.chat?.id && session.userId === ctx.from?.id && !session.working);
+    if (!session || !session.type || !session.state || session.promptMessageId === undefined || text.startsWith('/')) {
+      return false;
+    }
+    const step = nextStep(session.type, session.inputs, this.zakatRates.get(session.state));
+    const isReplyToPrompt = ctx.msg?.reply_to_message?.message_id === session.promptMessageId;
+    // In groups only replies to the prompt count; in private any message might be the amount
+    if (step?.kind !== 'amount' || (!isReplyToPrompt && ctx.chat?.type !== 'private')) {
+      return false;
+    }
+
+    const amount = parseAmount(text, step.whole);
+    if (amount === undefined || (step.whole && amount < 1)) {
+      if (!isReplyToPrompt) {
+        // Anything else typed in private means the user has moved on
+        this.zakatSessions.delete(session.id);
+        return false;
+      }
+      const prompt = await ctx.reply(t(session.locale, 'zakat.invalidNumber'), {
+        reply_markup: { force_reply: true },
+        reply_to_message_id: ctx.msg?.message_id
+      });
+      session.promptMessageId = prompt.message_id;
+      return true;
+    }
+
+    session.inputs[step.field] = amount;
+    session.updatedAt = Date.now();
+    await this.continueZakat(ctx, session);
+    return true;
+  }
+
+  private zakatOptionLabel(field: string, option: string, locale: Locale): string {
+    return field === 'rate' ? formatRinggit(Number(option)) : t(locale, `zakat.option.${option}` as MessageKey);
+  }
+
+  /** Has IbadhahAgent explain the fiqh around a calculated figure without redoing the arithmetic. */
+  private async explainZakat(ctx: Context, session: ZakatSession) {
+    console.log(`=== Zakat explanation for ${session.type} in chat ${session.chatId} ===`);
+    const ibadahAgent = this.agents.get('ibadah')!.agent;
+    const question = `${session.working}\n\n` +
+      'The zakat calculator worked out the figures above with the state\'s own nisab and rates. ' +
+      'Explain the fiqh behind this result without recalculating or changing any figure: the conditions that make this zakat due ' +
+      '(nisab, haul and full ownership), why the method shown applies, how the state zakat authority treats it, and how and when to pay it.';
+    await this.streamReply(
+      ctx,
+      question,
+      'ibadah',
+      onProgress => ibadahAgent.respond(question, [], onProgress, this.responseContextFor(ctx, session.working)),
+      session.locale
+    );
+  }
+
+  private setupFaraidCommands() {
+    // /faraid 120000 isteri, 2 anak lelaki, anak perempuan, ibu
+    this.bot.command('faraid', async (ctx) => {
+      if (!this.isChatAllowed(ctx)) {
+        return;
+      }
+      const locale = this.localeFor(ctx);
+      const heirNames = HEIRS.map(heir => HEIR_NAMES[heir][0]).join(', ');
+      const input = ctx.match?.toString().trim() || '';
+      // A leading amount is the estate, unless it is a small number counting the first heir ("2 anak lelaki")
+      const leading = input.match(/^(rm\s*)?[\d,.]+k?(?=[\s,;:]|$)/i);
+      const leadingAmount = leading ? parseAmount(leading[0]) : undefined;
+      const estate = leading && leadingAmount !== undefined && (leading[1] || leadingAmount >= 100) ? leadingAmount : undefined;
+      const { heirs, unknown } = parseHeirs(estate !== undefined ? input.slice(leading![0].length).replace(/^\s*[,:;]/, '') : input);
+
+      if (unknown.length > 0) {
+        await ctx.reply(t(locale, 'faraid.unknownHeir', { input: unknown[0], heirs: heirNames }));
+        return;
+      }
+      if (Object.keys(heirs).length === 0) {
+        await ctx.reply(t(locale, 'faraid.usage', { heirs: heirNames }));
+        return;
+      }
+      if (heirs.husband && heirs.wife) {
+        await ctx.reply(t(locale, 'faraid.bothSpouses'));
+        return;
+      }
+      const tooMany = HEIRS.find(heir => (heirs[heir] || 0) > (MAX_HEIRS[heir] ?? Infinity));
+      if (tooMany) {
+        await ctx.reply(t(locale, 'faraid.tooMany', { heir: t(locale, `faraid.heir.${tooMany}` as MessageKey), count: MAX_HEIRS[tooMany]! }));
+        return;
+      }
+
+      const result = calculateFaraid(heirs);
+      const heirLabel = (heir: Heir) => t(locale, `faraid.heir.${heir}` as MessageKey);
+      const amount = (share: Fraction) => formatRinggit(Math.round(estate! * share.numerator / share.denominator * 100) / 100);
+      const lines = [`### ${estate !== undefined ? t(locale, 'faraid.title', { estate: formatRinggit(estate) }) : t(locale, 'faraid.titleShares')}`];
+      for (const { heir, count, share, basis } of result.shares) {
+        let line = `- **${heirLabel(heir)}${count > 1 ? ` ×${count}` : ''}**: ${formatFraction(share)} (${t(locale, `faraid.basis.${basis}` as MessageKey)})`;
+        if (estate !== undefined) {
+          line += ` — ${amount(share)}`;
+          if (count > 1) {
+            line += ` (${t(locale, 'faraid.each', { amount: amount({ numerator: share.numerator, denominator: share.denominator * count }) })})`;
+          }
+        }
+        lines.push(line);
+      }
+      if (result.baitulmal) {
+        lines.push(`- **${t(locale, 'faraid.baitulmal', { share: formatFraction(result.baitulmal) })}**${estate !== undefined ? ` — ${amount(result.baitulmal)}` : ''}`);
+      }
+      lines.push('');
+      if (result.specialCase) {
+        lines.push(`- ${t(locale, `faraid.case.${result.specialCase}` as MessageKey)}`);
+      }
+      if (result.awl) {
+        lines.push(`- ${t(locale, 'faraid.awl', { base: result.base, awl: result.awl })}`);
+      }
+      if (result.radd) {
+        lines.push(`- ${t(locale, 'faraid.radd')}`);
+      }
+      for (const { heir, by } of result.excluded) {
+        lines.push(`- ${t(locale, 'faraid.excluded', { heir: heirLabel(heir), by: heirLabel(by) })}`);
+      }
+      const distribution = lines.join('\n').trim();
+
+      for (const chunk of this.splitResponse(this.formatResponseForTelegram(`${distribution}\n\n*${t(locale, 'faraid.note')}*`), locale)) {
+        await ctx.reply(chunk, {
+          reply_to_message_id: ctx.msg?.message_id,
+          parse_mode: 'HTML'
+        });
+      }
+      console.log(`Faraid for ${JSON.stringify(heirs)} in chat ${ctx.chat.id}`);
+
+      // The figures come from the rule engine; the agent only explains them
+      if (this.groupSettings.isAgentEnabled(ctx.chat.id, 'mazhab')) {
+        const mazhabAgent = this.agents.get('mazhab')!.agent;
+        const question = `${distribution}\n\n` +
+          'This faraid distribution was calculated by a rule engine following the Shafi\'i school. Explain it without recalculating ' +
+          'or changing any share: the basis of each heir\'s share in the verses of inheritance (An-Nisa 4:11, 4:12 and 4:176) and the ' +
+          'hadith, why any excluded heirs are excluded, and any \'awl, radd or named case. Then say briefly where the Hanafi, Maliki ' +
+          'or Hanbali schools would divide this estate differently.';
+        await this.runLimited(ctx, 1, () => this.streamReply(
+          ctx,
+          question,
+          'mazhab',
+          onProgress => mazhabAgent.respond(question, [], onProgress, this.responseContextFor(ctx, distribution)),
+          locale
+        ));
+      }
+    });
+  }
+
+  private setupScheduleCommands() {
+    // /jadual, /jadual tambah hadis 08:00, /jadual padam 2, /jadual zon sgr01
+    this.bot.command('jadual', async (ctx) => {
+      if (!this.isChatAllowed(ctx)) {
+        return;
+      }
+      const locale = this.localeFor(ctx);
+      if (ctx.chat.type === 'private') {
+        await ctx.reply(t(locale, 'jadual.groupOnly'));
+        return;
+      }
+
+      const chatId = ctx.chat.id;
+      const [action = '', ...args] = (ctx.match?.toString().trim() || '').split(/\s+/);
+      if (['', 'senarai', 'list'].includes(action.toLowerCase())) {
+        const jobs = this.scheduler.list(chatId);
+        const zone = this.chatZone(chatId);
+        await ctx.reply([
+          t(locale, 'jadual.title'),
+          '',
+          ...(jobs.length > 0 ? jobs.map(job => this.describeJob(job, locale)) : [t(locale, 'jadual.empty')]),
+          '',
+          zone ? t(locale, 'jadual.zone', { zone: zone.code, places: zone.places.join(', ') }) : t(locale, 'jadual.zoneNone'),
+          '',
+          t(locale, 'jadual.usage', { types: JOB_TYPES.join(', ') })
+        ].join('\n'));
+        return;
+      }
+
+      if (!this.isOwner(ctx) && !(await this.isChatAdmin(ctx))) {
+        await ctx.reply(t(locale, 'jadual.adminOnly'));
+        return;
+      }
+
+      switch (action.toLowerCase()) {
+        case 'tambah':
+        case 'add': {
+          const type = args[0] ? findJobType(args[0]) : undefined;
+          if (!type) {
+            await ctx.reply(t(locale, 'jadual.unknownType', { input: args[0] || '', types: JOB_TYPES.join(', ') }));
+            return;
+          }
+          const schedule = parseSchedule(args.slice(1).join(' '));
+          if ('invalid' in schedule) {
+            await ctx.reply(t(locale, 'jadual.invalidSchedule', { input: schedule.invalid }));
+            return;
+          }
+          if (this.scheduler.list(chatId).length >= MAX_JOBS_PER_CHAT) {
+            await ctx.reply(t(locale, 'jadual.limit', { count: MAX_JOBS_PER_CHAT }));
+            return;
+          }
+          if (type === 'ramadan' && !this.chatZone(chatId)) {
+            await ctx.reply(t(locale, 'jadual.needsZone'));
+            return;
+          }
+          if (type === 'hadith' && !HADITH_COLLECTIONS.some(collection => this.hadith.isImported(collection))) {
+            await ctx.reply(t(locale, 'jadual.hadithUnavailable'));
+            return;
+          }
+          if (type === 'ayat' && !this.quran.isLoaded) {
+            await ctx.reply(t(locale, 'quran.unavailable'));
+            return;
+          }
+          const job = await this.scheduler.add(chatId, type, schedule, ctx.from?.id);
+          await ctx.reply(t(locale, 'jadual.added', { job: this.describeJob(job, locale) }));
+          return;
+        }
+        case 'padam':
+        case 'remove':
+        case 'delete': {
+          const id = Number(args[0]);
+          const removed = Number.isInteger(id) && await this.scheduler.remove(chatId, id);
+          await ctx.reply(t(locale, removed ? 'jadual.removed' : 'jadual.notFound', { id: args[0] || '' }));
+          return;
+        }
+        case 'zon':
+        case 'zone': {
+          const input = args.join(' ');
+          if (!input) {
+            const zone = this.chatZone(chatId);
+            await ctx.reply(zone ? t(locale, 'jadual.zone', { zone: zone.code, places: zone.places.join(', ') }) : t(locale, 'jadual.zoneNone'));
+            return;
+          }
+          if (['padam', 'none', 'tiada'].includes(input.toLowerCase())) {
+            await this.groupSettings.update(chatId, { zone: null }, ctx.from?.id);
+            await ctx.reply(t(locale, 'jadual.zoneCleared'));
+            return;
+          }
+          const zone = findZone(input);
+          if (!zone) {
+            await ctx.reply(t(locale, 'prayer.notFound', { input }) + `\n\n${PRAYER_ZONES.map(zone => `${zone.code} - ${zone.places.join(', ')}`).join('\n')}`);
+            return;
+          }
+          await this.groupSettings.update(chatId, { zone: zone.code }, ctx.from?.id);
+          await ctx.reply(t(locale, 'jadual.zone', { zone: zone.code, places: zone.places.join(', ') }));
+          return;
+        }
+        default:
+          await ctx.reply(t(locale, 'jadual.usage', { types: JOB_TYPES.join(', ') }));
+      }
+    });
+  }
+
+  private describeJob(job: ScheduledJob, locale: Locale): string {
+    const days = job.days.map(day => t(locale, `jadual.day.${day}` as MessageKey)).join(', ');
+    const schedule = job.prayers
+      ? t(locale, 'jadual.schedule.ramadan')
+      : days
+        ? t(locale, 'jadual.schedule.weekly', { days, time: job.time || '' })
+        : t(locale, 'jadual.schedule.daily', { time: job.time || '' });
+    return `${job.id}. ${t(locale, `jadual.type.${job.type}` as MessageKey)} — ${schedule}`;
+  }
+
+  /** Posts a job's content for one occurrence; days with nothing to say post nothing. */
+  private async runScheduledJob(job: ScheduledJob, occurrence: Date) {
+    // A group whose access was revoked keeps its jobs, in case it is allowed again
+    if (!this.allowlist.isAllowed(job.chatId)) {
+      return;
+    }
+    const language = this.groupSettings.get(job.chatId).language;
+    const locale: Locale = language === 'auto' ? DEFAULT_LOCALE : language;
+    const markdown = this.scheduledPost(job, occurrence, locale);
+    if (!markdown) {
+      return;
+    }
+    for (const chunk of this.splitResponse(this.formatResponseForTelegram(markdown), locale)) {
+      await this.bot.api.sendMessage(job.chatId, chunk, { parse_mode: 'HTML' });
+    }
+  }
+
+  private scheduledPost(job: ScheduledJob, occurrence: Date, locale: Locale): string | undefined {
+    const today = malaysianToday(occurrence);
+    switch (job.type) {
+      case 'hadith':
+        return this.hadithOfTheDay(today, locale);
+      case 'ayat':
+        return this.verseOfTheDay(today, locale);
+      case 'kahf':
+        return t(locale, 'jadual.post.kahf');
+      case 'ramadan': {
+        const zone = this.chatZone(job.chatId);
+        if (!zone || this.calendar.toHijri(today).month !== 9) {
+          return undefined;
+        }
+        const times = calculatePrayerTimes(zone, today);
+        if (times.imsak.getTime() === occurrence.getTime()) {
+          return t(locale, 'jadual.post.imsak', { time: formatTime(times.imsak), fajr: formatTime(times.fajr), zone: zone.code });
+        }
+        return times.maghrib.getTime() === occurrence.getTime()
+          ? t(locale, 'jadual.post.iftar', { time: formatTime(times.maghrib), zone: zone.code })
+          : undefined;
+      }
+      case 'hijri': {
+        const events = this.calendar.upcomingEvents(today, 3).filter(entry => entry.daysAway <= 1);
+        return events.length > 0
+          ? events.map(entry => t(locale, entry.daysAway === 0 ? 'jadual.post.hijriToday' : 'jadual.post.hijriTomorrow', {
+            event: describeEvent(entry, locale)
+          })).join('\n')
+          : undefined;
+      }
+    }
+  }
+
+  /** A sahih or hasan hadith with a translation, the same one all day. */
+  private hadithOfTheDay(date: CalendarDate, locale: Locale): string | undefined {
+    const candidates = HADITH_COLLECTIONS
+      .filter(collection => this.hadith.isImported(collection))
+      .flatMap(collection => this.hadith.hadiths(collection).map(hadith => ({ collection, hadith })))
+      .filter(({ collection, hadith }) => {
+        const grade = this.hadith.gradeOf(collection, hadith);
+        const translation = this.hadith.translation(hadith, locale);
+        return (grade === 'sahih' || grade === 'hasan') && translation && translation.length <= DAILY_HADITH_MAX_LENGTH;
+      });
+    if (candidates.length === 0) {
+      console.warn('No imported hadith is suitable for the daily hadith post');
+      return undefined;
+    }
+    const { collection, hadith } = candidates[dailyIndex(date, candidates.length)];
+    return `**${t(locale, 'jadual.post.hadith')}**\n\n${this.describeHadith(collection, hadith, locale)}`;
+  }
+
+  private verseOfTheDay(date: CalendarDate, locale: Locale): string | undefined {
+    if (!this.quran.isLoaded) {
+      return undefined;
+    }
+    const surahs = Array.from({ length: 114 }, (_, index) => this.quran.surah(index + 1)!);
+    let ayah = dailyIndex(date, surahs.reduce((total, surah) => total + surah.verseCount, 0)) + 1;
+    const surah = surahs.find(candidate => {
+      if (ayah <= candidate.verseCount) {
+        return true;
+      }
+      ayah -= candidate.verseCount;
+      return false;
+    })!;
+    return `**${t(locale, 'jadual.post.ayat')}**\n\n${this.describeVerses({ surah: surah.number, from: ayah, to: ayah }, locale)}`;
+  }
+
+  /** The zone of the asker's home state, else the chat's. */
+  private defaultZone(ctx: Context): PrayerZone | undefined {
+    return zoneForState(this.homeState(ctx)) || (ctx.chat ? this.chatZone(ctx.chat.id) : undefined);
+  }
+
+  /** The zone an admin set for the chat, else the zone of its state's capital. */
+  private chatZone(chatId: number): PrayerZone | undefined {
+    const settings = this.groupSettings.get(chatId);
+    return zoneByCode(settings.zone || '') || zoneForState(settings.state || undefined);
+  }
+
+  private async replyPrayerTimes(ctx: Context, zone: PrayerZone | undefined, daysAhead: number, locale: Locale) {
+    if (!zone) {
+      await ctx.reply(t(locale, 'prayer.askZone'), { reply_to_message_id: ctx.msg?.message_id });
+      return;
+    }
+
+    const lines = [...this.prayerTimeLines(zone, daysAhead, locale), '', `*${t(locale, 'prayer.note')}*`];
+    for (const chunk of this.splitResponse(this.formatResponseForTelegram(lines.join('\n')), locale)) {
+      await ctx.reply(chunk, {
+        reply_to_message_id: ctx.msg?.message_id,
+        parse_mode: 'HTML'
+      });
+    }
+  }
+
+  /** A zone's prayer times for a day as markdown lines, headed by the zone and date. */
+  private prayerTimeLines(zone: PrayerZone, daysAhead: number, locale: Locale): string[] {
+    const date = addDays(malaysianToday(), daysAhead);
+    const times = calculatePrayerTimes(zone, date);
+    const dateLabel = new Intl.DateTimeFormat(locale === 'en' ? 'en-MY' : 'ms-MY', {
+      weekday: 'long', day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC'
+    }).format(Date.UTC(date.year, date.month - 1, date.day));
+
+    return [
+      `### 🕌 ${t(locale, 'prayer.title', { zone: zone.code })}`,
+      `📍 ${zone.places.join(', ')}`,
+      `📅 ${dateLabel}`,
+      '',
+      ...PRAYER_NAMES.map(name => `${t(locale, `prayer.name.${name}` as MessageKey)}: **${formatTime(times[name])}**`)
+    ];
+  }
+
+  /** Replies with the qibla from a location and, inside Malaysia, today's prayer times for its zone. */
+  private async replyQibla(ctx: Context, place: Coordinates, locale: Locale, zone?: PrayerZone) {
+    const { bearing, distanceKm } = qiblaFrom(place);
+    const nearest = zone || nearestZone(place)?.zone;
+    const number = (value: number, digits: number) => value.toLocaleString(locale === 'en' ? 'en-MY' : 'ms-MY', {
+      minimumFractionDigits: digits, maximumFractionDigits: digits
+    });
+
+    const lines = [
+      `### ${t(locale, 'qibla.title')}`,
+      t(locale, 'qibla.location', { latitude: place.latitude.toFixed(4), longitude: place.longitude.toFixed(4) }),
+      t(locale, 'qibla.bearing', {
+        bearing: number(bearing, 1),
+        direction: t(locale, `qibla.direction.${compassPoint(bearing)}` as MessageKey)
+      }),
+      t(locale, 'qibla.distance', { distance: number(distanceKm, 0) }),
+      '',
+      ...(nearest ? this.prayerTimeLines(nearest, 0, locale) : [t(locale, 'qibla.outsideMalaysia')]),
+      '',
+      `*${t(locale, 'qibla.note')}*`
+    ];
+    for (const [index, chunk] of this.splitResponse(this.formatResponseForTelegram(lines.join('\n')), locale).entries()) {
+      await ctx.reply(chunk, {
+        reply_to_message_id: ctx.msg?.message_id,
+        parse_mode: 'HTML',
+        // Drops the share-location button once it has been used
+        reply_markup: index === 0 && ctx.message?.location ? { remove_keyboard: true } : undefined
+      });
+    }
+  }
+
+  private isChatAllowed(ctx: Context): boolean {
+    if (!ctx.chat) {
+      return false;
+    }
+    if (ctx.chat.type === 'private') {
+      return this.privatePolicy.allows(ctx.from?.id);
+    }
+    return this.allowlist.isAllowed(ctx.chat.id);
+  }
+
+  private conversationsFor(ctx: Context): ConversationStore {
+    return ctx.chat?.type === 'private' ? this.privateConversations : this.conversations;
+  }
+
+  /** Last message of the private chat's recent thread, so follow-ups need no reply. */
+  private privateThreadMessageId(chatId: number): number | undefined {
+    const thread = this.privateConversations.latestThread(chatId, 30 * 60 * 1000);
+    const lastTurn = thread?.turns[thread.turns.length - 1];
+    return lastTurn?.messageIds[lastTurn.messageIds.length - 1];
+  }
+
+  private async refusePrivateChat(ctx: Context) {
+    const userId = ctx.from?.id;
+    // Explain once per user per run, except when they explicitly /start
+    if (!userId || (this.privateRefusals.has(userId) && !ctx.message?.text?.startsWith('/start'))) {
+      return;
+    }
+    this.privateRefusals.add(userId);
+
+    await ctx.reply(t(this.localeFor(ctx), this.privatePolicy.mode === 'off' ? 'private.off' : 'private.notAllowed'));
+  }
+
+  private setupOnboarding() {
+    this.bot.command('start', async (ctx) => {
+      const locale = this.localeFor(ctx);
+      if (ctx.chat.type !== 'private') {
+        await ctx.reply(t(locale, 'start.group'));
+        return;
+      }
+
+      await ctx.reply(t(locale, 'start.private', { name: ctx.from?.first_name || '' }));
+    });
+  }
+
+  private isOwner(ctx: Context): boolean {
+    return !!ctx.from && this.ownerIds.includes(ctx.from.id);
+  }
+
+  private async notifyOwners(text: string, keyboard?: InlineKeyboard) {
+    for (const ownerId of this.ownerIds) {
+      try {
+        await this.bot.api.sendMessage(ownerId, text, keyboard ? { reply_markup: keyboard } : {});
+      } catch (error) {
+        // Owners must have started a private chat with the bot to receive this
+        console.error(`Could not notify owner ${ownerId}:`, error);
+      }
+    }
+  }
+
+  private async requestGroupAccess(chatId: number, title?: string, rejoined: boolean = false) {
+    if (!(await this.allowlist.requestAccess(chatId, title, rejoined))) {
+      return;
+    }
+
+    console.log(`New join request from group ${chatId} (${title || 'untitled'})`);
+    const keyboard = new InlineKeyboard()
+      .text(t(DEFAULT_LOCALE, 'owner.allow'), `grp:allow:${chatId}`)
+      .text(t(DEFAULT_LOCALE, 'owner.ignore'), `grp:ignore:${chatId}`);
+    await this.notifyOwners(
+      t(DEFAULT_LOCALE, 'owner.joinRequest', { title: title || t(DEFAULT_LOCALE, 'owner.untitledGroup'), chatId }),
+      keyboard
+    );
+  }
+
+  private async handleUnknownGroup(ctx: Context, rejoined: boolean = false) {
+    const chat = ctx.chat!;
+    const title = 'title' in chat ? chat.title : undefined;
+    await this.requestGroupAccess(chat.id, title, rejoined);
+
+    if (await this.allowlist.shouldExplain(chat.id, title)) {
+      // The group's language is not known yet, so explain in both
+      await ctx.reply(bilingual('group.notApproved'));
+    }
+  }
+
+  private setupGroupManagement() {
+    // The bot being added to (or removed from) a group
+    this.bot.on('my_chat_member', async (ctx) => {
+      const chat = ctx.myChatMember.chat;
+      const status = ctx.myChatMember.new_chat_member.status;
+      if (chat.type !== 'group' && chat.type !== 'supergroup') {
+        return;
+      }
+
+      if (status === 'member' || status === 'administrator') {
+        console.log(`Bot added to group ${chat.id} (${chat.title})`);
+        if (!this.allowlist.isAllowed(chat.id)) {
+          await this.handleUnknownGroup(ctx, true);
+        }
+      } else if (status === 'left' || status === 'kicked') {
+        console.log(`Bot removed from group ${chat.id} (${chat.title})`);
+      }
+    });
+
+    this.bot.callbackQuery(/^grp:(allow|ignore):(-?\d+)$/, async (ctx) => {
+      const locale = this.localeFor(ctx);
+      if (!this.isOwner(ctx)) {
+        await ctx.answerCallbackQuery({ text: t(locale, 'owner.only') });
+        return;
+      }
+
+      const [, action, id] = ctx.match;
+      const chatId = Number(id);
+      if (action === 'allow') {
+        const record = await this.allowlist.allow(chatId, ctx.from.id);
+        await ctx.answerCallbackQuery({ text: t(locale, 'owner.allowedToast') });
+        await ctx.editMessageText(t(locale, 'owner.allowed', {
+          title: record.title || t(locale, 'owner.untitledGroup'),
+          chatId
+        }));
+        await this.announceApproval(chatId);
+      } else {
+        await this.allowlist.revoke(chatId, ctx.from.id);
+        await ctx.answerCallbackQuery({ text: t(locale, 'owner.ignoredToast') });
+        await ctx.editMessageText(t(locale, 'owner.ignored', { chatId }));
+      }
+    });
+
+    // /allowgroup [chatId] - without an id, allows the group it is sent in
+    this.bot.command('allowgroup', async (ctx) => {
+      if (!this.isOwner(ctx)) {
+        return;
+      }
+
+      const locale = this.localeFor(ctx);
+      const chatId = Number(ctx.match?.toString().trim() || ctx.chat.id);
+      if (!Number.isFinite(chatId)) {
+        await ctx.reply(t(locale, 'owner.allowUsage'));
+        return;
+      }
+
+      const title = chatId === ctx.chat.id && 'title' in ctx.chat ? ctx.chat.title : undefined;
+      const record = await this.allowlist.allow(chatId, ctx.from?.id, title);
+      console.log(`Group ${chatId} allowed by ${ctx.from?.id}`);
+      await ctx.reply(t(locale, 'owner.allowed', { title: record.title || t(locale, 'owner.untitledGroup'), chatId }));
+      if (chatId !== ctx.chat.id) {
+        await this.announceApproval(chatId);
+      }
+    });
+
+    this.bot.command('revokegroup', async (ctx) => {
+      if (!this.isOwner(ctx)) {
+        return;
+      }
+
+      const locale = this.localeFor(ctx);
+      const chatId = Number(ctx.match?.toString().trim() || ctx.chat.id);
+      const record = Number.isFinite(chatId) ? await this.allowlist.revoke(chatId, ctx.from?.id) : undefined;
+      if (!record) {
+        await ctx.reply(t(locale, 'owner.revokeUsage'));
+        return;
+      }
+      console.log(`Group ${chatId} revoked by ${ctx.from?.id}`);
+      await ctx.reply(t(locale, 'owner.revoked', { title: record.title || t(locale, 'owner.untitledGroup'), chatId }));
+    });
+
+    this.bot.command('groups', async (ctx) => {
+      if (!this.isOwner(ctx)) {
+        return;
+      }
+
+      const locale = this.localeFor(ctx);
+      const describe = (status: 'allowed' | 'pending' | 'revoked', label: 'owner.listAllowed' | 'owner.listPending' | 'owner.listRevoked') => {
+        const records = this.allowlist.list(status);
+        const lines = records.map(record => `• ${record.title || t(locale, 'owner.untitledGroup')} (${record.chatId})`);
+        return `${t(locale, label, { count: records.length })}:\n${lines.join('\n') || t(locale, 'owner.listEmpty')}`;
+      };
+      await ctx.reply([
+        describe('allowed', 'owner.listAllowed'),
+        describe('pending', 'owner.listPending'),
+        describe('revoked', 'owner.listRevoked')
+      ].join('\n\n'));
+    });
+  }
+
+  private async announceApproval(chatId: number) {
+    try {
+      await this.bot.api.sendMessage(chatId, bilingual('group.approved'));
+    } catch (error) {
+      console.error(`Could not announce approval to ${chatId}:`, error);
+    }
+  }
+
+  private async isChatAdmin(ctx: Context): Promise<boolean> {
+    if (!ctx.chat || !ctx.from) {
+      return false;
+    }
+    try {
+      const member = await ctx.getChatMember(ctx.from.id);
+      return member.status === 'administrator' || member.status === 'creator';
+    } catch (error) {
+      console.error('Error checking admin status:', error);
+      return false;
+    }
+  }
+
+  private setupAdminCommands() {
+    // /clearcache [question] - drop cached answers for one question, or all of them; the cache serves every chat
+    this.bot.command('clearcache', async (ctx) => {
+      const locale = this.localeFor(ctx);
+      if (!this.isOwner(ctx)) {
+        await ctx.reply(t(locale, 'owner.only'));
+        return;
+      }
+
+      const question = ctx.match?.toString().trim();
+      const removed = await this.answerCache.invalidate(question || undefined);
+      console.log(`Cache invalidated by ${ctx.from?.id}: ${removed} entries (${question || 'all'})`);
+      await ctx.reply(t(locale, question ? 'cache.clearedQuestion' : 'cache.clearedAll', { count: removed }));
+    });
+
+    this.bot.command('cachestats', async (ctx) => {
+      const locale = this.localeFor(ctx);
+      if (!this.isOwner(ctx)) {
+        await ctx.reply(t(locale, 'owner.only'));
+        return;
+      }
+
+      const { entries, hits, misses } = await this.answerCache.stats();
+      const total = hits + misses;
+      const hitRate = total > 0 ? Math.round((hits / total) * 100) : 0;
+      await ctx.reply(t(locale, 'cache.stats', { entries, hits, misses, hitRate }));
     });
   }
 
@@ -312,7 +1767,7 @@ export class AgentManager {
     return cleaned.trim();
   }
 
-  private splitResponse(text: string): string[] {
+  private splitResponse(text: string, locale: Locale): string[] {
     const MAX_LENGTH = 4000; // Leave some room for formatting
     const chunks: string[] = [];
     
@@ -336,8 +1791,8 @@ export class AgentManager {
 
       // Add continuation marker if there's more
       if (text.length > 0) {
-        chunks[chunks.length - 1] += '\n\n<i>(continued...)</i>';
-        text = '<i>(continuation)</i>\n\n' + text;
+        chunks[chunks.length - 1] += `\n\n<i>${t(locale, 'answer.continued')}</i>`;
+        text = `<i>${t(locale, 'answer.continuation')}</i>\n\n` + text;
       }
     }
 
@@ -434,6 +1889,23 @@ export class AgentManager {
     console.log('\n=== Starting All Agents ===');
     
     try {
+      // Restore persisted state before handling any updates
+      await this.storage.init();
+      await this.conversations.load();
+      await this.privateConversations.load();
+      await this.allowlist.load();
+      await this.groupSettings.load();
+      await this.quran.load();
+      await this.hadith.load();
+      await this.fatwaKnowledgeBase.load();
+      await this.calendar.load();
+      await this.zakatRates.load();
+      await this.scheduler.load();
+      await this.pruneStoredData();
+      this.pruneTimer = setInterval(() => {
+        this.pruneStoredData().catch(error => console.error('Error pruning stored data:', error));
+      }, PRUNE_INTERVAL_MS);
+
       // Initialize all agents first
       for (const [name, info] of this.agents) {
         try {
@@ -447,6 +1919,8 @@ export class AgentManager {
         }
       }
 
+      this.scheduler.start();
+
       // Start the bot with error handling and retries
       console.log('\nStarting bot...');
       try {
@@ -455,7 +1929,7 @@ export class AgentManager {
             console.log('✓ Bot started successfully');
           },
           drop_pending_updates: true, // Drop any pending updates to avoid conflicts
-          allowed_updates: ['message', 'callback_query'], // Only listen for specific updates
+          allowed_updates: ['message', 'callback_query', 'my_chat_member'], // Only listen for specific updates
           timeout: 30, // Reduce timeout for faster error detection
         });
       } catch (error: any) {
@@ -477,7 +1951,7 @@ export class AgentManager {
           console.log('Attempting to restart bot...');
           await this.bot.start({
             drop_pending_updates: true,
-            allowed_updates: ['message', 'callback_query'],
+            allowed_updates: ['message', 'callback_query', 'my_chat_member'],
             timeout: 30,
           });
         } else {
@@ -514,6 +1988,11 @@ export class AgentManager {
         console.warn('⚠️ Bot stop timed out or failed:', error);
       }
 
+      this.scheduler.stop();
+      clearInterval(this.pruneTimer);
+      await this.storage.flush();
+      console.log('✓ Bot state saved');
+
       // Mark all agents as stopped
       for (const [name, info] of this.agents) {
         info.isRunning = false;
@@ -547,7 +2026,7 @@ export class AgentManager {
     const lowerText = text.toLowerCase().trim();
 
     // First, check if it's a simple interaction
-    const simpleCheck = this.isSimpleInteraction(text);
+    const simpleCheck = this.isSimpleInteraction(text, 'en');
     if (simpleCheck.isSimple) {
       return false;
     }
@@ -594,8 +2073,9 @@ export class AgentManager {
     return islamicTerms.some(term => lowerText.includes(term));
   }
 
-  private isSimpleInteraction(text: string): { isSimple: boolean; response?: string } {
+  private isSimpleInteraction(text: string, locale: Locale): { isSimple: boolean; response?: string } {
     const lowerText = text.toLowerCase().trim();
+    const reply = (key: MessageKey) => ({ isSimple: true, response: t(locale, key) });
     
     // Time-based greetings with proper type definition
     const timeGreetings: Record<string, string[]> = {
@@ -608,10 +2088,7 @@ export class AgentManager {
     // Check time-based greetings first
     for (const [timeOfDay, greetings] of Object.entries(timeGreetings)) {
       if (greetings.some(g => lowerText.includes(g))) {
-        return {
-          isSimple: true,
-          response: `Waalaikumussalam! ${timeOfDay === 'night' ? 'Good night!' : 'How can I help you today?'}`
-        };
+        return reply(timeOfDay === 'night' ? 'smalltalk.goodNight' : 'smalltalk.greeting');
       }
     }
     
@@ -625,10 +2102,7 @@ export class AgentManager {
       'hai', 'helo', 'oi', 'weh'
     ];
     if (greetings.some(greeting => lowerText.includes(greeting))) {
-      return {
-        isSimple: true,
-        response: 'Waalaikumussalam! Alhamdulillah, I\'m doing well. How can I help you today?'
-      };
+      return reply('smalltalk.howAreYou');
     }
 
     // Thanks
@@ -637,19 +2111,13 @@ export class AgentManager {
       'tq ye', 'thank you', 'thanks ye', 'terima kasih ye'
     ];
     if (thanks.some(t => lowerText.includes(t))) {
-      return {
-        isSimple: true,
-        response: 'You\'re welcome! Feel free to ask if you have any questions.'
-      };
+      return reply('smalltalk.thanks');
     }
 
     // Test messages
     const testMessages = ['test', 'testing', 'check', 'cuba', 'try'];
     if (testMessages.some(t => lowerText === t)) {
-      return {
-        isSimple: true,
-        response: 'Yes, I\'m here and working properly. How can I assist you?'
-      };
+      return reply('smalltalk.test');
     }
 
     // Introduction requests - check these patterns first as they're more specific
@@ -672,18 +2140,7 @@ export class AgentManager {
       if (pattern.startsWith('who are') && lowerText.match(/\bwho\s+(?:are|r)\s*(?:you|u)\b/)) return true;
       return false;
     })) {
-      return {
-        isSimple: true,
-        response: `Assalamualaikum! I am Tok Ayah, an Islamic knowledge assistant that specializes in Malaysian Islamic context. I can help you with:
-
-• Questions about Islamic rulings (fatwa)
-• Understanding different mazhab perspectives
-• Information about JAKIM guidelines
-• Malaysian Islamic practices and customs
-• Comprehensive analysis of Islamic topics
-
-Feel free to ask me any questions about Islamic matters, and I'll do my best to help you understand them from various authentic perspectives.`
-      };
+      return reply('smalltalk.intro');
     }
 
     // Bot capability questions
@@ -695,27 +2152,7 @@ Feel free to ask me any questions about Islamic matters, and I'll do my best to
       'what are your functions', 'apa fungsi'
     ];
     if (capabilityPatterns.some(pattern => lowerText.includes(pattern))) {
-      return {
-        isSimple: true,
-        response: `I can help you in several ways:
-
-1. Direct commands:
-/fatwa - Get fatwa rulings
-/mazhab - Learn about different mazhab views
-/jakim - Get JAKIM guidelines
-/malaysianfatwa - Access Malaysian fatwa decisions
-/ibadah - Learn about Islamic practices
-
-2. Natural conversations:
-Just mention "tok ayah" in your message and ask your question naturally in English or Malay.
-
-For example:
-• "tok ayah, apa hukum..."
-• "tok ayah, what is the ruling on..."
-• "tok ayah, boleh terangkan tentang..."
-
-I'll analyze your question and provide a comprehensive response considering various Islamic perspectives.`
-      };
+      return reply('smalltalk.capabilities');
     }
 
     // Status checks
@@ -725,29 +2162,256 @@ I'll analyze your question and provide a comprehensive response considering vari
       'masih ada', 'masih hidup', 'tok ayah ada', 'tok ayah?'
     ];
     if (statusChecks.some(check => lowerText.includes(check))) {
-      return {
-        isSimple: true,
-        response: 'Yes, I\'m here and ready to help! What would you like to know?'
-      };
+      return reply('smalltalk.status');
     }
 
     return { isSimple: false };
   }
 
-  private async replyWithFormattedResponse(ctx: Context, response: string) {
-    try {
-      const formattedResponse = this.formatResponseForTelegram(response);
-      const chunks = this.splitResponse(formattedResponse);
-      
-      for (const chunk of chunks) {
-        await ctx.reply(chunk, {
-          reply_to_message_id: ctx.message?.message_id,
-          parse_mode: 'HTML'
+  private rememberExchange(ctx: Context, question: string, answer: string, answerMessageIds: number[], agentName?: string) {
+    const message = ctx.msg;
+    if (!ctx.chat || !message || answerMessageIds.length === 0) {
+      return;
+    }
+
+    this.recordUsage(agentName || 'unknown', ctx.chat.id);
+
+    // For button presses, the answer carrying the button stands in for the question;
+    // in private chats an unreplied message continues the recent thread
+    const replyToMessageId = ctx.callbackQuery
+      ? message.message_id
+      : message.reply_to_message?.message_id ??
+        (ctx.chat.type === 'private' ? this.privateThreadMessageId(ctx.chat.id) : undefined);
+    const thread = this.conversationsFor(ctx).recordExchange({
+      chatId: ctx.chat.id,
+      questionMessageId: message.message_id,
+      replyToMessageId,
+      question,
+      answer,
+      answerMessageIds,
+      agentName
+    });
+    console.log(`Conversation ${thread.id} now has ${thread.turns.length} turns`);
+  }
+
+  /** Deletes stored data past its retention, so the state file does not grow without limit. */
+  private async pruneStoredData() {
+    const pruned = await this.answerCache.pruneExpired();
+    console.log(`✓ Pruned ${pruned} expired cached answers`);
+    const prunedFollowUps = await this.followUps.pruneExpired();
+    console.log(`✓ Pruned ${prunedFollowUps} expired follow-up records`);
+
+    // Usage keys start with the day, e.g. "2025-03-01:chat:-100123"
+    const cutoff = new Date(Date.now() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    let prunedUsage = 0;
+    for (const [key] of await this.storage.entries<number>(Collections.usage)) {
+      if (key.slice(0, 10) < cutoff) {
+        await this.storage.delete(Collections.usage, key);
+        prunedUsage++;
+      }
+    }
+    console.log(`✓ Pruned ${prunedUsage} old usage counts`);
+  }
+
+  private recordUsage(agentName: string, chatId: number) {
+    const day = new Date().toISOString().slice(0, 10);
+    Promise.all([
+      this.storage.increment(Collections.usage, `${day}:agent:${agentName}`),
+      this.storage.increment(Collections.usage, `${day}:chat:${chatId}`)
+    ]).catch(error => console.error('Error recording usage:', error));
+  }
+
+  /**
+   * Runs LLM work for a request if the user, group and global limits allow
+   * it, queued behind earlier requests from the same chat.
+   */
+  private async runLimited(ctx: Context, weight: number, task: () => Promise<void>) {
+    const chatId = ctx.chat!.id;
+    const userId = ctx.from?.id || chatId;
+
+    const result = this.rateLimiter.tryConsume(userId, chatId, weight, ctx.chat!.type === 'private');
+    if (!result.allowed) {
+      console.log(`Rate limited (${result.scope}) user ${userId} in chat ${chatId}, retry in ${result.retryAfterMs}ms`);
+      await this.replyRateLimited(ctx, userId, result);
+      return;
+    }
+
+    const ahead = this.queue.pendingFor(chatId);
+    if (ahead > 0) {
+      console.log(`Queued request in chat ${chatId} behind ${ahead} other(s)`);
+    }
+    await this.queue.run(chatId, task);
+  }
+
+  private async replyRateLimited(ctx: Context, userId: number, result: Extract<RateLimitResult, { allowed: false }>) {
+    // Tell each user at most once per 30 seconds so the notice itself does not spam the group
+    const noticeKey = `${result.scope}:${userId}:${ctx.chat!.id}`;
+    const lastNotice = this.rateLimitNotices.get(noticeKey) || 0;
+    if (Date.now() - lastNotice < 30 * 1000) {
+      return;
+    }
+    this.rateLimitNotices.set(noticeKey, Date.now());
+
+    const seconds = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+    await ctx.reply(t(this.localeFor(ctx), `rateLimit.${result.scope}`, { count: seconds }), {
+      reply_to_message_id: ctx.msg?.message_id
+    });
+  }
+
+  private async answerQuestion(ctx: Context, question: string, history: DeepseekMessage[], useOpinion: boolean) {
+    const chatId = ctx.chat!.id;
+    const repliedMessage = ctx.message?.reply_to_message;
+    const settings = this.groupSettings.get(chatId);
+
+    if (useOpinion) {
+      // Use OpinionAgent for comprehensive analysis
+      console.log('Processing with OpinionAgent (getKeywords requested)...');
+      const opinionAgent = this.agents.get('opinion')?.agent as OpinionAgent;
+      if (opinionAgent) {
+        await this.streamAgentAnswer(ctx, opinionAgent, question, history, 'opinion');
+      }
+    } else {
+      // Use the most relevant specialized agent
+      console.log('Finding most relevant specialized agent...');
+      const { selected } = await this.router.route(question, settings.enabledAgents);
+      let bestAgent: BaseIslamicAgent | null = selected?.agent || null;
+      let agentName = selected?.name;
+
+      // Short follow-ups often score low on their own; stay with the agent of the thread
+      const thread = this.conversationsFor(ctx).findThread(chatId, repliedMessage?.message_id);
+      if (!bestAgent && thread?.agentName && this.agents.has(thread.agentName) &&
+        settings.enabledAgents.includes(thread.agentName)) {
+        console.log(`No agent selected, continuing thread with ${thread.agentName}`);
+        agentName = thread.agentName;
+        bestAgent = this.agents.get(thread.agentName)!.agent;
+      }
+
+      // Then fall back to the chat's default agent, if it has one
+      if (!bestAgent && settings.defaultAgent && settings.enabledAgents.includes(settings.defaultAgent)) {
+        console.log(`No agent selected, using the chat's default agent ${settings.defaultAgent}`);
+        agentName = settings.defaultAgent;
+        bestAgent = this.agents.get(settings.defaultAgent)!.agent;
+      }
+
+      if (bestAgent) {
+        await this.streamAgentAnswer(ctx, bestAgent, question, history, agentName);
+      } else {
+        // No agent found relevant enough, use default response
+        await ctx.reply(t(this.localeFor(ctx, question), 'answer.notUnderstood'), {
+          reply_to_message_id: ctx.message?.message_id
         });
       }
+    }
+  }
+
+  private async streamAgentAnswer(
+    ctx: Context,
+    agent: BaseIslamicAgent,
+    question: string,
+    history: DeepseekMessage[],
+    agentName?: string
+  ) {
+    await this.streamReply(ctx, question, agentName || 'fatwa', onProgress =>
+      agent.respond(question, history, onProgress, this.responseContextFor(ctx, question))
+    );
+  }
+
+  /**
+   * Streams a generated answer into the chat, attaches the follow-up
+   * keyboard and records the exchange in conversation memory.
+   */
+  private async streamReply(
+    ctx: Context,
+    question: string,
+    agentName: string,
+    generate: (onProgress: StreamListener) => Promise<CacheLookup>,
+    locale: Locale = this.localeFor(ctx, question)
+  ) {
+    const reply = new StreamingReply(ctx, text => this.splitResponse(this.formatResponseForTelegram(text), locale));
+    try {
+      await reply.start();
+      const { answer, cached } = await generate(text => reply.update(text));
+      const keyboard = await this.followUps.createKeyboard({
+        chatId: ctx.chat!.id,
+        question,
+        answer,
+        agentName
+      }, locale);
+      const messageIds = await reply.finalize(answer, keyboard);
+      console.log(`Answered with ${agentName}${cached ? ' (cached)' : ''} in ${messageIds.length} message(s)`);
+      this.rememberExchange(ctx, question, answer, messageIds, agentName);
     } catch (error) {
-      console.error('Error sending formatted response:', error);
-      await ctx.reply('I apologize, but I encountered an error while formatting the response.');
+      console.error('Error generating response:', error);
+      const message = t(locale, 'answer.error');
+      await reply.fail(message).catch(() => ctx.reply(message, {
+        reply_to_message_id: ctx.msg?.message_id
+      }));
+    }
+  }
+
+  private async handleFollowUp(ctx: Context, action: FollowUpAction, record: FollowUpRecord) {
+    console.log(`=== Follow-up action: ${action} on ${record.agentName} answer ===`);
+    const original = this.agents.get(record.agentName)?.agent || this.agents.get('fatwa')!.agent;
+    const context = this.responseContextFor(ctx, record.question);
+    // Button presses carry no text of their own, so the bot speaks the language of the original question
+    const locale = this.localeFor(ctx, record.question);
+    const history: DeepseekMessage[] = [
+      { role: 'user', content: record.question },
+      { role: 'assistant', content: record.answer }
+    ];
+
+    switch (action) {
+      case 'mazhab': {
+        const mazhabAgent = this.agents.get('mazhab')!.agent;
+        const question = `Bagaimana pandangan mazhab lain (Hanafi, Maliki, Hanbali) berbanding mazhab Shafi'i tentang perkara ini: ${record.question}`;
+        await this.streamReply(
+          ctx,
+          question,
+          'mazhab',
+          onProgress => mazhabAgent.respond(question, history, onProgress, context),
+          locale
+        );
+        break;
+      }
+      case 'detail': {
+        const question = 'Please explain your previous answer in more detail, with fuller evidence and examples.';
+        await this.streamReply(
+          ctx,
+          question,
+          record.agentName,
+          onProgress => original.respond(question, history, onProgress, context),
+          locale
+        );
+        break;
+      }
+      case 'opinion': {
+        const opinionAgent = this.agents.get('opinion')!.agent;
+        await this.streamReply(
+          ctx,
+          record.question,
+          'opinion',
+          onProgress => opinionAgent.respond(record.question, [], onProgress, context),
+          locale
+        );
+        break;
+      }
+      case 'summary': {
+        const instruction = 'Summarise the following answer in at most five short bullet points, in the same language as the answer.';
+        await this.streamReply(ctx, record.question, record.agentName, async onProgress => ({
+          answer: await original.transformAnswer(record.answer, instruction, onProgress, context),
+          cached: false
+        }), locale);
+        break;
+      }
+      case 'translate': {
+        const target = replyLocale(detectLanguage(record.answer)) === 'ms' ? 'English' : 'Bahasa Melayu';
+        const instruction = `Translate the following answer into ${target}. Keep the structure, Arabic terms and references unchanged.`;
+        await this.streamReply(ctx, record.question, record.agentName, async onProgress => ({
+          answer: await original.transformAnswer(record.answer, instruction, onProgress, context),
+          cached: false
+        }), locale);
+        break;
+      }
     }
   }
 } 
\ No newline at end of file
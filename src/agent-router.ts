@@ -0,0 +1,148 @@
+import { RelevanceDecision } from './islamic-agents';
+import { BatchClassifier } from './agent-classifier';
+import { KeywordScorer } from './keyword-scorer';
+
+/** What routing needs of an agent. */
+export interface RoutableAgent {
+  getKeywords(): string[];
+  getTopics(): string[];
+  getResponseThreshold(): number;
+  matchKeywords(message: string): string[];
+  shouldRespond(message: string): Promise<RelevanceDecision>;
+}
+
+export interface RoutingCandidate<A extends RoutableAgent = RoutableAgent> {
+  name: string;
+  agent: A;
+}
+
+export interface RankedAgent<A extends RoutableAgent = RoutableAgent> extends RoutingCandidate<A> {
+  decision: RelevanceDecision;
+  threshold: number;
+}
+
+export interface RoutingResult<A extends RoutableAgent = RoutableAgent> {
+  selected: RankedAgent<A> | null;
+  ranked: RankedAgent<A>[];
+  tied: boolean;
+}
+
+// Scores closer than this are treated as a tie
+const TIE_EPSILON = 0.05;
+
+// How far the local leader must be ahead of the runner-up to skip the LLM
+const PRE_ROUTER_MARGIN = 0.25;
+
+export class AgentRouter<A extends RoutableAgent = RoutableAgent> {
+  private candidates: RoutingCandidate<A>[];
+  private classifier?: BatchClassifier;
+  private scorer: KeywordScorer;
+
+  constructor(candidates: RoutingCandidate<A>[], classifier?: BatchClassifier, scorer: KeywordScorer = new KeywordScorer()) {
+    this.candidates = candidates;
+    this.classifier = classifier;
+    this.scorer = scorer;
+  }
+
+  /** Picks the best agent for a question, optionally among a subset of agent names. */
+  public async route(question: string, enabled?: string[]): Promise<RoutingResult<A>> {
+    const candidates = enabled
+      ? this.candidates.filter(candidate => enabled.includes(candidate.name))
+      : this.candidates;
+    if (candidates.length === 0) {
+      return { selected: null, ranked: [], tied: false };
+    }
+
+    const local = this.toRanked(candidates, this.scorer.score(question, candidates));
+    if (this.isDecisive(local)) {
+      console.log('Keyword pre-router is confident, skipping LLM classification');
+      return this.rank(local);
+    }
+
+    console.log('Keyword scores are ambiguous, asking the LLM');
+    const decisions = await this.score(question, candidates);
+    // Stemmed local matches are more accurate than the LLM path's substring matches
+    for (const entry of local) {
+      const decision = decisions.get(entry.name);
+      if (decision) {
+        decision.matchedKeywords = entry.decision.matchedKeywords;
+      }
+    }
+
+    return this.rank(this.toRanked(candidates, decisions));
+  }
+
+  private toRanked(candidates: RoutingCandidate<A>[], decisions: Map<string, RelevanceDecision>): RankedAgent<A>[] {
+    return candidates.map(candidate => ({
+      ...candidate,
+      decision: decisions.get(candidate.name)!,
+      threshold: candidate.agent.getResponseThreshold()
+    }));
+  }
+
+  private isDecisive(local: RankedAgent<A>[]): boolean {
+    const [first, second] = [...local].sort((a, b) => b.decision.score - a.decision.score);
+    if (!first || first.decision.score < first.threshold) {
+      return false;
+    }
+    return !second || first.decision.score - second.decision.score >= PRE_ROUTER_MARGIN;
+  }
+
+  private async score(question: string, candidates: RoutingCandidate<A>[]): Promise<Map<string, RelevanceDecision>> {
+    if (this.classifier) {
+      try {
+        return await this.classifier.classify(question, candidates);
+      } catch (error) {
+        console.error('Batched classification failed, checking agents individually:', error);
+      }
+    }
+
+    const decisions = new Map<string, RelevanceDecision>();
+    for (const { name, agent } of candidates) {
+      decisions.set(name, await agent.shouldRespond(question));
+    }
+    return decisions;
+  }
+
+  /**
+   * Orders scored agents, drops those below their own threshold and breaks
+   * ties by keyword matches and then registration order.
+   */
+  public rank(scored: RankedAgent<A>[]): RoutingResult<A> {
+    const order = new Map(this.candidates.map((candidate, index) => [candidate.name, index]));
+    const ranked = [...scored].sort((a, b) => {
+      const scoreDiff = b.decision.score - a.decision.score;
+      if (Math.abs(scoreDiff) >= TIE_EPSILON) {
+        return scoreDiff;
+      }
+      const keywordDiff = b.decision.matchedKeywords.length - a.decision.matchedKeywords.length;
+      if (keywordDiff !== 0) {
+        return keywordDiff;
+      }
+      return (order.get(a.name) ?? 0) - (order.get(b.name) ?? 0);
+    });
+
+    const eligible = ranked.filter(entry => entry.decision.score >= entry.threshold);
+    const selected = eligible[0] || null;
+    const tied = !!selected && eligible.length > 1 &&
+      Math.abs(selected.decision.score - eligible[1].decision.score) < TIE_EPSILON;
+
+    this.logResult(ranked, selected, tied);
+    return { selected, ranked, tied };
+  }
+
+  private logResult(ranked: RankedAgent<A>[], selected: RankedAgent<A> | null, tied: boolean) {
+    console.log('=== Routing decision ===');
+    for (const { name, decision, threshold } of ranked) {
+      const marker = decision.score >= threshold ? '✓' : '✗';
+      const keywords = decision.matchedKeywords.length ? ` [${decision.matchedKeywords.join(', ')}]` : '';
+      console.log(`${marker} ${name}: ${decision.score.toFixed(2)} (threshold ${threshold})${keywords} - ${decision.reason}`);
+    }
+
+    if (selected) {
+      console.log(`Selected ${selected.name}${tied ? ' (tie broken by keyword matches/order)' : ''}: ${selected.decision.reason}`);
+    } else {
+      console.log('No agent passed its relevance threshold');
+    }
+  }
+}
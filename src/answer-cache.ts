@@ -0,0 +1,148 @@
+import { tokenize } from './keyword-scorer';
+import { Collections, StorageBackend } from './storage';
+
+export interface CachedAnswer {
+  agentName: string;
+  // Chat preferences the answer was written for; absent for the defaults
+  variant?: string;
+  question: string;
+  answer: string;
+  createdAt: number;
+  expiresAt: number;
+  hits: number;
+}
+
+export interface CacheLookup {
+  answer: string;
+  cached: boolean;
+}
+
+// Words that do not change what is being asked
+const FILLER_WORDS = new Set([
+  'apa', 'ye', 'ya', 'yer', 'la', 'lah', 'eh', 'tolong', 'please', 'pls', 'plz',
+  'nak', 'tanya', 'sikit', 'the', 'a', 'an', 'is', 'what'
+]);
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+/**
+ * Reduces a question to a cache key: lowercase, no punctuation, shorthand and
+ * spelling variants expanded (via the router's tokenizer) and filler words
+ * dropped. Bot mentions must already have been removed by the caller.
+ */
+export function normalizeQuestion(question: string): string {
+  return tokenize(question)
+    .filter(token => !FILLER_WORDS.has(token))
+    .join(' ');
+}
+
+export class AnswerCache {
+  private storage: StorageBackend;
+  private ttlMs: number;
+
+  constructor(storage: StorageBackend, ttlHours: number = DEFAULT_TTL_HOURS) {
+    this.storage = storage;
+    this.ttlMs = ttlHours * 60 * 60 * 1000;
+  }
+
+  /**
+   * Returns a cached answer for the agent/question pair, or generates,
+   * stores and returns a fresh one. Answers written for different chat
+   * preferences are kept apart by `variant`. Hits and misses are counted per
+   * day in the usage collection.
+   */
+  public async getOrGenerate(
+    agentName: string,
+    question: string,
+    generate: () => Promise<string>,
+    isCacheable: (answer: string) => boolean = () => true,
+    variant?: string
+  ): Promise<CacheLookup> {
+    const normalized = normalizeQuestion(question);
+    if (!normalized) {
+      return { answer: await generate(), cached: false };
+    }
+
+    const key = this.cacheKey(agentName, normalized, variant);
+    const entry = await this.storage.get<CachedAnswer>(Collections.answerCache, key);
+
+    if (entry && entry.expiresAt > Date.now()) {
+      entry.hits++;
+      await this.storage.set(Collections.answerCache, key, entry);
+      this.count('hit', agentName);
+      console.log(`♻️ Cache hit for ${agentName}: "${normalized}" (${entry.hits} hits)`);
+      return { answer: entry.answer, cached: true };
+    }
+
+    this.count('miss', agentName);
+    const answer = await generate();
+    if (isCacheable(answer)) {
+      const now = Date.now();
+      await this.storage.set<CachedAnswer>(Collections.answerCache, key, {
+        agentName,
+        variant,
+        question,
+        answer,
+        createdAt: now,
+        expiresAt: now + this.ttlMs,
+        hits: 0
+      });
+    }
+    return { answer, cached: false };
+  }
+
+  /**
+   * Removes cached answers for a question across all agents, or every
+   * cached answer when no question is given. Returns how many were removed.
+   */
+  public async invalidate(question?: string): Promise<number> {
+    const normalized = question ? normalizeQuestion(question) : undefined;
+    let removed = 0;
+
+    for (const [key, entry] of await this.storage.entries<CachedAnswer>(Collections.answerCache)) {
+      if (normalized === undefined || key === this.cacheKey(entry.agentName, normalized, entry.variant)) {
+        await this.storage.delete(Collections.answerCache, key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  public async pruneExpired(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of await this.storage.entries<CachedAnswer>(Collections.answerCache)) {
+      if (entry.expiresAt <= now) {
+        await this.storage.delete(Collections.answerCache, key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  public async stats(): Promise<{ entries: number; hits: number; misses: number }> {
+    const day = this.today();
+    const [entries, hits, misses] = await Promise.all([
+      this.storage.entries(Collections.answerCache),
+      this.storage.get<number>(Collections.usage, `${day}:cache:hit`),
+      this.storage.get<number>(Collections.usage, `${day}:cache:miss`)
+    ]);
+    return { entries: entries.length, hits: hits || 0, misses: misses || 0 };
+  }
+
+  private count(outcome: 'hit' | 'miss', agentName: string) {
+    const day = this.today();
+    Promise.all([
+      this.storage.increment(Collections.usage, `${day}:cache:${outcome}`),
+      this.storage.increment(Collections.usage, `${day}:cache:${outcome}:${agentName}`)
+    ]).catch(error => console.error('Error counting cache usage:', error));
+  }
+
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  private cacheKey(agentName: string, normalized: string, variant?: string): string {
+    return variant ? `${agentName}[${variant}]:${normalized}` : `${agentName}:${normalized}`;
+  }
+}
@@ -0,0 +1,23 @@
+// A run of Arabic-script text, with its diacritics and the spaces between words
+export const ARABIC_PASSAGE = /[\p{Script=Arabic}][\p{Script=Arabic}\p{M}\s]*/gu;
+
+/**
+ * Arabic words reduced to their consonants, so that the Uthmani text of the
+ * Quran, fully voweled hadith text and the plain spelling an answer may use
+ * compare equal.
+ */
+export function arabicWords(text: string): string[] {
+  return text
+    .replace(/[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g, '')
+    .replace(/[ٱأإآاء]/g, '')
+    .replace(/ى|ئ/g, 'ي')
+    .replace(/ؤ/g, 'و')
+    .replace(/ة/g, 'ه')
+    .split(/[^\p{Script=Arabic}]+/u)
+    .filter(word => word.length > 1);
+}
+
+/** Share of the quoted words that also appear in the source text. */
+export function wordOverlap(quoted: string[], source: Set<string>): number {
+  return quoted.length === 0 ? 0 : quoted.filter(word => source.has(word)).length / quoted.length;
+}
@@ -0,0 +1,221 @@
+import { DeepseekMessage } from './llm-provider';
+import { Collections, StorageBackend } from './storage';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  messageIds: number[];
+  timestamp: number;
+}
+
+export interface ConversationThread {
+  id: string;
+  chatId: number;
+  turns: ConversationTurn[];
+  agentName?: string;
+  updatedAt: number;
+}
+
+export interface ConversationStoreOptions {
+  tokenBudget: number;
+  maxTurnsPerThread: number;
+  maxThreads: number;
+  collection: string;
+}
+
+// Rough heuristic; close enough for budgeting without a tokenizer
+const CHARS_PER_TOKEN = 4;
+// A turn trimmed shorter than this says too little to be worth sending
+const MIN_TRIMMED_TOKENS = 50;
+
+const DEFAULT_OPTIONS: ConversationStoreOptions = {
+  tokenBudget: 1500,
+  maxTurnsPerThread: 20,
+  maxThreads: 500,
+  collection: Collections.conversations
+};
+
+/**
+ * Keeps question/answer turns per chat, grouped by reply chain. Every
+ * Telegram message that belongs to a thread (questions and each chunk of an
+ * answer) is indexed, so replying to any of them continues the same thread.
+ */
+export class ConversationStore {
+  private threads: Map<string, ConversationThread> = new Map();
+  private messageIndex: Map<string, string> = new Map();
+  private options: ConversationStoreOptions;
+  private storage?: StorageBackend;
+
+  constructor(options: Partial<ConversationStoreOptions> = {}, storage?: StorageBackend) {
+    this.storage = storage;
+    const overrides = Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined)
+    );
+    this.options = { ...DEFAULT_OPTIONS, ...overrides };
+  }
+
+  /**
+   * Restores persisted threads, most recently updated last so eviction
+   * order survives a restart.
+   */
+  public async load(): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+
+    const stored = await this.storage.entries<ConversationThread>(this.options.collection);
+    stored
+      .map(([, thread]) => thread)
+      .sort((a, b) => a.updatedAt - b.updatedAt)
+      .forEach(thread => {
+        this.threads.set(thread.id, thread);
+        for (const turn of thread.turns) {
+          turn.messageIds.forEach(id => this.messageIndex.set(this.messageKey(thread.chatId, id), thread.id));
+        }
+      });
+    this.evict();
+    console.log(`✓ Restored ${this.threads.size} conversation threads`);
+  }
+
+  public static estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  /** Cuts text down to about `tokens` tokens, marking the cut. */
+  private static trim(text: string, tokens: number): string {
+    return `${text.slice(0, (tokens - 1) * CHARS_PER_TOKEN).trimEnd()}…`;
+  }
+
+  public findThread(chatId: number, messageId?: number): ConversationThread | undefined {
+    if (messageId === undefined) {
+      return undefined;
+    }
+    const threadId = this.messageIndex.get(this.messageKey(chatId, messageId));
+    return threadId ? this.threads.get(threadId) : undefined;
+  }
+
+  /**
+   * Most recently updated thread of a chat, if it was active within
+   * `maxAgeMs`. Used where conversations continue without explicit replies.
+   */
+  public latestThread(chatId: number, maxAgeMs: number): ConversationThread | undefined {
+    let latest: ConversationThread | undefined;
+    for (const thread of this.threads.values()) {
+      if (thread.chatId === chatId && (!latest || thread.updatedAt > latest.updatedAt)) {
+        latest = thread;
+      }
+    }
+    return latest && Date.now() - latest.updatedAt <= maxAgeMs ? latest : undefined;
+  }
+
+  /**
+   * Returns prior turns of the thread containing `replyToMessageId` as chat
+   * messages, newest first until the token budget is spent. The oldest turn
+   * that does not fit is trimmed rather than dropped, and an answer leaves
+   * room for its question, so a long latest answer still comes with the
+   * question it answered.
+   */
+  public getHistory(chatId: number, replyToMessageId?: number): DeepseekMessage[] {
+    const thread = this.findThread(chatId, replyToMessageId);
+    if (!thread) {
+      return [];
+    }
+
+    const budget = this.options.tokenBudget;
+    const history: DeepseekMessage[] = [];
+    let used = 0;
+    for (let i = thread.turns.length - 1; i >= 0 && used < budget; i--) {
+      const { role, content } = thread.turns[i];
+      const question = role === 'assistant' && i > 0 ? thread.turns[i - 1].content : undefined;
+      const reserved = question ? Math.min(ConversationStore.estimateTokens(question), (budget - used) / 2) : 0;
+      const available = Math.floor(budget - used - reserved);
+      const tokens = ConversationStore.estimateTokens(content);
+      if (tokens <= available) {
+        used += tokens;
+        history.unshift({ role, content });
+        continue;
+      }
+      if (available < MIN_TRIMMED_TOKENS) {
+        break;
+      }
+      used += available;
+      history.unshift({ role, content: ConversationStore.trim(content, available) });
+    }
+
+    // A history should open with the user's question, not a dangling answer
+    while (history.length > 0 && history[0].role === 'assistant') {
+      history.shift();
+    }
+    return history;
+  }
+
+  public recordExchange(exchange: {
+    chatId: number;
+    questionMessageId: number;
+    replyToMessageId?: number;
+    question: string;
+    answer: string;
+    answerMessageIds: number[];
+    agentName?: string;
+  }): ConversationThread {
+    const { chatId, questionMessageId, replyToMessageId } = exchange;
+    const now = Date.now();
+
+    let thread = this.findThread(chatId, replyToMessageId);
+    if (!thread) {
+      thread = {
+        id: this.messageKey(chatId, questionMessageId),
+        chatId,
+        turns: [],
+        updatedAt: now
+      };
+    }
+
+    thread.turns.push(
+      { role: 'user', content: exchange.question, messageIds: [questionMessageId], timestamp: now },
+      { role: 'assistant', content: exchange.answer, messageIds: exchange.answerMessageIds, timestamp: now }
+    );
+    thread.agentName = exchange.agentName || thread.agentName;
+    thread.updatedAt = now;
+
+    while (thread.turns.length > this.options.maxTurnsPerThread) {
+      const dropped = thread.turns.shift()!;
+      dropped.messageIds.forEach(id => this.messageIndex.delete(this.messageKey(chatId, id)));
+    }
+
+    for (const id of [questionMessageId, ...exchange.answerMessageIds]) {
+      this.messageIndex.set(this.messageKey(chatId, id), thread.id);
+    }
+
+    // Re-insert so Map iteration order doubles as least-recently-used order
+    this.threads.delete(thread.id);
+    this.threads.set(thread.id, thread);
+    this.evict();
+    this.persist(thread);
+
+    return thread;
+  }
+
+  private evict() {
+    while (this.threads.size > this.options.maxThreads) {
+      const oldest = this.threads.values().next().value as ConversationThread;
+      this.threads.delete(oldest.id);
+      this.storage?.delete(this.options.collection, oldest.id).catch(error => {
+        console.error('Error deleting conversation thread:', error);
+      });
+      for (const turn of oldest.turns) {
+        turn.messageIds.forEach(id => this.messageIndex.delete(this.messageKey(oldest.chatId, id)));
+      }
+    }
+  }
+
+  private persist(thread: ConversationThread) {
+    this.storage?.set(this.options.collection, thread.id, thread).catch(error => {
+      console.error('Error saving conversation thread:', error);
+    });
+  }
+
+  private messageKey(chatId: number, messageId: number): string {
+    return `${chatId}:${messageId}`;
+  }
+}
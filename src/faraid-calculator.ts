@@ -0,0 +1,413 @@
+export type Heir =
+  | 'husband' | 'wife' | 'son' | 'daughter' | 'sonsSon' | 'sonsDaughter' | 'father' | 'mother' | 'grandfather'
+  | 'paternalGrandmother' | 'maternalGrandmother' | 'fullBrother' | 'fullSister' | 'paternalBrother' | 'paternalSister'
+  | 'maternalBrother' | 'maternalSister' | 'fullNephew' | 'paternalNephew' | 'fullUncle' | 'paternalUncle'
+  | 'fullCousin' | 'paternalCousin';
+
+export const HEIRS: Heir[] = [
+  'husband', 'wife', 'son', 'daughter', 'sonsSon', 'sonsDaughter', 'father', 'mother', 'grandfather',
+  'paternalGrandmother', 'maternalGrandmother', 'fullBrother', 'fullSister', 'paternalBrother', 'paternalSister',
+  'maternalBrother', 'maternalSister', 'fullNephew', 'paternalNephew', 'fullUncle', 'paternalUncle',
+  'fullCousin', 'paternalCousin'
+];
+
+/** How many of each heir survive the deceased. */
+export type Heirs = Partial<Record<Heir, number>>;
+
+export interface Fraction {
+  numerator: number;
+  denominator: number;
+}
+
+// fardh: a fixed share; asabah: the residue; fardhAsabah: both (the father with only daughters);
+// fardhRadd: a fixed share plus part of an unclaimed residue
+export type ShareBasis = 'fardh' | 'asabah' | 'fardhAsabah' | 'fardhRadd';
+
+export interface FaraidShare {
+  heir: Heir;
+  count: number;
+  // Of the whole estate, for all heirs of this kind together
+  share: Fraction;
+  basis: ShareBasis;
+}
+
+export interface Exclusion {
+  heir: Heir;
+  count: number;
+  // The nearer heir who excludes them (hajb hirman)
+  by: Heir;
+}
+
+// Cases the general rules do not settle and that textbooks name
+export type SpecialCase = 'umariyyatain' | 'musyarakah' | 'akdariyyah' | 'muqasamah';
+
+export interface FaraidResult {
+  shares: FaraidShare[];
+  excluded: Exclusion[];
+  // Asal masalah: the common denominator of the fixed shares
+  base: number;
+  // What the base is raised to when the fixed shares exceed the estate ('awl)
+  awl?: number;
+  // Whether an unclaimed residue was returned to the sharers other than the spouse
+  radd: boolean;
+  // Residue no heir can take, which goes to Baitulmal
+  baitulmal?: Fraction;
+  specialCase?: SpecialCase;
+}
+
+// Heirs there can only be one of, and the most wives a man can leave
+export const MAX_HEIRS: Partial<Record<Heir, number>> = {
+  husband: 1, wife: 4, father: 1, mother: 1, grandfather: 1, paternalGrandmother: 1, maternalGrandmother: 1
+};
+
+const MALES: Heir[] = [
+  'husband', 'son', 'sonsSon', 'father', 'grandfather', 'fullBrother', 'paternalBrother', 'maternalBrother',
+  'fullNephew', 'paternalNephew', 'fullUncle', 'paternalUncle', 'fullCousin', 'paternalCousin'
+];
+const SIBLINGS: Heir[] = ['fullBrother', 'fullSister', 'paternalBrother', 'paternalSister', 'maternalBrother', 'maternalSister'];
+// Male residuaries beyond the brothers, nearest first
+const COLLATERALS: Heir[] = ['fullNephew', 'paternalNephew', 'fullUncle', 'paternalUncle', 'fullCousin', 'paternalCousin'];
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+const lcm = (a: number, b: number) => (a * b) / gcd(a, b);
+
+function fraction(numerator: number, denominator: number = 1): Fraction {
+  const divisor = gcd(numerator, denominator) || 1;
+  return { numerator: numerator / divisor, denominator: denominator / divisor };
+}
+
+const ZERO = fraction(0);
+const ONE = fraction(1);
+const plus = (a: Fraction, b: Fraction) => fraction(a.numerator * b.denominator + b.numerator * a.denominator, a.denominator * b.denominator);
+const minus = (a: Fraction, b: Fraction) => plus(a, { numerator: -b.numerator, denominator: b.denominator });
+const times = (a: Fraction, b: Fraction) => fraction(a.numerator * b.numerator, a.denominator * b.denominator);
+const dividedBy = (a: Fraction, b: Fraction) => fraction(a.numerator * b.denominator, a.denominator * b.numerator);
+const compare = (a: Fraction, b: Fraction) => a.numerator * b.denominator - b.numerator * a.denominator;
+const sum = (fractions: Fraction[]) => fractions.reduce(plus, ZERO);
+
+export function formatFraction(value: Fraction): string {
+  return `${value.numerator}/${value.denominator}`;
+}
+
+/**
+ * Divides an estate among the surviving heirs by the Shafi'i rules: exclusion
+ * (hajb), the fixed shares of the Quran, the residue to the nearest asabah,
+ * 'awl when the fixed shares exceed the estate and radd when nobody takes
+ * the residue. The grandfather with siblings follows Zayd ibn Thabit, as the
+ * Shafi'i school does. Radd to the sharers other than the spouse follows the
+ * later Shafi'i scholars, with Baitulmal taking what is left when there is
+ * no one to return it to; distant kindred (dhawil arham) are not covered.
+ */
+export function calculateFaraid(heirs: Heirs): FaraidResult {
+  const present = new Set(HEIRS.filter(heir => (heirs[heir] || 0) > 0));
+  const count = (heir: Heir) => (present.has(heir) ? heirs[heir] || 0 : 0);
+  const excluded: Exclusion[] = [];
+  const exclude = (heir: Heir, ...by: Heir[]) => {
+    const excluder = by.find(candidate => present.has(candidate));
+    if (present.has(heir) && excluder) {
+      excluded.push({ heir, count: heirs[heir]!, by: excluder });
+      present.delete(heir);
+    }
+  };
+
+  // Siblings reduce the mother to a sixth even when they are themselves excluded
+  const siblingCount = SIBLINGS.reduce((total, heir) => total + (heirs[heir] || 0), 0);
+
+  exclude('sonsSon', 'son');
+  exclude('sonsDaughter', 'son');
+  if (count('daughter') >= 2 && !present.has('sonsSon')) {
+    exclude('sonsDaughter', 'daughter');
+  }
+  exclude('grandfather', 'father');
+  exclude('paternalGrandmother', 'mother', 'father');
+  exclude('maternalGrandmother', 'mother');
+  const femaleDescendant = present.has('daughter') || present.has('sonsDaughter');
+  for (const heir of ['fullBrother', 'fullSister'] as Heir[]) {
+    exclude(heir, 'son', 'sonsSon', 'father');
+  }
+  // A full sister with daughters takes the residue like a brother (asabah ma'a al-ghair)
+  const fullSisterResiduary = present.has('fullSister') && !present.has('fullBrother') && femaleDescendant;
+  const withGrandfather = present.has('grandfather');
+  for (const heir of ['paternalBrother', 'paternalSister'] as Heir[]) {
+    exclude(heir, 'son', 'sonsSon', 'father', ...(withGrandfather ? [] : ['fullBrother', ...(fullSisterResiduary ? ['fullSister'] : [])] as Heir[]));
+  }
+  if (count('fullSister') >= 2 && !present.has('paternalBrother') && !withGrandfather) {
+    exclude('paternalSister', 'fullSister');
+  }
+  const paternalSisterResiduary = present.has('paternalSister') && !present.has('paternalBrother') && femaleDescendant;
+  for (const heir of ['maternalBrother', 'maternalSister'] as Heir[]) {
+    exclude(heir, 'son', 'sonsSon', 'daughter', 'sonsDaughter', 'father', 'grandfather');
+  }
+  COLLATERALS.forEach((heir, index) => {
+    exclude(
+      heir, 'son', 'sonsSon', 'father', 'grandfather', 'fullBrother', ...(fullSisterResiduary ? ['fullSister'] as Heir[] : []),
+      'paternalBrother', ...(paternalSisterResiduary ? ['paternalSister'] as Heir[] : []), ...COLLATERALS.slice(0, index)
+    );
+  });
+
+  const descendant = femaleDescendant || present.has('son') || present.has('sonsSon');
+  const maleDescendant = present.has('son') || present.has('sonsSon');
+  const spouse: Heir | undefined = present.has('husband') ? 'husband' : present.has('wife') ? 'wife' : undefined;
+  const shares = new Map<Heir, { share: Fraction; basis: ShareBasis }>();
+  const setShare = (heir: Heir, share: Fraction, basis: ShareBasis = 'fardh') => shares.set(heir, { share, basis });
+  let fixedBase = 1;
+  const result = (extra: Partial<FaraidResult> = {}): FaraidResult => ({
+    shares: HEIRS.filter(heir => present.has(heir)).map(heir => ({
+      heir, count: count(heir), share: shares.get(heir)?.share || ZERO, basis: shares.get(heir)?.basis || 'asabah'
+    })),
+    excluded,
+    base: fixedBase,
+    radd: false,
+    ...extra
+  });
+
+  // Akdariyyah: the husband, mother, grandfather and one sister. The sister's half and the
+  // grandfather's sixth are pooled and split two to one, after 'awl from 6 to 9
+  const sister = present.has('fullSister') ? 'fullSister' : 'paternalSister';
+  if (present.size === 4 && ['husband', 'mother', 'grandfather', sister].every(heir => present.has(heir as Heir)) && count(sister) === 1) {
+    setShare('husband', fraction(9, 27));
+    setShare('mother', fraction(6, 27));
+    setShare('grandfather', fraction(8, 27));
+    setShare(sister, fraction(4, 27));
+    fixedBase = 6;
+    return result({ awl: 9, specialCase: 'akdariyyah' });
+  }
+
+  // Fixed shares
+  if (spouse === 'husband') {
+    setShare('husband', fraction(1, descendant ? 4 : 2));
+  } else if (spouse === 'wife') {
+    setShare('wife', fraction(1, descendant ? 8 : 4));
+  }
+  if (present.has('daughter') && !present.has('son')) {
+    setShare('daughter', count('daughter') === 1 ? fraction(1, 2) : fraction(2, 3));
+  }
+  if (present.has('sonsDaughter') && !present.has('sonsSon')) {
+    // With one daughter, the son's daughters complete the two thirds (takmilah)
+    setShare('sonsDaughter', present.has('daughter') ? fraction(1, 6) : count('sonsDaughter') === 1 ? fraction(1, 2) : fraction(2, 3));
+  }
+  let specialCase: SpecialCase | undefined;
+  if (present.has('mother')) {
+    if (descendant || siblingCount >= 2) {
+      setShare('mother', fraction(1, 6));
+    } else if (present.has('father') && spouse) {
+      // Umariyyatain: a third of what the spouse leaves, so the father still gets twice the mother
+      setShare('mother', times(minus(ONE, shares.get(spouse)!.share), fraction(1, 3)));
+      specialCase = 'umariyyatain';
+    } else {
+      setShare('mother', fraction(1, 3));
+    }
+  }
+  const ancestor: Heir | undefined = present.has('father') ? 'father' : present.has('grandfather') ? 'grandfather' : undefined;
+  const grandfatherWithSiblings = ancestor === 'grandfather' &&
+    ['fullBrother', 'fullSister', 'paternalBrother', 'paternalSister'].some(heir => present.has(heir as Heir));
+  if (ancestor && descendant && !grandfatherWithSiblings) {
+    setShare(ancestor, fraction(1, 6), maleDescendant ? 'fardh' : 'fardhAsabah');
+  }
+  const grandmothers = (['paternalGrandmother', 'maternalGrandmother'] as Heir[]).filter(heir => present.has(heir));
+  for (const heir of grandmothers) {
+    setShare(heir, fraction(1, 6 * grandmothers.length));
+  }
+  const uterine = count('maternalBrother') + count('maternalSister');
+  for (const heir of ['maternalBrother', 'maternalSister'] as Heir[]) {
+    if (present.has(heir)) {
+      // Uterine siblings share by heads, men and women alike
+      setShare(heir, times(fraction(1, uterine === 1 ? 6 : 3), fraction(count(heir), uterine)));
+    }
+  }
+  if (!grandfatherWithSiblings) {
+    if (present.has('fullSister') && !present.has('fullBrother') && !femaleDescendant) {
+      setShare('fullSister', count('fullSister') === 1 ? fraction(1, 2) : fraction(2, 3));
+    }
+    if (present.has('paternalSister') && !present.has('paternalBrother') && !femaleDescendant) {
+      setShare('paternalSister', present.has('fullSister') ? fraction(1, 6) : count('paternalSister') === 1 ? fraction(1, 2) : fraction(2, 3));
+    }
+  }
+  fixedBase = [...shares.values()].reduce((base, { share }) => lcm(base, share.denominator), 1);
+
+  // Splits a share among heirs of both sexes, a man taking twice a woman's part
+  const divide = (share: Fraction, group: Heir[], basis: ShareBasis = 'asabah') => {
+    const members = group.filter(heir => present.has(heir));
+    const units = members.reduce((total, heir) => total + count(heir) * (MALES.includes(heir) ? 2 : 1), 0);
+    for (const heir of members) {
+      setShare(heir, times(share, fraction(count(heir) * (MALES.includes(heir) ? 2 : 1), units)), basis);
+    }
+  };
+
+  if (grandfatherWithSiblings) {
+    // Zayd's rule: the grandfather takes the best of sharing with the siblings as a brother
+    // (muqasamah), a third of what the sharers leave, or a sixth of the estate
+    const others = sum([...shares.values()].map(({ share }) => share));
+    const remainder = minus(ONE, others);
+    const brothers = count('fullBrother') + count('paternalBrother');
+    const sisters = count('fullSister') + count('paternalSister');
+    // Paternal siblings are counted against the grandfather even though full siblings then take their part (mu'addah)
+    const muqasamah = times(remainder, fraction(2, 2 + 2 * brothers + sisters));
+    const alternatives = shares.size > 0 ? [times(remainder, fraction(1, 3)), fraction(1, 6)] : [fraction(1, 3)];
+    const best = alternatives.reduce((max, option) => (compare(option, max) > 0 ? option : max), muqasamah);
+    const sharing = best === muqasamah;
+    setShare('grandfather', best, sharing ? 'asabah' : 'fardh');
+    if (sharing) {
+      specialCase = 'muqasamah';
+    } else {
+      fixedBase = lcm(fixedBase, best.denominator);
+    }
+
+    const left = minus(remainder, best);
+    if (compare(left, ZERO) > 0) {
+      if (present.has('fullBrother') || !present.has('fullSister')) {
+        const kind: Heir[] = present.has('fullBrother') || present.has('fullSister')
+          ? ['fullBrother', 'fullSister']
+          : ['paternalBrother', 'paternalSister'];
+        divide(left, kind);
+      } else {
+        // Full sisters take up to their fixed share and the paternal siblings any rest
+        const cap = count('fullSister') === 1 ? fraction(1, 2) : fraction(2, 3);
+        const fullSisters = compare(left, cap) < 0 ? left : cap;
+        setShare('fullSister', fullSisters, 'asabah');
+        const rest = minus(left, fullSisters);
+        if (compare(rest, ZERO) > 0) {
+          divide(rest, ['paternalBrother', 'paternalSister']);
+        } else {
+          // Counted against the grandfather, but left with nothing once the full sisters are paid
+          for (const heir of ['paternalBrother', 'paternalSister'] as Heir[]) {
+            exclude(heir, 'fullSister');
+          }
+        }
+      }
+    }
+    for (const heir of ['paternalBrother', 'paternalSister'] as Heir[]) {
+      if (present.has(heir) && present.has('fullBrother')) {
+        excluded.push({ heir, count: count(heir), by: 'fullBrother' });
+        present.delete(heir);
+      }
+    }
+  }
+
+  const fixedTotal = sum([...shares.values()].filter(({ basis }) => basis !== 'asabah').map(({ share }) => share));
+  if (grandfatherWithSiblings) {
+    const total = sum([...shares.values()].map(({ share }) => share));
+    if (compare(total, ONE) > 0) {
+      return applyAwl(shares, total, fixedBase, result, specialCase);
+    }
+    return result({ specialCase });
+  }
+
+  // The residue goes to the nearest class of asabah present
+  const residuaries: Heir[][] = [
+    ['son', 'daughter'], ['sonsSon', 'sonsDaughter'], ['father'], ['grandfather'], ['fullBrother', 'fullSister'],
+    ...(fullSisterResiduary ? [['fullSister'] as Heir[]] : []),
+    ['paternalBrother', 'paternalSister'],
+    ...(paternalSisterResiduary ? [['paternalSister'] as Heir[]] : []),
+    ...COLLATERALS.map(heir => [heir])
+  ];
+  const asabah = residuaries.find(group =>
+    group.some(heir => present.has(heir) && (MALES.includes(heir) || group.length === 1)));
+  const residue = minus(ONE, fixedTotal);
+
+  if (compare(residue, ZERO) < 0) {
+    return applyAwl(shares, fixedTotal, fixedBase, result, specialCase);
+  }
+  if (asabah) {
+    // Musyarakah: full brothers left with nothing join the uterine siblings in their third
+    if (compare(residue, ZERO) === 0 && asabah[0] === 'fullBrother' && uterine >= 2) {
+      const heads = uterine + count('fullBrother') + count('fullSister');
+      for (const heir of ['maternalBrother', 'maternalSister', 'fullBrother', 'fullSister'] as Heir[]) {
+        if (present.has(heir)) {
+          setShare(heir, times(fraction(1, 3), fraction(count(heir), heads)));
+        }
+      }
+      return result({ specialCase: 'musyarakah' });
+    }
+    if (asabah[0] === 'father' || asabah[0] === 'grandfather') {
+      const fixed = shares.get(asabah[0])?.share || ZERO;
+      setShare(asabah[0], plus(fixed, residue), descendant ? 'fardhAsabah' : 'asabah');
+    } else {
+      divide(residue, asabah);
+    }
+    return result({ specialCase });
+  }
+  if (compare(residue, ZERO) === 0) {
+    return result({ specialCase });
+  }
+
+  // Radd: the residue returns to the sharers other than the spouse, in proportion to their shares
+  const returning = [...shares.entries()].filter(([heir]) => heir !== spouse);
+  if (returning.length === 0) {
+    return result({ specialCase, baitulmal: residue });
+  }
+  const returningTotal = sum(returning.map(([, { share }]) => share));
+  for (const [heir, { share }] of returning) {
+    setShare(heir, plus(share, times(residue, dividedBy(share, returningTotal))), 'fardhRadd');
+  }
+  return result({ specialCase, radd: true });
+}
+
+/** Scales every share down so they add up to the estate, raising the base ('awl). */
+function applyAwl(
+  shares: Map<Heir, { share: Fraction; basis: ShareBasis }>,
+  total: Fraction,
+  base: number,
+  result: (extra?: Partial<FaraidResult>) => FaraidResult,
+  specialCase?: SpecialCase
+): FaraidResult {
+  for (const [heir, entry] of shares) {
+    shares.set(heir, { ...entry, share: dividedBy(entry.share, total) });
+  }
+  return result({ awl: (total.numerator * base) / total.denominator, specialCase });
+}
+
+// Names heirs go by in Malay and English, matched after lowercasing
+export const HEIR_NAMES: Record<Heir, string[]> = {
+  husband: ['suami', 'husband'],
+  wife: ['isteri', 'wife', 'wives'],
+  son: ['anak lelaki', 'son', 'sons'],
+  daughter: ['anak perempuan', 'daughter', 'daughters'],
+  sonsSon: ['cucu lelaki', 'anak lelaki kepada anak lelaki', "son's son", "son's sons", 'grandson', 'grandsons'],
+  sonsDaughter: ['cucu perempuan', 'anak perempuan kepada anak lelaki', "son's daughter", "son's daughters", 'granddaughter', 'granddaughters'],
+  father: ['bapa', 'ayah', 'father'],
+  mother: ['ibu', 'emak', 'mak', 'mother'],
+  grandfather: ['datuk', 'datuk sebelah bapa', 'bapa kepada bapa', 'grandfather', 'paternal grandfather'],
+  paternalGrandmother: ['nenek sebelah bapa', 'ibu kepada bapa', 'paternal grandmother'],
+  maternalGrandmother: ['nenek sebelah ibu', 'ibu kepada ibu', 'maternal grandmother'],
+  fullBrother: ['saudara lelaki seibu sebapa', 'saudara lelaki kandung', 'adik beradik lelaki', 'full brother', 'full brothers', 'brother', 'brothers'],
+  fullSister: ['saudara perempuan seibu sebapa', 'saudara perempuan kandung', 'adik beradik perempuan', 'full sister', 'full sisters', 'sister', 'sisters'],
+  paternalBrother: ['saudara lelaki sebapa', 'paternal half brother', 'paternal half brothers', 'consanguine brother', 'consanguine brothers'],
+  paternalSister: ['saudara perempuan sebapa', 'paternal half sister', 'paternal half sisters', 'consanguine sister', 'consanguine sisters'],
+  maternalBrother: ['saudara lelaki seibu', 'maternal half brother', 'maternal half brothers', 'uterine brother', 'uterine brothers'],
+  maternalSister: ['saudara perempuan seibu', 'maternal half sister', 'maternal half sisters', 'uterine sister', 'uterine sisters'],
+  fullNephew: ['anak saudara lelaki seibu sebapa', 'anak lelaki saudara lelaki seibu sebapa', 'anak saudara lelaki', "full brother's son", "brother's son", 'nephew', 'nephews'],
+  paternalNephew: ['anak saudara lelaki sebapa', 'anak lelaki saudara lelaki sebapa', "paternal half brother's son"],
+  fullUncle: ['bapa saudara seibu sebapa', 'bapa saudara', 'pak cik', 'full paternal uncle', 'paternal uncle', 'uncle', 'uncles'],
+  paternalUncle: ['bapa saudara sebapa', 'paternal half uncle', 'consanguine uncle'],
+  fullCousin: ['sepupu lelaki seibu sebapa', 'sepupu lelaki', 'anak lelaki bapa saudara', 'cousin', 'cousins', 'full cousin'],
+  paternalCousin: ['sepupu lelaki sebapa', 'anak lelaki bapa saudara sebapa', 'consanguine cousin']
+};
+
+const normalise = (text: string) => text.toLowerCase().replace(/[’`]/g, "'").replace(/-/g, ' ').replace(/\s+/g, ' ').trim();
+
+export function findHeir(name: string): Heir | undefined {
+  const wanted = normalise(name);
+  return HEIRS.find(heir => HEIR_NAMES[heir].includes(wanted));
+}
+
+/**
+ * Reads a list such as "isteri, 2 anak lelaki, anak perempuan x3 dan ibu"
+ * into heir counts, with the parts it could not place.
+ */
+export function parseHeirs(text: string): { heirs: Heirs; unknown: string[] } {
+  const heirs: Heirs = {};
+  const unknown: string[] = [];
+  for (const part of text.split(/[,;\n]|\s+(?:dan|and|&)\s+/i).map(part => part.trim()).filter(part => part.length > 0)) {
+    const leading = part.match(/^(\d+)\s*(?:x|×|orang)?\s+(.+)$/i);
+    const trailing = part.match(/^(.+?)\s*(?:x|×)?\s*(\d+)(?:\s*orang)?$/i);
+    const [name, count] = leading ? [leading[2], Number(leading[1])] : trailing ? [trailing[1], Number(trailing[2])] : [part, 1];
+    const heir = findHeir(name);
+    if (heir && count > 0) {
+      heirs[heir] = (heirs[heir] || 0) + count;
+    } else {
+      unknown.push(part);
+    }
+  }
+  return { heirs, unknown };
+}
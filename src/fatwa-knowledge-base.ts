@@ -0,0 +1,387 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import pdfParse from 'pdf-parse';
+import { stem, STOPWORDS, tokenize } from './keyword-scorer';
+import { findState } from './malaysian-states';
+import { Locale, t } from './messages';
+
+export interface FatwaMetadata {
+  title?: string;
+  // Malaysian state id; absent for national decisions
+  state?: string;
+  authority?: string;
+  // ISO date of the decision, e.g. 2019-05-14
+  date?: string;
+  // Where the document was published, e.g. a URL
+  source?: string;
+}
+
+export interface FatwaDocument extends FatwaMetadata {
+  // File name in the knowledge base directory
+  id: string;
+  title: string;
+  addedBy?: number;
+  addedAt?: number;
+}
+
+export interface RetrievedPassage {
+  document: FatwaDocument;
+  text: string;
+  score: number;
+}
+
+interface Passage {
+  documentId: string;
+  text: string;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+export const SUPPORTED_EXTENSIONS = ['.txt', '.md', '.pdf'];
+
+const METADATA_SUFFIX = '.meta.json';
+const METADATA_KEYS: Record<string, keyof FatwaMetadata> = {
+  title: 'title', tajuk: 'title',
+  state: 'state', negeri: 'state',
+  authority: 'authority', pihak: 'authority', badan: 'authority',
+  date: 'date', tarikh: 'date',
+  source: 'source', sumber: 'source'
+};
+const NATIONAL = ['kebangsaan', 'national', 'malaysia'];
+
+// Passage size in words; neighbouring passages share some words so a ruling is not cut in half
+const PASSAGE_WORDS = 150;
+const PASSAGE_OVERLAP = 30;
+// At most this many passages from one document, so one long document cannot crowd out the rest
+const MAX_PASSAGES_PER_DOCUMENT = 2;
+// Passages from other states retrieved alongside the home state's, so answers can say where states differ
+const OTHER_STATE_PASSAGES = 2;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Reads "key: value" or "key=value" pairs separated by newlines or
+ * semicolons, as written in Markdown front matter or a document caption.
+ * Keys may be English or Malay ("negeri", "tarikh", ...); unknown keys are
+ * ignored and the state is normalized to its id.
+ */
+export function parseMetadata(text: string): FatwaMetadata {
+  const metadata: FatwaMetadata = {};
+  for (const pair of text.split(/[\n;]/)) {
+    const match = pair.match(/^\s*(\w+)\s*[:=]\s*(.+?)\s*$/);
+    const key = match ? METADATA_KEYS[match[1].toLowerCase()] : undefined;
+    if (match && key) {
+      metadata[key] = match[2];
+    }
+  }
+  if (metadata.state) {
+    metadata.state = NATIONAL.includes(metadata.state.toLowerCase()) ? undefined : findState(metadata.state)?.id;
+  }
+  return metadata;
+}
+
+/** Splits Markdown front matter (between "---" lines) from the body. */
+function splitFrontMatter(text: string): { metadata: FatwaMetadata; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  return match
+    ? { metadata: parseMetadata(match[1]), body: text.slice(match[0].length) }
+    : { metadata: {}, body: text };
+}
+
+async function extractText(fileName: string, data: Buffer): Promise<{ metadata: FatwaMetadata; body: string }> {
+  if (path.extname(fileName).toLowerCase() === '.pdf') {
+    const pdf = await pdfParse(data);
+    return { metadata: { title: pdf.info?.Title || undefined }, body: pdf.text };
+  }
+  return splitFrontMatter(data.toString('utf8'));
+}
+
+function splitPassages(body: string): string[] {
+  const words = body.replace(/\s+/g, ' ').trim().split(' ').filter(word => word.length > 0);
+  const passages: string[] = [];
+  for (let start = 0; start < words.length; start += PASSAGE_WORDS - PASSAGE_OVERLAP) {
+    passages.push(words.slice(start, start + PASSAGE_WORDS).join(' '));
+    if (start + PASSAGE_WORDS >= words.length) {
+      break;
+    }
+  }
+  return passages;
+}
+
+/** BM25 terms: stemmed, so "berpuasa", "dipuasakan" and "puasa" match, and without stopwords. */
+function indexTerms(text: string): string[] {
+  return tokenize(text).filter(token => !STOPWORDS.has(token)).map(stem);
+}
+
+/** Retrieved documents in order of their best passage; their position + 1 is the number answers cite. */
+function documentsOf(passages: RetrievedPassage[]): FatwaDocument[] {
+  return Array.from(new Set(passages.map(passage => passage.document)));
+}
+
+/** "Authority, State, date" for a document; the prompt is always in English so it needs no locale. */
+export function describeDocument(document: FatwaDocument, locale?: Locale): string {
+  const state = findState(document.state)?.name || (locale ? t(locale, 'kb.national') : 'National');
+  return [document.authority, state, document.date].filter(part => part).join(', ');
+}
+
+/** Prompt section giving the model the retrieved passages to base its answer on. */
+export function passagesPrompt(passages: RetrievedPassage[]): string {
+  const documents = documentsOf(passages);
+  const excerpts = passages.map(passage => {
+    const number = documents.indexOf(passage.document) + 1;
+    return `[${number}] ${passage.document.title} (${describeDocument(passage.document)})\n${passage.text}`;
+  });
+  return `Excerpts from the fatwa knowledge base that may be relevant to this question:
+
+${excerpts.join('\n\n')}
+
+Where an excerpt answers the question, base the answer on it, name the authority and cite it inline by its number, e.g. [1]. Ignore excerpts that are not relevant, and do not invent fatwa decisions that are not in the excerpts or well established.`;
+}
+
+/**
+ * Appends the knowledge base documents an answer drew on: the ones it cites
+ * by number, or every retrieved document when it cites none.
+ */
+export function citeSources(answer: string, passages: RetrievedPassage[], locale: Locale): string {
+  const documents = documentsOf(passages);
+  if (documents.length === 0) {
+    return answer;
+  }
+
+  const cited = new Set(Array.from(answer.matchAll(/\[(\d+)\]/g), match => Number(match[1])));
+  const numbered = documents.map((document, index) => ({ document, number: index + 1 }));
+  const listed = numbered.filter(({ number }) => cited.has(number));
+  const lines = [`### ${t(locale, listed.length > 0 ? 'kb.sources' : 'kb.related')}`];
+  for (const { document, number } of listed.length > 0 ? listed : numbered) {
+    const source = document.source ? `\n🔗 ${document.source}` : '';
+    lines.push(`[${number}] **${document.title}** — ${describeDocument(document, locale)}${source}`);
+  }
+  return `${answer}\n\n${lines.join('\n')}`;
+}
+
+/**
+ * Fatwa documents (text, Markdown or PDF) kept in FATWA_KB_DIR and searched
+ * with BM25. Metadata comes from Markdown front matter, the PDF's title, or
+ * a "<file>.meta.json" sidecar that the admin commands write. The directory
+ * is the source of truth; the index is rebuilt from it on load() and kept up
+ * to date as documents are added and removed.
+ */
+export class FatwaKnowledgeBase {
+  private directory: string;
+  private documents: Map<string, FatwaDocument> = new Map();
+  private passages: Passage[] = [];
+  private documentFrequencies: Map<string, number> = new Map();
+  private averageLength = 0;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  public static fromEnv(env: NodeJS.ProcessEnv): FatwaKnowledgeBase {
+    return new FatwaKnowledgeBase(env.FATWA_KB_DIR || './data/fatwa');
+  }
+
+  public get size(): number {
+    return this.documents.size;
+  }
+
+  public async load(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`❌ Could not read fatwa knowledge base ${this.directory}:`, error);
+      }
+      console.log('✓ Fatwa knowledge base is empty');
+      return;
+    }
+
+    for (const file of files.filter(name => SUPPORTED_EXTENSIONS.includes(path.extname(name).toLowerCase()))) {
+      try {
+        await this.index(file, await fs.readFile(path.join(this.directory, file)));
+      } catch (error) {
+        console.error(`❌ Could not index fatwa document ${file}:`, error);
+      }
+    }
+    this.rebuildStatistics();
+    console.log(`✓ Indexed ${this.documents.size} fatwa document(s) in ${this.passages.length} passage(s)`);
+  }
+
+  public list(): FatwaDocument[] {
+    return Array.from(this.documents.values()).sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  public get(id: string): FatwaDocument | undefined {
+    return this.documents.get(id);
+  }
+
+  /**
+   * Stores a new document under a file name derived from `fileName` and
+   * indexes it. Metadata given here overrides what the file itself says.
+   */
+  public async add(fileName: string, data: Buffer, metadata: FatwaMetadata, addedBy?: number): Promise<FatwaDocument> {
+    const extension = path.extname(fileName).toLowerCase();
+    if (!SUPPORTED_EXTENSIONS.includes(extension)) {
+      throw new Error(`Unsupported document type: ${extension || fileName}`);
+    }
+
+    const base = path.basename(fileName, path.extname(fileName)).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'fatwa';
+    let id = `${base}${extension}`;
+    for (let suffix = 2; this.documents.has(id); suffix++) {
+      id = `${base}-${suffix}${extension}`;
+    }
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, id), data);
+    const sidecar = { ...metadata, addedBy, addedAt: Date.now() };
+    await fs.writeFile(path.join(this.directory, `${id}${METADATA_SUFFIX}`), JSON.stringify(sidecar, null, 2));
+
+    try {
+      const document = await this.index(id, data);
+      this.rebuildStatistics();
+      return document;
+    } catch (error) {
+      // Do not leave a file behind that fails to load on every start
+      await this.deleteFiles(id);
+      throw error;
+    }
+  }
+
+  /** Removes an indexed document. Anything else is refused, so an id cannot reach files outside the directory. */
+  public async remove(id: string): Promise<boolean> {
+    if (!this.documents.has(id) || path.basename(id) !== id) {
+      return false;
+    }
+    this.documents.delete(id);
+    this.passages = this.passages.filter(passage => passage.documentId !== id);
+    this.rebuildStatistics();
+    await this.deleteFiles(id);
+    return true;
+  }
+
+  private async deleteFiles(id: string): Promise<void> {
+    for (const file of [id, `${id}${METADATA_SUFFIX}`]) {
+      try {
+        await fs.unlink(path.join(this.directory, file));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * The best matching passages for a question, best first. With a home
+   * state, passages from that state and national decisions fill the limit,
+   * followed by the best few from other states.
+   */
+  public search(query: string, options: { limit?: number; state?: string } = {}): RetrievedPassage[] {
+    const { limit = 4, state } = options;
+    const terms = Array.from(new Set(indexTerms(query)));
+    if (terms.length === 0 || this.passages.length === 0) {
+      return [];
+    }
+
+    const scored = this.passages
+      .map(passage => ({ document: this.documents.get(passage.documentId)!, text: passage.text, score: this.score(passage, terms) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score);
+    if (!state) {
+      return this.topPassages(scored, limit);
+    }
+
+    const applies = (document: FatwaDocument) => !document.state || document.state === state;
+    return [
+      ...this.topPassages(scored.filter(({ document }) => applies(document)), limit),
+      ...this.topPassages(scored.filter(({ document }) => !applies(document)), OTHER_STATE_PASSAGES)
+    ];
+  }
+
+  private topPassages(scored: RetrievedPassage[], limit: number): RetrievedPassage[] {
+    const results: RetrievedPassage[] = [];
+    const perDocument = new Map<string, number>();
+    for (const passage of scored) {
+      const count = perDocument.get(passage.document.id) || 0;
+      if (count >= MAX_PASSAGES_PER_DOCUMENT) {
+        continue;
+      }
+      perDocument.set(passage.document.id, count + 1);
+      results.push(passage);
+      if (results.length >= limit) {
+        break;
+      }
+    }
+    return results;
+  }
+
+  private async index(id: string, data: Buffer): Promise<FatwaDocument> {
+    const { metadata, body } = await extractText(id, data);
+    const sidecar = await this.readSidecar(id);
+    const headingTitle = body.match(/^#\s+(.+)$/m)?.[1];
+    const document: FatwaDocument = {
+      ...metadata,
+      ...sidecar,
+      id,
+      title: sidecar.title || metadata.title || headingTitle || id
+    };
+
+    const passages = splitPassages(body);
+    if (passages.length === 0) {
+      throw new Error(`No text found in ${id}`);
+    }
+
+    this.documents.set(id, document);
+    this.passages = this.passages.filter(passage => passage.documentId !== id);
+    for (const text of passages) {
+      const tokens = indexTerms(text);
+      const termFrequencies = new Map<string, number>();
+      for (const token of tokens) {
+        termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+      }
+      this.passages.push({ documentId: id, text, termFrequencies, length: tokens.length });
+    }
+    return document;
+  }
+
+  private async readSidecar(id: string): Promise<Partial<FatwaDocument>> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, `${id}${METADATA_SUFFIX}`), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`⚠️ Ignoring unreadable metadata for ${id}:`, error instanceof Error ? error.message : error);
+      }
+      return {};
+    }
+  }
+
+  private rebuildStatistics() {
+    this.documentFrequencies = new Map();
+    let totalLength = 0;
+    for (const passage of this.passages) {
+      totalLength += passage.length;
+      for (const term of passage.termFrequencies.keys()) {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      }
+    }
+    this.averageLength = this.passages.length > 0 ? totalLength / this.passages.length : 0;
+  }
+
+  private score(passage: Passage, terms: string[]): number {
+    const count = this.passages.length;
+    let score = 0;
+    for (const term of terms) {
+      const frequency = passage.termFrequencies.get(term);
+      if (!frequency) {
+        continue;
+      }
+      const documentFrequency = this.documentFrequencies.get(term) || 0;
+      const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * passage.length / this.averageLength));
+    }
+    return score;
+  }
+}
@@ -0,0 +1,87 @@
+import { randomBytes } from 'crypto';
+import { InlineKeyboard } from 'grammy';
+import { Collections, StorageBackend } from './storage';
+import { DEFAULT_LOCALE, Locale, MessageKey, t } from './messages';
+
+export type FollowUpAction = 'mazhab' | 'summary' | 'detail' | 'opinion' | 'translate';
+
+export interface FollowUpRecord {
+  chatId: number;
+  question: string;
+  answer: string;
+  agentName: string;
+  createdAt: number;
+}
+
+const CALLBACK_PREFIX = 'fu';
+const RECORD_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const BUTTONS: { action: FollowUpAction; label: MessageKey }[] = [
+  { action: 'mazhab', label: 'followUp.mazhab' },
+  { action: 'summary', label: 'followUp.summary' },
+  { action: 'detail', label: 'followUp.detail' },
+  { action: 'opinion', label: 'followUp.opinion' },
+  { action: 'translate', label: 'followUp.translate' }
+];
+
+/**
+ * Persists the question behind each answer so its inline buttons keep
+ * working after a restart. Callback data only carries the action and a short
+ * record id, which keeps it well under Telegram's 64 byte limit.
+ */
+export class FollowUpStore {
+  private storage: StorageBackend;
+
+  constructor(storage: StorageBackend) {
+    this.storage = storage;
+  }
+
+  public static parse(data: string): { action: FollowUpAction; id: string } | null {
+    const [prefix, action, id] = data.split(':');
+    if (prefix !== CALLBACK_PREFIX || !id || !BUTTONS.some(button => button.action === action)) {
+      return null;
+    }
+    return { action: action as FollowUpAction, id };
+  }
+
+  /** Stores the question/answer pair and returns the keyboard to attach to the answer. */
+  public async createKeyboard(
+    record: Omit<FollowUpRecord, 'createdAt'>,
+    locale: Locale = DEFAULT_LOCALE
+  ): Promise<InlineKeyboard> {
+    const id = randomBytes(6).toString('base64url');
+    await this.storage.set<FollowUpRecord>(Collections.followUps, id, {
+      ...record,
+      createdAt: Date.now()
+    });
+
+    const keyboard = new InlineKeyboard();
+    BUTTONS.forEach(({ action, label }, index) => {
+      keyboard.text(t(locale, label), `${CALLBACK_PREFIX}:${action}:${id}`);
+      if (index % 2 === 1) {
+        keyboard.row();
+      }
+    });
+    return keyboard;
+  }
+
+  public async get(id: string): Promise<FollowUpRecord | undefined> {
+    const record = await this.storage.get<FollowUpRecord>(Collections.followUps, id);
+    if (record && record.createdAt + RECORD_TTL_MS < Date.now()) {
+      return undefined;
+    }
+    return record;
+  }
+
+  public async pruneExpired(): Promise<number> {
+    const cutoff = Date.now() - RECORD_TTL_MS;
+    let removed = 0;
+    for (const [id, record] of await this.storage.entries<FollowUpRecord>(Collections.followUps)) {
+      if (record.createdAt < cutoff) {
+        await this.storage.delete(Collections.followUps, id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
@@ -0,0 +1,122 @@
+import { Collections, StorageBackend } from './storage';
+
+export type GroupStatus = 'allowed' | 'pending' | 'revoked';
+
+export interface GroupRecord {
+  chatId: number;
+  title?: string;
+  status: GroupStatus;
+  updatedBy?: number;
+  updatedAt: number;
+  // When the group was told it is not approved, so it is only told once
+  explainedAt?: number;
+}
+
+/**
+ * Groups the bot answers in. GROUP_IDS seeds the list on first start; after
+ * that the bot owner manages it at runtime and changes are persisted.
+ * Lookups are synchronous against an in-memory copy.
+ */
+export class GroupAllowlist {
+  private storage: StorageBackend;
+  private seedIds: string[];
+  private records: Map<number, GroupRecord> = new Map();
+
+  constructor(storage: StorageBackend, seedIds: string[] = []) {
+    this.storage = storage;
+    this.seedIds = seedIds.map(id => id.trim()).filter(id => id.length > 0);
+  }
+
+  public async load(): Promise<void> {
+    for (const [, record] of await this.storage.entries<GroupRecord>(Collections.groups)) {
+      this.records.set(record.chatId, record);
+    }
+
+    // Seeded groups are only added once, so a later /revokegroup sticks
+    for (const id of this.seedIds) {
+      const chatId = Number(id);
+      if (Number.isFinite(chatId) && !this.records.has(chatId)) {
+        await this.save({ chatId, status: 'allowed', updatedAt: Date.now() });
+      }
+    }
+
+    console.log(`✓ Loaded group allowlist: ${this.list('allowed').length} allowed group(s)`);
+  }
+
+  public isAllowed(chatId: number): boolean {
+    return this.records.get(chatId)?.status === 'allowed';
+  }
+
+  public get(chatId: number): GroupRecord | undefined {
+    return this.records.get(chatId);
+  }
+
+  public list(status?: GroupStatus): GroupRecord[] {
+    return [...this.records.values()].filter(record => !status || record.status === status);
+  }
+
+  public async allow(chatId: number, updatedBy?: number, title?: string): Promise<GroupRecord> {
+    return this.setStatus(chatId, 'allowed', updatedBy, title);
+  }
+
+  public async revoke(chatId: number, updatedBy?: number): Promise<GroupRecord | undefined> {
+    if (!this.records.has(chatId)) {
+      return undefined;
+    }
+    return this.setStatus(chatId, 'revoked', updatedBy);
+  }
+
+  /**
+   * Records a join request. Returns false if the group was already known;
+   * a revoked group only asks again when the bot is re-added to it.
+   */
+  public async requestAccess(chatId: number, title?: string, rejoined: boolean = false): Promise<boolean> {
+    const existing = this.records.get(chatId);
+    if (existing && !(rejoined && existing.status === 'revoked')) {
+      return false;
+    }
+    await this.setStatus(chatId, 'pending', undefined, title);
+    return true;
+  }
+
+  /**
+   * Returns true the first time it is called for a group that is not
+   * allowed, so the caller can explain why the bot stays silent.
+   */
+  public async shouldExplain(chatId: number, title?: string): Promise<boolean> {
+    const record = this.records.get(chatId) || {
+      chatId,
+      title,
+      status: 'pending' as GroupStatus,
+      updatedAt: Date.now()
+    };
+    if (record.explainedAt) {
+      return false;
+    }
+    await this.save({ ...record, explainedAt: Date.now() });
+    return true;
+  }
+
+  private async setStatus(chatId: number, status: GroupStatus, updatedBy?: number, title?: string): Promise<GroupRecord> {
+    const existing = this.records.get(chatId);
+    const record: GroupRecord = {
+      ...existing,
+      chatId,
+      title: title || existing?.title,
+      status,
+      updatedBy,
+      updatedAt: Date.now()
+    };
+    // A revoked group that is re-added should be told about it again
+    if (status !== 'allowed') {
+      delete record.explainedAt;
+    }
+    await this.save(record);
+    return record;
+  }
+
+  private async save(record: GroupRecord) {
+    this.records.set(record.chatId, record);
+    await this.storage.set(Collections.groups, String(record.chatId), record);
+  }
+}
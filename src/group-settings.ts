@@ -0,0 +1,240 @@
+import { InlineKeyboard } from 'grammy';
+import { Collections, StorageBackend } from './storage';
+import { findState, MALAYSIAN_STATES } from './malaysian-states';
+import { Locale, MessageKey, t } from './messages';
+
+export type ReplyLanguage = 'auto' | 'ms' | 'en';
+export type AnswerLength = 'short' | 'normal' | 'detailed';
+
+export interface GroupSettings {
+  language: ReplyLanguage;
+  enabledAgents: string[];
+  // Agent that answers mentions the router cannot place; null keeps the "please rephrase" reply
+  defaultAgent: string | null;
+  state: string | null;
+  // JAKIM prayer zone for the chat's prayer times and scheduled posts; null follows the state
+  zone: string | null;
+  answerLength: AnswerLength;
+  greetings: boolean;
+}
+
+export interface StoredGroupSettings extends Partial<GroupSettings> {
+  updatedBy?: number;
+  updatedAt?: number;
+}
+
+export type SettingsView = 'main' | 'language' | 'agents' | 'default' | 'state' | 'length';
+
+export type SettingsAction =
+  | { type: 'view'; view: SettingsView }
+  | { type: 'set'; field: 'language' | 'default' | 'state' | 'length'; value: string }
+  | { type: 'toggleAgent'; agent: string }
+  | { type: 'toggleGreetings' }
+  | { type: 'close' };
+
+const CALLBACK_PREFIX = 'set';
+
+const LANGUAGE_LABELS: Record<ReplyLanguage, MessageKey> = {
+  auto: 'settings.language.auto',
+  ms: 'settings.language.ms',
+  en: 'settings.language.en'
+};
+
+const LENGTH_LABELS: Record<AnswerLength, MessageKey> = {
+  short: 'settings.length.short',
+  normal: 'settings.length.normal',
+  detailed: 'settings.length.detailed'
+};
+
+/**
+ * Per-chat preferences, editable by group admins through /settings. Chats
+ * without stored settings use the defaults, so every agent is enabled until
+ * an admin says otherwise. Lookups are synchronous against an in-memory copy.
+ */
+export class GroupSettingsStore {
+  private storage: StorageBackend;
+  private agentNames: string[];
+  private records: Map<number, StoredGroupSettings> = new Map();
+
+  constructor(storage: StorageBackend, agentNames: string[]) {
+    this.storage = storage;
+    this.agentNames = agentNames;
+  }
+
+  public async load(): Promise<void> {
+    for (const [chatId, record] of await this.storage.entries<StoredGroupSettings>(Collections.groupSettings)) {
+      this.records.set(Number(chatId), record);
+    }
+    console.log(`✓ Loaded settings for ${this.records.size} chat(s)`);
+  }
+
+  public get(chatId: number): GroupSettings {
+    const stored = this.records.get(chatId) || {};
+    return {
+      language: stored.language || 'auto',
+      // Ignore agents that no longer exist
+      enabledAgents: (stored.enabledAgents || this.agentNames).filter(name => this.agentNames.includes(name)),
+      defaultAgent: stored.defaultAgent && this.agentNames.includes(stored.defaultAgent) ? stored.defaultAgent : null,
+      state: stored.state || null,
+      zone: stored.zone || null,
+      answerLength: stored.answerLength || 'normal',
+      greetings: stored.greetings ?? true
+    };
+  }
+
+  public isAgentEnabled(chatId: number, agentName: string): boolean {
+    return this.get(chatId).enabledAgents.includes(agentName);
+  }
+
+  public async update(chatId: number, patch: Partial<GroupSettings>, updatedBy?: number): Promise<GroupSettings> {
+    const record: StoredGroupSettings = {
+      ...this.records.get(chatId),
+      ...patch,
+      updatedBy,
+      updatedAt: Date.now()
+    };
+    this.records.set(chatId, record);
+    await this.storage.set(Collections.groupSettings, String(chatId), record);
+    return this.get(chatId);
+  }
+
+  /** Applies a menu action and returns the view to show next. */
+  public async apply(chatId: number, action: SettingsAction, updatedBy?: number): Promise<SettingsView> {
+    const settings = this.get(chatId);
+
+    switch (action.type) {
+      case 'view':
+      case 'close':
+        return action.type === 'view' ? action.view : 'main';
+      case 'toggleGreetings':
+        await this.update(chatId, { greetings: !settings.greetings }, updatedBy);
+        return 'main';
+      case 'toggleAgent': {
+        if (!this.agentNames.includes(action.agent)) {
+          return 'agents';
+        }
+        const enabled = settings.enabledAgents.includes(action.agent)
+          ? settings.enabledAgents.filter(name => name !== action.agent)
+          : [...settings.enabledAgents, action.agent];
+        // Keep registration order so the menu does not reshuffle
+        await this.update(chatId, {
+          enabledAgents: this.agentNames.filter(name => enabled.includes(name))
+        }, updatedBy);
+        return 'agents';
+      }
+      case 'set':
+        await this.update(chatId, this.parseValue(action.field, action.value), updatedBy);
+        return 'main';
+    }
+  }
+
+  public static parse(data: string): SettingsAction | null {
+    const [prefix, type, ...rest] = data.split(':');
+    if (prefix !== CALLBACK_PREFIX) {
+      return null;
+    }
+
+    switch (type) {
+      case 'v':
+        return ['main', 'language', 'agents', 'default', 'state', 'length'].includes(rest[0])
+          ? { type: 'view', view: rest[0] as SettingsView }
+          : null;
+      case 's':
+        return ['language', 'default', 'state', 'length'].includes(rest[0]) && rest[1]
+          ? { type: 'set', field: rest[0] as 'language' | 'default' | 'state' | 'length', value: rest[1] }
+          : null;
+      case 'a':
+        return rest[0] ? { type: 'toggleAgent', agent: rest[0] } : null;
+      case 'g':
+        return { type: 'toggleGreetings' };
+      case 'x':
+        return { type: 'close' };
+      default:
+        return null;
+    }
+  }
+
+  public describe(chatId: number, locale: Locale): string {
+    const settings = this.get(chatId);
+    const none = t(locale, 'settings.none');
+    return [
+      t(locale, 'settings.title'),
+      '',
+      t(locale, 'settings.language', { value: t(locale, LANGUAGE_LABELS[settings.language]) }),
+      t(locale, 'settings.agents', { value: settings.enabledAgents.join(', ') || none }),
+      t(locale, 'settings.defaultAgent', { value: settings.defaultAgent || none }),
+      t(locale, 'settings.state', { value: findState(settings.state || undefined)?.name || none }),
+      t(locale, 'settings.zone', { value: settings.zone || none }),
+      t(locale, 'settings.answerLength', { value: t(locale, LENGTH_LABELS[settings.answerLength]) }),
+      t(locale, 'settings.greetings', { value: t(locale, settings.greetings ? 'settings.yes' : 'settings.no') })
+    ].join('\n');
+  }
+
+  public keyboard(chatId: number, view: SettingsView, locale: Locale): InlineKeyboard {
+    const settings = this.get(chatId);
+    const keyboard = new InlineKeyboard();
+    const none = t(locale, 'settings.none');
+    const mark = (selected: boolean, label: string) => `${selected ? '✅ ' : ''}${label}`;
+    const data = (...parts: string[]) => [CALLBACK_PREFIX, ...parts].join(':');
+
+    switch (view) {
+      case 'main':
+        keyboard
+          .text(t(locale, 'settings.button.language'), data('v', 'language'))
+          .text(t(locale, 'settings.button.agents'), data('v', 'agents')).row()
+          .text(t(locale, 'settings.button.defaultAgent'), data('v', 'default'))
+          .text(t(locale, 'settings.button.state'), data('v', 'state')).row()
+          .text(t(locale, 'settings.button.answerLength'), data('v', 'length'))
+          .text(t(locale, 'settings.button.greetings', { value: settings.greetings ? 'ON' : 'OFF' }), data('g')).row()
+          .text(t(locale, 'settings.button.close'), data('x'));
+        return keyboard;
+      case 'language':
+        for (const language of Object.keys(LANGUAGE_LABELS) as ReplyLanguage[]) {
+          keyboard.text(mark(settings.language === language, t(locale, LANGUAGE_LABELS[language])), data('s', 'language', language)).row();
+        }
+        break;
+      case 'agents':
+        for (const name of this.agentNames) {
+          keyboard.text(mark(settings.enabledAgents.includes(name), name), data('a', name)).row();
+        }
+        break;
+      case 'default':
+        keyboard.text(mark(!settings.defaultAgent, none), data('s', 'default', 'none')).row();
+        for (const name of this.agentNames) {
+          keyboard.text(mark(settings.defaultAgent === name, name), data('s', 'default', name)).row();
+        }
+        break;
+      case 'state':
+        keyboard.text(mark(!settings.state, none), data('s', 'state', 'none')).row();
+        MALAYSIAN_STATES.forEach((state, index) => {
+          keyboard.text(mark(settings.state === state.id, state.name), data('s', 'state', state.id));
+          if (index % 2 === 1) {
+            keyboard.row();
+          }
+        });
+        keyboard.row();
+        break;
+      case 'length':
+        for (const length of Object.keys(LENGTH_LABELS) as AnswerLength[]) {
+          keyboard.text(mark(settings.answerLength === length, t(locale, LENGTH_LABELS[length])), data('s', 'length', length)).row();
+        }
+        break;
+    }
+
+    keyboard.text(t(locale, 'settings.button.back'), data('v', 'main'));
+    return keyboard;
+  }
+
+  private parseValue(field: 'language' | 'default' | 'state' | 'length', value: string): Partial<GroupSettings> {
+    switch (field) {
+      case 'language':
+        return value in LANGUAGE_LABELS ? { language: value as ReplyLanguage } : {};
+      case 'length':
+        return value in LENGTH_LABELS ? { answerLength: value as AnswerLength } : {};
+      case 'default':
+        return { defaultAgent: this.agentNames.includes(value) ? value : null };
+      case 'state':
+        return { state: findState(value)?.id || null };
+    }
+  }
+}
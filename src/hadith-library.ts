@@ -0,0 +1,218 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Locale, MessageKey, t } from './messages';
+
+export type HadithGrade = 'sahih' | 'hasan' | 'daif' | 'maudu';
+
+export interface HadithCollectionInfo {
+  id: string;
+  name: string;
+  // Ways answers write the collection's name, lowercase
+  aliases: string[];
+  // Collection path on sunnah.com
+  sunnahSlug: string;
+  // Grade of every hadith in collections accepted as sahih as a whole
+  defaultGrade?: HadithGrade;
+}
+
+export interface HadithRecord {
+  number: string;
+  book?: string;
+  // Grade as the source gives it, e.g. "Sahih (Al-Albani)"
+  grade?: string;
+  arabic?: string;
+  translations: Partial<Record<'ms' | 'en', string>>;
+}
+
+/** One imported collection, as stored in HADITH_DATA_DIR/<collection>.json. */
+export interface HadithDataset {
+  collection: string;
+  importedAt: number;
+  sources: string[];
+  hadiths: HadithRecord[];
+}
+
+/** A hadith citation found in free text. */
+export interface HadithCitation {
+  raw: string;
+  index: number;
+  collection: HadithCollectionInfo;
+  number: string;
+}
+
+export const HADITH_COLLECTIONS: HadithCollectionInfo[] = [
+  { id: 'bukhari', name: 'Sahih al-Bukhari', aliases: ['bukhari', 'al-bukhari', 'bukhary'], sunnahSlug: 'bukhari', defaultGrade: 'sahih' },
+  { id: 'muslim', name: 'Sahih Muslim', aliases: ['muslim'], sunnahSlug: 'muslim', defaultGrade: 'sahih' },
+  { id: 'abudawud', name: 'Sunan Abi Dawud', aliases: ['abu dawud', 'abu daud', 'abi dawud', 'abu dawood'], sunnahSlug: 'abudawud' },
+  { id: 'tirmidhi', name: "Jami' at-Tirmidhi", aliases: ['tirmidhi', 'at-tirmidhi', 'tirmizi', 'at-tirmizi', 'termizi'], sunnahSlug: 'tirmidhi' },
+  { id: 'nasai', name: "Sunan an-Nasa'i", aliases: ['nasai', "nasa'i", 'an-nasai', "an-nasa'i"], sunnahSlug: 'nasai' },
+  { id: 'ibnmajah', name: 'Sunan Ibn Majah', aliases: ['ibn majah', 'ibnu majah', 'ibn maja'], sunnahSlug: 'ibnmajah' },
+  { id: 'malik', name: 'Muwatta Malik', aliases: ['muwatta', "muwatta'", 'muwatta malik', 'imam malik'], sunnahSlug: 'malik' },
+  { id: 'ahmad', name: 'Musnad Ahmad', aliases: ['musnad ahmad', 'imam ahmad', 'ahmad'], sunnahSlug: 'ahmad' }
+];
+
+const ALIAS_PATTERN = HADITH_COLLECTIONS
+  .flatMap(collection => collection.aliases)
+  .sort((a, b) => b.length - a.length)
+  .map(alias => alias.replace(/'/g, "['’]?").replace(/[-\s]/g, '[-\\s]?'))
+  .join('|');
+
+// "Sahih Bukhari 1", "(HR Muslim no. 55)", "Riwayat Abu Daud, no. 4031", "Tirmidhi #2516"
+const CITATION = new RegExp(
+  `(?:\\b(sahih|shahih|sunan|jami['’]?|musnad|h\\.?r\\.?|riwayat|diriwayatkan oleh|narrated by|reported by)\\s+)?` +
+  `(?:al-)?\\b(${ALIAS_PATTERN})\\b[\\s,:(]*(no\\.?|nombor|number|hadith|hadis|#)?\\s*(\\d{1,5}[a-z]?)\\b`,
+  'giu'
+);
+
+// Also ordinary words, so they only count as a citation with a prefix or "no."
+const AMBIGUOUS_ALIASES = ['muslim', 'ahmad'];
+
+const collectionKey = (name: string) => name.toLowerCase().replace(/[^a-z]/g, '');
+
+/** Looks a collection up by id or name, e.g. "bukhari", "Sahih al-Bukhari" or "abu daud". */
+export function findCollection(input: string): HadithCollectionInfo | undefined {
+  const wanted = collectionKey(input.replace(/^\s*(?:sahih|shahih|sunan|jami['’]?)\s+/i, ''));
+  return HADITH_COLLECTIONS.find(collection =>
+    collection.id === wanted || collectionKey(collection.name) === wanted ||
+    collection.aliases.some(alias => collectionKey(alias) === wanted)
+  );
+}
+
+/**
+ * Reads a source's grading, e.g. "Hasan Sahih (Darussalam)", as one of the
+ * four main grades. Where graders differ the weakest grade wins.
+ */
+export function gradeLevel(grade: string | undefined): HadithGrade | undefined {
+  const text = (grade || '').toLowerCase();
+  if (/maud|mawd|fabricat/.test(text)) {
+    return 'maudu';
+  }
+  if (/dh?a['’]?(?:i|ee)f|weak/.test(text)) {
+    return 'daif';
+  }
+  if (/sh?a?hih|authentic/.test(text)) {
+    return 'sahih';
+  }
+  if (/hasan|good/.test(text)) {
+    return 'hasan';
+  }
+  return undefined;
+}
+
+export function sunnahLink(collection: HadithCollectionInfo, number: string): string {
+  return `https://sunnah.com/${collection.sunnahSlug}:${number}`;
+}
+
+/**
+ * Hadith collections imported with `npm run import-hadith`. Nothing is
+ * bundled: each collection is a JSON file in the data directory, and all of
+ * them are read into memory by load() so answers can be checked without I/O.
+ */
+export class HadithLibrary {
+  private dataDir: string;
+  private collections: Map<string, Map<string, HadithRecord>> = new Map();
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+  }
+
+  public static fromEnv(env: NodeJS.ProcessEnv): HadithLibrary {
+    return new HadithLibrary(env.HADITH_DATA_DIR || './data/hadith');
+  }
+
+  public async load(): Promise<void> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.dataDir)).filter(file => file.endsWith('.json'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`❌ Could not read hadith data directory ${this.dataDir}:`, error);
+      }
+      console.log('✓ No hadith collections imported');
+      return;
+    }
+
+    for (const file of files) {
+      try {
+        const dataset: HadithDataset = JSON.parse(await fs.readFile(path.join(this.dataDir, file), 'utf8'));
+        if (!findCollection(dataset.collection)) {
+          console.warn(`⚠️ Skipping hadith file ${file}: unknown collection ${dataset.collection}`);
+          continue;
+        }
+        this.collections.set(dataset.collection, new Map(dataset.hadiths.map(hadith => [hadith.number, hadith])));
+      } catch (error) {
+        console.error(`❌ Could not load hadith file ${file}:`, error);
+      }
+    }
+    const summary = Array.from(this.collections, ([id, hadiths]) => `${id}: ${hadiths.size}`).join(', ');
+    console.log(`✓ Loaded ${this.collections.size} hadith collection(s)${summary ? ` (${summary})` : ''}`);
+  }
+
+  /** Writes an imported collection, replacing any earlier import of it. */
+  public async save(dataset: HadithDataset): Promise<string> {
+    await fs.mkdir(this.dataDir, { recursive: true });
+    const filePath = path.join(this.dataDir, `${dataset.collection}.json`);
+    await fs.writeFile(filePath, JSON.stringify(dataset), 'utf8');
+    this.collections.set(dataset.collection, new Map(dataset.hadiths.map(hadith => [hadith.number, hadith])));
+    return filePath;
+  }
+
+  public isImported(collection: HadithCollectionInfo): boolean {
+    return this.collections.has(collection.id);
+  }
+
+  public count(collection: HadithCollectionInfo): number {
+    return this.collections.get(collection.id)?.size || 0;
+  }
+
+  public get(collection: HadithCollectionInfo, number: string): HadithRecord | undefined {
+    return this.collections.get(collection.id)?.get(number.toLowerCase());
+  }
+
+  public hadiths(collection: HadithCollectionInfo): HadithRecord[] {
+    return Array.from(this.collections.get(collection.id)?.values() || []);
+  }
+
+  /** The grade to show: the source's own, else the collection's. */
+  public gradeOf(collection: HadithCollectionInfo, hadith: HadithRecord): HadithGrade | undefined {
+    return gradeLevel(hadith.grade) || collection.defaultGrade;
+  }
+
+  /**
+   * The grade in words with the graders the source names. Differing grades
+   * from several graders are shown as the source gives them, next to the
+   * weakest of them.
+   */
+  public gradeLabel(collection: HadithCollectionInfo, hadith: HadithRecord, locale: Locale): string {
+    const level = this.gradeOf(collection, hadith);
+    const grade = level ? t(locale, `hadith.grade.${level}` as MessageKey) : t(locale, 'hadith.gradeUnknown');
+    if (!hadith.grade) {
+      return grade;
+    }
+    if (hadith.grade.includes(';')) {
+      return `${grade} — ${hadith.grade}`;
+    }
+    const graders = Array.from(hadith.grade.matchAll(/\(([^)]+)\)/g), match => match[1]);
+    return graders.length > 0 ? `${grade} (${graders.join(', ')})` : grade;
+  }
+
+  /** The translation to show for a locale, falling back to whichever was imported. */
+  public translation(hadith: HadithRecord, locale: Locale): string | undefined {
+    return locale === 'en'
+      ? hadith.translations.en || hadith.translations.ms
+      : hadith.translations.ms || hadith.translations.en;
+  }
+
+  public findCitations(text: string): HadithCitation[] {
+    const citations: HadithCitation[] = [];
+    for (const match of text.matchAll(CITATION)) {
+      const [raw, prefix, alias, marker, number] = match;
+      const collection = findCollection(alias);
+      if (!collection || (AMBIGUOUS_ALIASES.includes(alias.toLowerCase()) && !prefix && !marker)) {
+        continue;
+      }
+      citations.push({ raw: raw.trim(), index: match.index!, collection, number: number.toLowerCase() });
+    }
+    return citations;
+  }
+}
@@ -0,0 +1,181 @@
+import { AnswerPostProcessor } from './islamic-agents';
+import { HadithCitation, HadithGrade, HadithLibrary, HadithRecord, sunnahLink } from './hadith-library';
+import { detectLanguage } from './language-detector';
+import { tokenize } from './keyword-scorer';
+import { Locale, t } from './messages';
+import { ARABIC_PASSAGE, arabicWords, wordOverlap } from './arabic-text';
+
+interface Quote {
+  words: string[];
+  // Which text of a hadith record the quote should be compared with
+  field: 'arabic' | 'ms' | 'en';
+}
+
+// Hadith whose translation is excerpted under an answer; the rest only get their grade and link
+const MAX_EXCERPTS = 3;
+const EXCERPT_LENGTH = 300;
+const QUOTE_MATCH_THRESHOLD = 0.5;
+// Characters between a quote and a citation for the quote to count as that hadith's text
+const MAX_QUOTE_DISTANCE = 300;
+
+const LATIN_QUOTE = /[“"]([^”"\n]{20,})[”"]|^> (.+)$/gm;
+
+const GRADE_ICONS: Record<HadithGrade, string> = { sahih: '✅', hasan: '✅', daif: '⚠️', maudu: '❌' };
+
+function latinWords(text: string): string[] {
+  return tokenize(text).filter(word => word.length >= 3);
+}
+
+/**
+ * Checks hadith citations such as "Sahih Bukhari 1" against the imported
+ * collections. Each cited hadith is annotated with its grade and a link;
+ * numbers missing from the collection are flagged, and a quote that does
+ * not match the cited number is traced to the hadith it does match.
+ */
+export class HadithVerifier implements AnswerPostProcessor {
+  private library: HadithLibrary;
+
+  constructor(library: HadithLibrary) {
+    this.library = library;
+  }
+
+  public process(answer: string, locale: Locale): string {
+    const citations = this.library.findCitations(answer);
+    if (citations.length === 0) {
+      return answer;
+    }
+
+    const quotes = this.quotesByCitation(answer, citations);
+    const seen = new Set<string>();
+    const lines = [`### ${t(locale, 'hadith.checkTitle')}`];
+    let excerpts = 0;
+    let flagged = 0;
+
+    for (const citation of citations) {
+      const { collection, number } = citation;
+      const key = `${collection.id}:${number}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      const reference = `${collection.name} ${number}`;
+
+      if (!this.library.isImported(collection)) {
+        lines.push('', t(locale, 'hadith.notImported', { reference, link: sunnahLink(collection, number) }));
+        continue;
+      }
+
+      const hadith = this.library.get(collection, number);
+      const citedQuotes = quotes.get(citation) || [];
+      if (hadith && this.quotesMatch(hadith, citedQuotes)) {
+        lines.push('', this.describe(citation, hadith, locale, excerpts < MAX_EXCERPTS));
+        excerpts++;
+        continue;
+      }
+
+      flagged++;
+      lines.push('', hadith
+        ? t(locale, 'hadith.quoteMismatch', { reference })
+        : t(locale, 'hadith.missing', { reference, collection: collection.name, count: this.library.count(collection) }));
+
+      const match = this.search(citation, citedQuotes);
+      if (match) {
+        lines.push(t(locale, 'hadith.correction', { reference: `${collection.name} ${match.number}` }));
+        lines.push(this.describe({ ...citation, number: match.number }, match, locale, true));
+      }
+    }
+
+    if (flagged > 0) {
+      console.warn(`⚠️ Flagged ${flagged} of ${seen.size} hadith citation(s) in answer`);
+    }
+    return `${answer}\n\n${lines.join('\n')}`;
+  }
+
+  private describe(citation: HadithCitation, hadith: HadithRecord, locale: Locale, withExcerpt: boolean): string {
+    const level = this.library.gradeOf(citation.collection, hadith);
+    const grade = this.library.gradeLabel(citation.collection, hadith, locale);
+    const lines = [`${level ? GRADE_ICONS[level] : 'ℹ️'} **${citation.collection.name} ${hadith.number}** · ${grade}`];
+
+    const translation = this.library.translation(hadith, locale);
+    if (withExcerpt && translation) {
+      const excerpt = translation.length > EXCERPT_LENGTH ? `${translation.slice(0, EXCERPT_LENGTH).trimEnd()}…` : translation;
+      lines.push(`> ${excerpt.replace(/\s*\n\s*/g, ' ')}`);
+    }
+    lines.push(`🔗 ${sunnahLink(citation.collection, hadith.number)}`);
+    return lines.join('\n');
+  }
+
+  /** Pairs each quote in the answer with the closest citation within reach. */
+  private quotesByCitation(answer: string, citations: HadithCitation[]): Map<HadithCitation, Quote[]> {
+    const found: { start: number; end: number; quote: Quote }[] = [];
+    for (const passage of answer.matchAll(ARABIC_PASSAGE)) {
+      found.push({
+        start: passage.index!,
+        end: passage.index! + passage[0].length,
+        quote: { words: arabicWords(passage[0]), field: 'arabic' }
+      });
+    }
+    for (const passage of answer.matchAll(LATIN_QUOTE)) {
+      const text = passage[1] || passage[2];
+      const { language, script } = detectLanguage(text);
+      if (script === 'latin') {
+        found.push({
+          start: passage.index!,
+          end: passage.index! + passage[0].length,
+          quote: { words: latinWords(text), field: language === 'en' ? 'en' : 'ms' }
+        });
+      }
+    }
+
+    const quotes = new Map<HadithCitation, Quote[]>();
+    for (const { start, end, quote } of found) {
+      if (quote.words.length < 3) {
+        continue;
+      }
+      const gap = (citation: HadithCitation) =>
+        Math.max(0, citation.index - end, start - (citation.index + citation.raw.length));
+      const nearest = citations.reduce<HadithCitation | undefined>(
+        (best, citation) => (!best || gap(citation) < gap(best) ? citation : best),
+        undefined
+      );
+      if (nearest && gap(nearest) <= MAX_QUOTE_DISTANCE) {
+        quotes.set(nearest, [...(quotes.get(nearest) || []), quote]);
+      }
+    }
+    return quotes;
+  }
+
+  private overlap(hadith: HadithRecord, quote: Quote): number | undefined {
+    const text = quote.field === 'arabic' ? hadith.arabic : hadith.translations[quote.field];
+    if (!text) {
+      return undefined;
+    }
+    const words = quote.field === 'arabic' ? arabicWords(text) : latinWords(text);
+    return wordOverlap(quote.words, new Set(words));
+  }
+
+  /**
+   * A hadith matches when it has nothing to compare the quotes with, or one
+   * of the quotes matches its text.
+   */
+  private quotesMatch(hadith: HadithRecord, quotes: Quote[]): boolean {
+    const overlaps = quotes.map(quote => this.overlap(hadith, quote)).filter((value): value is number => value !== undefined);
+    return overlaps.length === 0 || overlaps.some(value => value >= QUOTE_MATCH_THRESHOLD);
+  }
+
+  /** The hadith in the cited collection that best matches the quotes, if any matches well. */
+  private search(citation: HadithCitation, quotes: Quote[]): HadithRecord | undefined {
+    let best: HadithRecord | undefined;
+    let bestOverlap = QUOTE_MATCH_THRESHOLD;
+    for (const hadith of this.library.hadiths(citation.collection)) {
+      for (const quote of quotes) {
+        const value = this.overlap(hadith, quote) || 0;
+        if (value > bestOverlap) {
+          best = hadith;
+          bestOverlap = value;
+        }
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,247 @@
+import { promises as fs } from 'fs';
+import { CalendarDate, malaysianToday } from './prayer-times';
+import { Locale, MessageKey, t } from './messages';
+
+export interface HijriDate {
+  year: number;
+  // 1 for Muharram to 12 for Zulhijjah
+  month: number;
+  day: number;
+}
+
+export type IslamicEvent =
+  | 'awalMuharram' | 'asyura' | 'maulidurRasul' | 'israkMikraj' | 'nisfuSyaaban' | 'awalRamadan'
+  | 'nuzulQuran' | 'aidilfitri' | 'arafah' | 'aidiladha' | 'tasyrik';
+
+export interface UpcomingEvent {
+  event: IslamicEvent;
+  hijri: HijriDate;
+  date: CalendarDate;
+  daysAway: number;
+}
+
+const EVENTS: { event: IslamicEvent; month: number; days: number[] }[] = [
+  { event: 'awalMuharram', month: 1, days: [1] },
+  { event: 'asyura', month: 1, days: [10] },
+  { event: 'maulidurRasul', month: 3, days: [12] },
+  { event: 'israkMikraj', month: 7, days: [27] },
+  { event: 'nisfuSyaaban', month: 8, days: [15] },
+  { event: 'awalRamadan', month: 9, days: [1] },
+  { event: 'nuzulQuran', month: 9, days: [17] },
+  { event: 'aidilfitri', month: 10, days: [1] },
+  { event: 'arafah', month: 12, days: [9] },
+  { event: 'aidiladha', month: 12, days: [10] },
+  { event: 'tasyrik', month: 12, days: [11, 12, 13] }
+];
+
+const MONTH_NAMES = [
+  'Muharram', 'Safar', 'Rabiulawal', 'Rabiulakhir', 'Jamadilawal', 'Jamadilakhir',
+  'Rejab', 'Syaaban', 'Ramadan', 'Syawal', 'Zulkaedah', 'Zulhijjah'
+];
+
+const MONTH_ALIASES: Record<string, number> = {
+  muharam: 1, safar: 2, rabiulawal: 3, rabialawwal: 3, rabiulakhir: 4, rabialthani: 4, rabialakhir: 4,
+  jamadilawal: 5, jumadaalula: 5, jumadaalawwal: 5, jamadilakhir: 6, jumadaalakhirah: 6, jumadaalthani: 6,
+  rejab: 7, rajab: 7, syaaban: 8, shaban: 8, syaban: 8, ramadhan: 9, syawal: 10, shawwal: 10, syawwal: 10,
+  zulkaedah: 11, zulkaidah: 11, dhualqadah: 11, zulhijjah: 12, dhualhijjah: 12
+};
+
+/**
+ * Months whose start in Malaysia (by JAKIM's rukyah and hisab) differs from
+ * the tabular calendar, as days to move the month's first day. HIJRI_OFFSETS_FILE
+ * adds to and overrides these as new months are announced.
+ */
+const MALAYSIAN_OFFSETS: Record<string, number> = {
+  '1445-09': 1,
+  '1446-01': -1,
+  '1446-09': 1
+};
+
+// Julian day of 1 Muharram 1 AH in the tabular (civil) calendar
+const EPOCH = 1948439.5;
+
+const monthKey = (year: number, month: number) => `${year}-${String(month).padStart(2, '0')}`;
+const letters = (text: string) => text.toLowerCase().replace(/[^a-z]/g, '');
+
+function julianDay(date: CalendarDate): number {
+  return Date.UTC(date.year, date.month - 1, date.day) / 86400000 + 2440587.5;
+}
+
+function fromJulianDay(jd: number): CalendarDate {
+  const date = new Date((jd - 2440587.5) * 86400000);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/** Julian day of the first of a month in the arithmetic Islamic calendar. */
+function tabularMonthStart(year: number, month: number): number {
+  return Math.ceil(29.5 * (month - 1)) + (year - 1) * 354 + Math.floor((3 + 11 * year) / 30) + EPOCH;
+}
+
+export function monthName(month: number): string {
+  return MONTH_NAMES[month - 1];
+}
+
+/** Reads a Hijri month name as written in Malay or English, e.g. "Syawal" or "Shawwal". */
+export function findHijriMonth(input: string): number | undefined {
+  const key = letters(input);
+  const index = MONTH_NAMES.findIndex(name => letters(name) === key);
+  return index >= 0 ? index + 1 : MONTH_ALIASES[key];
+}
+
+export function formatHijri(date: HijriDate): string {
+  return `${date.day} ${monthName(date.month)} ${date.year}H`;
+}
+
+export function formatGregorian(date: CalendarDate, locale: Locale, weekday: boolean = false): string {
+  return new Intl.DateTimeFormat(locale === 'en' ? 'en-MY' : 'ms-MY', {
+    weekday: weekday ? 'long' : undefined, day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC'
+  }).format(Date.UTC(date.year, date.month - 1, date.day));
+}
+
+/**
+ * Converts between the Gregorian and Hijri calendars offline. Months follow
+ * the arithmetic Islamic calendar, moved by a day or two where Malaysia's
+ * declared start of a month differed from it.
+ */
+export class HijriCalendar {
+  private offsetsPath?: string;
+  private offsets: Record<string, number> = { ...MALAYSIAN_OFFSETS };
+
+  constructor(offsetsPath?: string) {
+    this.offsetsPath = offsetsPath;
+  }
+
+  public static fromEnv(env: NodeJS.ProcessEnv): HijriCalendar {
+    return new HijriCalendar(env.HIJRI_OFFSETS_FILE);
+  }
+
+  /** Reads the operator's offset table, a JSON object such as { "1447-09": 1 }. */
+  public async load(): Promise<void> {
+    if (!this.offsetsPath) {
+      return;
+    }
+    try {
+      const extra: Record<string, number> = JSON.parse(await fs.readFile(this.offsetsPath, 'utf8'));
+      const valid = Object.entries(extra).filter(([key, days]) => /^\d{4}-\d{2}$/.test(key) && Number.isInteger(days));
+      this.offsets = { ...this.offsets, ...Object.fromEntries(valid) };
+      console.log(`✓ Loaded ${valid.length} Hijri month offset(s) from ${this.offsetsPath}`);
+    } catch (error) {
+      console.error(`❌ Could not load Hijri offsets from ${this.offsetsPath}:`, error);
+    }
+  }
+
+  public toHijri(date: CalendarDate): HijriDate {
+    const jd = julianDay(date);
+    let year = Math.floor((30 * (jd - EPOCH) + 10646) / 10631);
+    let month = Math.min(12, Math.ceil((jd - 29 - tabularMonthStart(year, 1)) / 29.5) + 1);
+
+    // Offsets can move the date into the neighbouring month
+    if (jd < this.monthStart(year, month)) {
+      [year, month] = month === 1 ? [year - 1, 12] : [year, month - 1];
+    } else {
+      const [nextYear, nextMonth] = month === 12 ? [year + 1, 1] : [year, month + 1];
+      if (jd >= this.monthStart(nextYear, nextMonth)) {
+        [year, month] = [nextYear, nextMonth];
+      }
+    }
+    return { year, month, day: jd - this.monthStart(year, month) + 1 };
+  }
+
+  /** The Gregorian date of a Hijri date, or undefined when the month has no such day. */
+  public toGregorian(date: HijriDate): CalendarDate | undefined {
+    if (date.month < 1 || date.month > 12 || date.day < 1 || date.day > this.monthLength(date.year, date.month)) {
+      return undefined;
+    }
+    return fromJulianDay(this.monthStart(date.year, date.month) + date.day - 1);
+  }
+
+  public monthLength(year: number, month: number): number {
+    const [nextYear, nextMonth] = month === 12 ? [year + 1, 1] : [year, month + 1];
+    return this.monthStart(nextYear, nextMonth) - this.monthStart(year, month);
+  }
+
+  /** Islamic events from a date onwards, soonest first; the days of tasyrik count as one event. */
+  public upcomingEvents(from: CalendarDate, count: number): UpcomingEvent[] {
+    const today = julianDay(from);
+    const { year } = this.toHijri(from);
+    const events: UpcomingEvent[] = [];
+
+    for (const hijriYear of [year, year + 1]) {
+      for (const { event, month, days } of EVENTS) {
+        // An event still running today counts, from its first remaining day
+        const day = days.find(candidate => {
+          const date = this.toGregorian({ year: hijriYear, month, day: candidate });
+          return date && julianDay(date) >= today;
+        });
+        const date = day !== undefined ? this.toGregorian({ year: hijriYear, month, day }) : undefined;
+        if (day !== undefined && date) {
+          events.push({ event, hijri: { year: hijriYear, month, day }, date, daysAway: julianDay(date) - today });
+        }
+      }
+    }
+    return events.slice(0, count);
+  }
+
+  /** The event falling on a date, if any. */
+  public eventOn(date: CalendarDate): IslamicEvent | undefined {
+    const hijri = this.toHijri(date);
+    return EVENTS.find(({ month, days }) => month === hijri.month && days.includes(hijri.day))?.event;
+  }
+
+  /**
+   * Today's date in both calendars and the next events, for agent prompts
+   * that depend on the date ("boleh puasa esok?").
+   */
+  public promptContext(now: Date = new Date()): string {
+    const today = malaysianToday(now);
+    const hijri = this.toHijri(today);
+    const event = this.eventOn(today);
+    const upcoming = this.upcomingEvents(today, 4)
+      .filter(entry => entry.daysAway > 0)
+      .map(entry => `${t('en', `hijri.event.${entry.event}` as MessageKey)} on ${formatGregorian(entry.date, 'en')} (${formatHijri(entry.hijri)})`);
+
+    return [
+      `Today in Malaysia is ${formatGregorian(today, 'en', true)}, ${formatHijri(hijri)} by the Malaysian Hijri calendar` +
+        `${event ? ` (${t('en', `hijri.event.${event}` as MessageKey)})` : ''}. The Hijri date changes at maghrib, so after maghrib it is already the next Hijri day.`,
+      `Upcoming: ${upcoming.join('; ')}.`,
+      'Use these dates for questions that depend on the date, such as whether fasting is allowed or recommended on a given day.'
+    ].join(' ');
+  }
+
+  private monthStart(year: number, month: number): number {
+    return tabularMonthStart(year, month) + (this.offsets[monthKey(year, month)] || 0);
+  }
+}
+
+/** Reads "1 Syawal 1447", "1447-10-01" or "1/10/1447" as a Hijri date. */
+export function parseHijriDate(input: string): HijriDate | undefined {
+  const named = input.match(/^(\d{1,2})\s+([a-z'’\s-]+?)\s+(\d{3,4})\s*h?$/i);
+  if (named) {
+    const month = findHijriMonth(named[2]);
+    return month ? { year: Number(named[3]), month, day: Number(named[1]) } : undefined;
+  }
+  const iso = input.match(/^(\d{3,4})-(\d{1,2})-(\d{1,2})$/);
+  const dmy = input.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{3,4})$/);
+  const [year, month, day] = iso ? [iso[1], iso[2], iso[3]] : dmy ? [dmy[3], dmy[2], dmy[1]] : [];
+  return year && Number(year) < 1700 ? { year: Number(year), month: Number(month), day: Number(day) } : undefined;
+}
+
+/** Reads "2025-03-31" or "31/3/2025" as a Gregorian date. */
+export function parseGregorianDate(input: string): CalendarDate | undefined {
+  const iso = input.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const dmy = input.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/);
+  const [year, month, day] = iso ? [iso[1], iso[2], iso[3]] : dmy ? [dmy[3], dmy[2], dmy[1]] : [];
+  if (!year || Number(year) < 1700) {
+    return undefined;
+  }
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  // Reject dates such as 31/2/2025 that Date would roll over
+  return date.getUTCDate() === Number(day) && date.getUTCMonth() === Number(month) - 1
+    ? { year: Number(year), month: Number(month), day: Number(day) }
+    : undefined;
+}
+
+/** "Aidilfitri — 1 Syawal 1446H (31 Mac 2025)" style label for an event. */
+export function describeEvent(entry: UpcomingEvent, locale: Locale): string {
+  return `${t(locale, `hijri.event.${entry.event}` as MessageKey)} — ${formatHijri(entry.hijri)} (${formatGregorian(entry.date, locale)})`;
+}
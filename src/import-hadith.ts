@@ -0,0 +1,117 @@
+/**
+ * Imports a hadith collection into HADITH_DATA_DIR:
+ *
+ *   npm run import-hadith -- <collection> <file> [file...]
+ *
+ * Each file is either an edition from the hadith-api project
+ * (https://github.com/fawazahmed0/hadith-api), e.g. ara-bukhari.json and
+ * eng-bukhari.json, or a JSON array of records with number, book, grade,
+ * arabic and translations fields. Files are merged by hadith number, so the
+ * Arabic text and each translation can come from separate files.
+ */
+
+import { config } from 'dotenv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { findCollection, HadithLibrary, HadithRecord, HADITH_COLLECTIONS } from './hadith-library';
+import { detectLanguage } from './language-detector';
+
+config();
+
+interface EditionFile {
+  metadata?: { name?: string; section?: Record<string, string>; sections?: Record<string, string> };
+  hadiths: {
+    hadithnumber: number | string;
+    text: string;
+    grades?: { name?: string; grade: string }[];
+    reference?: { book?: number | string };
+  }[];
+}
+
+type TextField = 'arabic' | 'ms' | 'en';
+
+/** Whether an edition's texts are the Arabic original or a Malay or English translation. */
+function textFieldOf(texts: string[]): TextField {
+  const sample = texts.slice(0, 20).join(' ');
+  const { language, script } = detectLanguage(sample);
+  if (script === 'arabic') {
+    return 'arabic';
+  }
+  return language === 'ms' || language === 'rojak' ? 'ms' : 'en';
+}
+
+function mergeRecord(records: Map<string, HadithRecord>, incoming: HadithRecord) {
+  const existing = records.get(incoming.number);
+  records.set(incoming.number, {
+    number: incoming.number,
+    book: existing?.book || incoming.book,
+    grade: existing?.grade || incoming.grade,
+    arabic: existing?.arabic || incoming.arabic,
+    translations: { ...incoming.translations, ...existing?.translations }
+  });
+}
+
+function readEdition(edition: EditionFile, records: Map<string, HadithRecord>): TextField {
+  const field = textFieldOf(edition.hadiths.map(hadith => hadith.text));
+  const sections = edition.metadata?.sections || edition.metadata?.section || {};
+
+  for (const hadith of edition.hadiths) {
+    if (!hadith.text?.trim()) {
+      continue;
+    }
+    const bookNumber = hadith.reference?.book;
+    const bookName = bookNumber !== undefined ? sections[String(bookNumber)] : undefined;
+    const grades = (hadith.grades || [])
+      .filter(grade => grade.grade)
+      .map(grade => (grade.name ? `${grade.grade} (${grade.name})` : grade.grade));
+
+    mergeRecord(records, {
+      number: String(hadith.hadithnumber).toLowerCase(),
+      book: bookNumber !== undefined ? (bookName ? `${bookNumber}. ${bookName}` : String(bookNumber)) : undefined,
+      grade: grades.length > 0 ? grades.join('; ') : undefined,
+      arabic: field === 'arabic' ? hadith.text.trim() : undefined,
+      translations: field === 'arabic' ? {} : { [field]: hadith.text.trim() }
+    });
+  }
+  return field;
+}
+
+async function main() {
+  const [collectionName, ...files] = process.argv.slice(2);
+  const collection = collectionName ? findCollection(collectionName) : undefined;
+  if (!collection || files.length === 0) {
+    console.error('Usage: npm run import-hadith -- <collection> <file> [file...]');
+    console.error(`Collections: ${HADITH_COLLECTIONS.map(info => info.id).join(', ')}`);
+    process.exit(1);
+  }
+
+  const records = new Map<string, HadithRecord>();
+  for (const file of files) {
+    const data = JSON.parse(await fs.readFile(file, 'utf8'));
+    if (Array.isArray(data)) {
+      for (const record of data as HadithRecord[]) {
+        mergeRecord(records, { ...record, number: String(record.number).toLowerCase(), translations: record.translations || {} });
+      }
+      console.log(`✓ ${path.basename(file)}: ${data.length} records`);
+    } else if (Array.isArray(data?.hadiths)) {
+      const field = readEdition(data, records);
+      console.log(`✓ ${path.basename(file)}: ${data.hadiths.length} hadith (${field === 'arabic' ? 'Arabic' : `${field} translation`})`);
+    } else {
+      throw new Error(`${file} is neither a hadith-api edition nor an array of records`);
+    }
+  }
+
+  const library = HadithLibrary.fromEnv(process.env);
+  const filePath = await library.save({
+    collection: collection.id,
+    importedAt: Date.now(),
+    sources: files.map(file => path.basename(file)),
+    hadiths: Array.from(records.values())
+  });
+  console.log(`✓ Imported ${records.size} hadith into ${filePath}`);
+}
+
+main().catch(error => {
+  console.error('❌ Import failed:', error);
+  process.exit(1);
+});
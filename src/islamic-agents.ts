@@ -1,12 +1,84 @@
 import { Bot, Context } from 'grammy';
-import axios from 'axios';
-
-interface AgentConfig {
+import { DeepseekMessage, LLMProvider, StreamListener } from './llm-provider';
+import { AnswerCache, CacheLookup } from './answer-cache';
+import { StreamingReply } from './streaming-reply';
+import { FollowUpStore } from './follow-up-actions';
+import { AnswerLength } from './group-settings';
+import { findState } from './malaysian-states';
+import { LanguageDetection, replyLocale } from './language-detector';
+import { allTranslations, DEFAULT_LOCALE, Locale, MessageKey, t } from './messages';
+import { citeSources, FatwaKnowledgeBase, passagesPrompt, RetrievedPassage } from './fatwa-knowledge-base';
+import { HijriCalendar } from './hijri-calendar';
+import { malaysianToday } from './prayer-times';
+
+export interface AgentConfig {
+  name: string;
   telegramToken: string;
-  deepseekKey: string;
   groupIds: string[];
   responseThreshold: number;
-  messageHistory: Map<string, any>;
+  provider: LLMProvider;
+  answerCache?: AnswerCache;
+  followUps?: FollowUpStore;
+  // Per-chat answer preferences for command replies
+  contextFor?: (ctx: Context) => ResponseContext;
+  // Run in order over every new answer before it is cached and sent
+  postProcessors?: AnswerPostProcessor[];
+  // Fatwa documents whose passages are retrieved into the prompt and cited under the answer
+  knowledgeBase?: FatwaKnowledgeBase;
+  // Gives the prompt today's Gregorian and Hijri dates, for answers that depend on the date
+  calendar?: HijriCalendar;
+}
+
+/** Chat preferences that shape an answer without changing the question. */
+export interface ResponseContext {
+  // Reply language forced by the chat's settings; otherwise the question's language is used
+  language?: 'ms' | 'en';
+  detected?: LanguageDetection;
+  answerLength?: AnswerLength;
+  state?: string;
+}
+
+/** Checks or annotates a finished answer, e.g. verifying its citations. */
+export interface AnswerPostProcessor {
+  process(answer: string, locale: Locale): string;
+}
+
+export interface RelevanceDecision {
+  score: number;
+  reason: string;
+  matchedKeywords: string[];
+}
+
+const FAILED_ANSWERS = (['answer.empty', 'answer.emptyOpinion', 'answer.error'] as MessageKey[]).flatMap(allTranslations);
+
+/** Locale of the bot's own messages for an answer written under this context. */
+function localeFor(context: ResponseContext = {}): Locale {
+  return context.language || (context.detected ? replyLocale(context.detected) : DEFAULT_LOCALE);
+}
+
+function languageInstruction(context: ResponseContext): string {
+  if (context.language === 'ms') {
+    return 'Always answer in Bahasa Melayu, whatever language the question is in.';
+  }
+  if (context.language === 'en') {
+    return 'Always answer in English, whatever language the question is in.';
+  }
+
+  const { language, script } = context.detected || { language: 'unknown', script: 'latin' };
+  switch (language) {
+    case 'ms':
+      return script === 'arabic'
+        ? 'The question is written in Jawi. Answer in Bahasa Melayu in Rumi script, giving key terms in Jawi as well.'
+        : 'The question is in Malay. Answer in Bahasa Melayu.';
+    case 'en':
+      return 'The question is in English. Answer in English.';
+    case 'rojak':
+      return 'The question mixes Malay and English. Answer mainly in Bahasa Melayu, keeping the English terms the asker used.';
+    case 'ar':
+      return 'The question is in Arabic. Answer in Arabic, followed by a short translation in Bahasa Melayu.';
+    default:
+      return 'Answer in the same language as the question (Malay or English).';
+  }
 }
 
 interface AgentResponse {
@@ -14,34 +86,23 @@ interface AgentResponse {
   response: string;
 }
 
-interface DeepseekMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
 export abstract class BaseIslamicAgent {
   protected bot: Bot;
   protected config: AgentConfig;
-  protected deepseekClient;
 
   constructor(config: AgentConfig, bot: Bot) {
     this.config = config;
     this.bot = bot;
-    this.deepseekClient = axios.create({
-      baseURL: 'https://api.deepseek.com/v1',
-      headers: {
-        'Authorization': `Bearer ${config.deepseekKey}`,
-        'Content-Type': 'application/json'
-      }
-    });
   }
 
   abstract setupHandlers(): Promise<void>;
   protected abstract getSystemPrompt(): string;
   public abstract getKeywords(): string[];
-  protected abstract getTopics(): string[];
+  public abstract getTopics(): string[];
+
+  public async shouldRespond(message: string): Promise<RelevanceDecision> {
+    const matchedKeywords = this.matchKeywords(message);
 
-  public async shouldRespond(message: string): Promise<boolean> {
     try {
       const response = await this.createChatCompletion([
         {
@@ -51,58 +112,215 @@ Given the following specialization:
 Topics: ${this.getTopics().join(', ')}
 Keywords: ${this.getKeywords().join(', ')}
 
-Respond with a number between 0 and 1 indicating how relevant the question is to these topics.
-Only respond with the number, nothing else.`
+Respond with a JSON object of the form {"score": <number between 0 and 1>, "reason": "<one short sentence>"}
+where score indicates how relevant the question is to these topics.
+Only respond with the JSON object, nothing else.`
         },
         { role: 'user', content: message }
-      ], 0.1, 10);
+      ], 0.1, 60);
 
-      const relevanceScore = parseFloat(response || '0');
-      return relevanceScore >= this.config.responseThreshold;
+      return { ...this.parseRelevance(response), matchedKeywords };
     } catch (error) {
       console.error('Error checking relevance:', error);
-      return false;
+      return { score: 0, reason: 'Relevance check failed', matchedKeywords };
     }
   }
 
+  public getResponseThreshold(): number {
+    return this.config.responseThreshold;
+  }
+
+  public matchKeywords(message: string): string[] {
+    const lowerMessage = message.toLowerCase();
+    return this.getKeywords().filter(keyword => lowerMessage.includes(keyword.toLowerCase()));
+  }
+
+  private parseRelevance(response: string): { score: number; reason: string } {
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+    try {
+      const json = response.match(/\{[\s\S]*\}/);
+      if (json) {
+        const parsed = JSON.parse(json[0]);
+        const score = Number(parsed.score);
+        if (Number.isFinite(score)) {
+          return { score: clamp(score), reason: String(parsed.reason || 'No reason given') };
+        }
+      }
+    } catch (error) {
+      console.warn('Could not parse relevance JSON, falling back to number:', response);
+    }
+
+    // Older prompts/models may still answer with a bare number
+    const score = parseFloat(response || '0');
+    return {
+      score: Number.isFinite(score) ? clamp(score) : 0,
+      reason: 'Model returned a bare score'
+    };
+  }
+
   protected async createChatCompletion(
     messages: DeepseekMessage[],
-    temperature: number = 0.7,
-    max_tokens: number = 1000
+    temperature?: number,
+    max_tokens?: number,
+    onProgress?: StreamListener
+  ): Promise<string> {
+    // Unset values fall back to the temperature/max tokens configured for the provider
+    const options = { temperature, maxTokens: max_tokens };
+    if (onProgress) {
+      return this.config.provider.streamChatCompletion(messages, onProgress, options);
+    }
+    return this.config.provider.createChatCompletion(messages, options);
+  }
+
+  /**
+   * The agent's system prompt followed by the chat's answer preferences and
+   * any knowledge base passages retrieved for the question.
+   */
+  protected buildSystemPrompt(context: ResponseContext = {}, passages: RetrievedPassage[] = []): string {
+    const instructions: string[] = [languageInstruction(context)];
+    if (context.answerLength === 'short') {
+      instructions.push('Keep the answer short: at most about 150 words, giving the ruling and its main evidence only.');
+    } else if (context.answerLength === 'detailed') {
+      instructions.push('Give a detailed answer with full evidence, the differing views and practical examples.');
+    }
+    if (this.config.calendar) {
+      instructions.push(this.config.calendar.promptContext());
+    }
+    const state = findState(context.state);
+    if (state) {
+      instructions.push(`The asker lives in ${state.name}. Where rulings or practice differ between states, give the position of the ${state.name} religious authorities first and say explicitly that it is ${state.name}'s position. Then name the other states, or the National Fatwa Council, whose position differs and say how.`);
+    }
+
+    const prompt = this.getSystemPrompt();
+    const retrieved = passages.length > 0 ? `\n\n${passagesPrompt(passages)}` : '';
+    return `${prompt}\n\nFor this question:\n- ${instructions.join('\n- ')}${retrieved}`;
+  }
+
+  public async generateResponse(
+    question: string,
+    history: DeepseekMessage[] = [],
+    onProgress?: StreamListener,
+    context: ResponseContext = {}
   ): Promise<string> {
     try {
-      const { data } = await this.deepseekClient.post('/chat/completions', {
-        model: 'deepseek-chat',
-        messages,
-        temperature,
-        max_tokens
-      });
-
-      return data.choices[0]?.message?.content || '';
+      const passages = this.config.knowledgeBase?.search(question, { state: context.state }) || [];
+      const response = await this.createChatCompletion([
+        { role: 'system', content: this.buildSystemPrompt(context, passages) },
+        ...history,
+        { role: 'user', content: question }
+      ], undefined, undefined, onProgress);
+
+      return response ? citeSources(response, passages, localeFor(context)) : t(localeFor(context), 'answer.empty');
     } catch (error) {
-      console.error('Error calling DeepSeek API:', error);
-      throw error;
+      console.error('Error generating response:', error);
+      return t(localeFor(context), 'answer.error');
+    }
+  }
+
+  /**
+   * Answers a question through the shared answer cache when one is
+   * configured. Follow-ups with conversation history always bypass the cache
+   * since their answer depends on the thread. New answers pass through the
+   * configured post-processors before they are cached.
+   */
+  public async respond(
+    question: string,
+    history: DeepseekMessage[] = [],
+    onProgress?: StreamListener,
+    context: ResponseContext = {}
+  ): Promise<CacheLookup> {
+    const cache = this.config.answerCache;
+    const generate = async () => this.postProcess(await this.generateResponse(question, history, onProgress, context), context);
+    if (!cache || history.length > 0) {
+      return { answer: await generate(), cached: false };
     }
+
+    return cache.getOrGenerate(
+      this.config.name,
+      question,
+      generate,
+      answer => !FAILED_ANSWERS.includes(answer),
+      this.contextKey(context)
+    );
   }
 
-  public async generateResponse(question: string): Promise<string> {
+  private postProcess(answer: string, context: ResponseContext): string {
+    if (FAILED_ANSWERS.includes(answer)) {
+      return answer;
+    }
+    const locale = localeFor(context);
+    return (this.config.postProcessors || []).reduce((processed, processor) => processor.process(processed, locale), answer);
+  }
+
+  /**
+   * Distinguishes cached answers written for different chat preferences or
+   * reply languages; "apa hukum riba" and "what is hukum riba" normalize to
+   * the same question but need answers in different languages. Agents
+   * given today's date also keep separate answers per day.
+   */
+  private contextKey(context: ResponseContext): string | undefined {
+    const detected = context.detected?.language !== 'unknown' ? context.detected?.language : undefined;
+    const today = this.config.calendar ? Object.values(malaysianToday()).join('-') : undefined;
+    const parts = [context.language || detected, context.answerLength !== 'normal' ? context.answerLength : undefined, context.state, today];
+    return parts.some(part => part) ? parts.map(part => part || '').join('/') : undefined;
+  }
+
+  /**
+   * Rewrites an earlier answer according to an instruction (summarise,
+   * translate, ...) without generating a new answer from scratch.
+   */
+  public async transformAnswer(
+    answer: string,
+    instruction: string,
+    onProgress?: StreamListener,
+    context: ResponseContext = {}
+  ): Promise<string> {
     try {
       const response = await this.createChatCompletion([
         { role: 'system', content: this.getSystemPrompt() },
-        { role: 'user', content: question }
-      ]);
+        { role: 'user', content: `${instruction}\n\n---\n\n${answer}` }
+      ], undefined, undefined, onProgress);
 
-      return response || 'I apologize, but I could not generate a response at this time.';
+      return response || t(localeFor(context), 'answer.empty');
     } catch (error) {
-      console.error('Error generating response:', error);
-      return 'I apologize, but I encountered an error while processing your question. Please try again later.';
+      console.error('Error transforming answer:', error);
+      return t(localeFor(context), 'answer.error');
+    }
+  }
+
+  protected localeForChat(ctx: Context): Locale {
+    return localeFor(this.config.contextFor?.(ctx));
+  }
+
+  /** Streams the answer to a command into the chat while it is generated. */
+  protected async streamAnswer(ctx: Context, question: string) {
+    const context = this.config.contextFor?.(ctx);
+    const locale = localeFor(context);
+    const reply = new StreamingReply(ctx, text => this.splitResponse(this.formatResponseForTelegram(text), locale));
+    try {
+      await reply.start();
+      const { answer } = await this.respond(question, [], text => reply.update(text), context);
+      const keyboard = ctx.chat && this.config.followUps
+        ? await this.config.followUps.createKeyboard({
+          chatId: ctx.chat.id,
+          question,
+          answer,
+          agentName: this.config.name
+        }, locale)
+        : undefined;
+      await reply.finalize(answer, keyboard);
+    } catch (error) {
+      console.error('Error streaming response:', error);
+      const message = t(locale, 'answer.error');
+      await reply.fail(message).catch(() => this.replyWithFormattedResponse(ctx, message, locale));
     }
   }
 
-  protected async replyWithFormattedResponse(ctx: Context, response: string) {
+  protected async replyWithFormattedResponse(ctx: Context, response: string, locale: Locale = DEFAULT_LOCALE) {
     try {
       const formattedResponse = this.formatResponseForTelegram(response);
-      const chunks = this.splitResponse(formattedResponse);
+      const chunks = this.splitResponse(formattedResponse, locale);
       
       for (const chunk of chunks) {
         await ctx.reply(chunk, {
@@ -112,7 +330,7 @@ Only respond with the number, nothing else.`
       }
     } catch (error) {
       console.error('Error sending formatted response:', error);
-      await ctx.reply('I apologize, but I encountered an error while formatting the response.');
+      await ctx.reply(t(locale, 'answer.formatError'));
     }
   }
 
@@ -150,7 +368,7 @@ Only respond with the number, nothing else.`
     return formatted;
   }
 
-  protected splitResponse(text: string): string[] {
+  protected splitResponse(text: string, locale: Locale = DEFAULT_LOCALE): string[] {
     const MAX_LENGTH = 4000; // Leave some room for formatting
     const chunks: string[] = [];
     
@@ -174,8 +392,8 @@ Only respond with the number, nothing else.`
 
       // Add continuation marker if there's more
       if (text.length > 0) {
-        chunks[chunks.length - 1] += '\n\n<i>(continued...)</i>';
-        text = '<i>(continuation)</i>\n\n' + text;
+        chunks[chunks.length - 1] += `\n\n<i>${t(locale, 'answer.continued')}</i>`;
+        text = `<i>${t(locale, 'answer.continuation')}</i>\n\n` + text;
       }
     }
 
@@ -189,17 +407,11 @@ export class FatwaAgent extends BaseIslamicAgent {
       const question = ctx.match?.toString();
       
       if (!question) {
-        await ctx.reply('Please provide a question after the /fatwa command.');
+        await ctx.reply(t(this.localeForChat(ctx), 'command.missingQuestion', { command: 'fatwa' }));
         return;
       }
 
-      if (!ctx.chat?.id) {
-        await ctx.reply('This command can only be used in a group chat.');
-        return;
-      }
-
-      const response = await this.generateResponse(question);
-      await this.replyWithFormattedResponse(ctx, response);
+      await this.streamAnswer(ctx, question);
     });
   }
 
@@ -211,7 +423,7 @@ export class FatwaAgent extends BaseIslamicAgent {
     ];
   }
 
-  protected getTopics(): string[] {
+  public getTopics(): string[] {
     return [
       'General Islamic rulings',
       'Malaysian Islamic context',
@@ -252,17 +464,11 @@ export class MazhabAgent extends BaseIslamicAgent {
       const question = ctx.match?.toString();
       
       if (!question) {
-        await ctx.reply('Please provide a question after the /mazhab command.');
-        return;
-      }
-
-      if (!ctx.chat?.id) {
-        await ctx.reply('This command can only be used in a group chat.');
+        await ctx.reply(t(this.localeForChat(ctx), 'command.missingQuestion', { command: 'mazhab' }));
         return;
       }
 
-      const response = await this.generateResponse(question);
-      await this.replyWithFormattedResponse(ctx, response);
+      await this.streamAnswer(ctx, question);
     });
   }
 
@@ -274,7 +480,7 @@ export class MazhabAgent extends BaseIslamicAgent {
     ];
   }
 
-  protected getTopics(): string[] {
+  public getTopics(): string[] {
     return [
       'Shafi\'i school of thought',
       'Comparative Islamic jurisprudence',
@@ -313,17 +519,11 @@ export class JakimAgent extends BaseIslamicAgent {
       const question = ctx.match?.toString();
       
       if (!question) {
-        await ctx.reply('Please provide a question after the /jakim command.');
+        await ctx.reply(t(this.localeForChat(ctx), 'command.missingQuestion', { command: 'jakim' }));
         return;
       }
 
-      if (!ctx.chat?.id) {
-        await ctx.reply('This command can only be used in a group chat.');
-        return;
-      }
-
-      const response = await this.generateResponse(question);
-      await this.replyWithFormattedResponse(ctx, response);
+      await this.streamAnswer(ctx, question);
     });
   }
 
@@ -335,7 +535,7 @@ export class JakimAgent extends BaseIslamicAgent {
     ];
   }
 
-  protected getTopics(): string[] {
+  public getTopics(): string[] {
     return [
       'JAKIM administration',
       'Halal certification',
@@ -375,17 +575,11 @@ export class MalaysianFatwaAgent extends BaseIslamicAgent {
       const question = ctx.match?.toString();
       
       if (!question) {
-        await ctx.reply('Please provide a question after the /malaysianfatwa command.');
+        await ctx.reply(t(this.localeForChat(ctx), 'command.missingQuestion', { command: 'malaysianfatwa' }));
         return;
       }
 
-      if (!ctx.chat?.id) {
-        await ctx.reply('This command can only be used in a group chat.');
-        return;
-      }
-
-      const response = await this.generateResponse(question);
-      await this.replyWithFormattedResponse(ctx, response);
+      await this.streamAnswer(ctx, question);
     });
   }
 
@@ -397,7 +591,7 @@ export class MalaysianFatwaAgent extends BaseIslamicAgent {
     ];
   }
 
-  protected getTopics(): string[] {
+  public getTopics(): string[] {
     return [
       'Malaysian fatwa rulings',
       'State-specific Islamic rulings',
@@ -411,9 +605,10 @@ export class MalaysianFatwaAgent extends BaseIslamicAgent {
     return `You are an expert in Malaysian Islamic fatwa.
 Your role is to:
 - Reference decisions by the National Fatwa Council
-- Consider state-specific fatwa rulings
+- Give state-specific fatwa rulings, naming the state authority that issued them
 - Explain the context and reasoning behind fatwa decisions
-- Highlight differences between state fatwa when applicable
+- State explicitly whose position each ruling is: the National Fatwa Council or a named state's fatwa committee or mufti
+- Highlight the states whose fatwa differ, and how, when applicable
 - Guide users on finding official fatwa resources
 
 Format your responses using these rules:
@@ -436,17 +631,11 @@ export class IbadhahAgent extends BaseIslamicAgent {
       const question = ctx.match?.toString();
       
       if (!question) {
-        await ctx.reply('Please provide a question after the /ibadah command.');
-        return;
-      }
-
-      if (!ctx.chat?.id) {
-        await ctx.reply('This command can only be used in a group chat.');
+        await ctx.reply(t(this.localeForChat(ctx), 'command.missingQuestion', { command: 'ibadah' }));
         return;
       }
 
-      const response = await this.generateResponse(question);
-      await this.replyWithFormattedResponse(ctx, response);
+      await this.streamAnswer(ctx, question);
     });
   }
 
@@ -458,7 +647,7 @@ export class IbadhahAgent extends BaseIslamicAgent {
     ];
   }
 
-  protected getTopics(): string[] {
+  public getTopics(): string[] {
     return [
       'Islamic worship practices',
       'Malaysian Muslim customs',
@@ -476,6 +665,7 @@ Your role is to:
 - Reference relevant fatwa on cultural practices
 - Consider both Islamic principles and local context
 - Guide on proper conduct of Islamic practices in Malaysian setting
+- Leave zakat arithmetic to the /zakat calculator, since nisab and rates differ by state and change every year; when given a calculator result, explain the fiqh around it without changing its figures
 
 Format your responses using these rules:
 1. Use ### for section headers
@@ -504,17 +694,11 @@ export class OpinionAgent extends BaseIslamicAgent {
       const question = ctx.match?.toString();
       
       if (!question) {
-        await ctx.reply('Please provide a question after the /opinion command.');
+        await ctx.reply(t(this.localeForChat(ctx), 'command.missingQuestion', { command: 'opinion' }));
         return;
       }
 
-      if (!ctx.chat?.id) {
-        await ctx.reply('This command can only be used in a group chat.');
-        return;
-      }
-
-      const response = await this.generateResponse(question);
-      await this.replyWithFormattedResponse(ctx, response);
+      await this.streamAnswer(ctx, question);
     });
   }
 
@@ -532,7 +716,7 @@ export class OpinionAgent extends BaseIslamicAgent {
     ];
   }
 
-  protected getTopics(): string[] {
+  public getTopics(): string[] {
     return [
       // English topics
       'Islamic opinions',
@@ -549,12 +733,21 @@ export class OpinionAgent extends BaseIslamicAgent {
     ];
   }
 
-  public async shouldRespond(message: string): Promise<boolean> {
-    // Always return true for opinion agent as it should handle all natural language queries
-    return true;
+  public async shouldRespond(message: string): Promise<RelevanceDecision> {
+    // Opinion agent handles all natural language queries, so it is always fully relevant
+    return {
+      score: 1,
+      reason: 'Opinion agent covers every question',
+      matchedKeywords: this.matchKeywords(message)
+    };
   }
 
-  public override async generateResponse(question: string): Promise<string> {
+  public override async generateResponse(
+    question: string,
+    history: DeepseekMessage[] = [],
+    onProgress?: StreamListener,
+    context: ResponseContext = {}
+  ): Promise<string> {
     try {
       console.log('=== Generating Comprehensive Opinion ===');
       console.log('Question:', question);
@@ -565,7 +758,8 @@ export class OpinionAgent extends BaseIslamicAgent {
         this.otherAgents.map(async (agent, index) => {
           const agentType = this.getAgentType(index);
           console.log(`Requesting response from ${agentType}...`);
-          const response = await agent.generateResponse(question);
+          // The length preference applies to the synthesis, not to the perspectives feeding it
+          const response = await agent.generateResponse(question, history, undefined, { ...context, answerLength: undefined });
           console.log(`Received response from ${agentType}`);
           return {
             type: agentType,
@@ -594,8 +788,9 @@ export class OpinionAgent extends BaseIslamicAgent {
       const response = await this.createChatCompletion([
         { 
           role: 'system', 
-          content: this.getSystemPrompt() 
+          content: this.buildSystemPrompt(context) 
         },
+        ...history,
         {
           role: 'user',
           content: `Analyze this question from multiple Islamic perspectives and provide a comprehensive response:
@@ -608,13 +803,13 @@ ${perspectives}
 
 Please synthesize these viewpoints into a well-structured response that addresses all aspects of the question.`
         }
-      ], 0.7, 2000);
+      ], undefined, undefined, onProgress);
 
       console.log('Successfully generated comprehensive opinion');
-      return response || 'I apologize, but I could not generate a comprehensive opinion at this time.';
+      return response || t(localeFor(context), 'answer.emptyOpinion');
     } catch (error) {
       console.error('Error generating comprehensive opinion:', error);
-      return 'I apologize, but I encountered an error while processing your question. Please try again later.';
+      return t(localeFor(context), 'answer.error');
     }
   }
 
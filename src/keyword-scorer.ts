@@ -0,0 +1,250 @@
+import { RelevanceDecision } from './islamic-agents';
+
+export interface ScorableAgent {
+  name: string;
+  agent: {
+    getKeywords(): string[];
+    getTopics(): string[];
+  };
+}
+
+// Chat shorthand and spelling variants commonly seen in Malaysian groups
+const SHORTHAND: Record<string, string> = {
+  yg: 'yang',
+  utk: 'untuk',
+  dgn: 'dengan',
+  dlm: 'dalam',
+  pd: 'pada',
+  org: 'orang',
+  sbb: 'sebab',
+  mcm: 'macam',
+  nk: 'nak',
+  ape: 'apa',
+  bole: 'boleh',
+  tk: 'tak',
+  hkm: 'hukum',
+  hukom: 'hukum',
+  sembahyang: 'solat',
+  sembayang: 'solat',
+  shalat: 'solat',
+  salat: 'solat',
+  sholat: 'solat',
+  syafie: 'shafii',
+  syafii: 'shafii',
+  hadis: 'hadith',
+  syariah: 'shariah',
+  fiqah: 'fiqh',
+  zakah: 'zakat'
+};
+
+export const STOPWORDS = new Set([
+  // English
+  'a', 'an', 'the', 'of', 'in', 'on', 'to', 'for', 'and', 'or', 'is', 'are', 'be',
+  'what', 'how', 'can', 'i', 'my', 'me', 'we', 'it', 'this', 'that', 'with', 'about',
+  'do', 'does', 'from', 'by', 'as', 'at', 'if',
+  // Malay
+  'yang', 'dan', 'atau', 'di', 'ke', 'dari', 'daripada', 'ini', 'itu', 'apa', 'ada',
+  'saya', 'aku', 'kita', 'kami', 'nak', 'boleh', 'tak', 'tidak', 'ke', 'ka', 'ni',
+  'tu', 'la', 'lah', 'untuk', 'dengan', 'pada', 'dalam', 'macam', 'mana', 'ialah', 'adalah'
+]);
+
+// Too broad to say anything about which agent fits when they appear in topics
+const GENERIC_TERMS = new Set([
+  'islam', 'islamic', 'muslim', 'malaysia', 'malaysian', 'religious', 'guidance', 'practice'
+]);
+
+// Roots starting with m, which mem- + vowel keeps ("memakan" from "makan") where it usually
+// stands for a dropped p ("memukul" from "pukul")
+const M_ROOTS = ['makan', 'minum', 'mandi', 'masak', 'masuk', 'milik', 'minta', 'mohon', 'maaf', 'mula', 'main', 'mati', 'malu', 'marah', 'mimpi'];
+
+const PARTICLES = ['lah', 'kah', 'tah', 'pun'];
+const POSSESSIVES = ['nya', 'ku', 'mu'];
+const MIN_STEM_LENGTH = 3;
+
+const KEYWORD_WEIGHT = 1;
+const PHRASE_BONUS = 0.5;
+const TOPIC_WEIGHT = 0.3;
+
+/**
+ * Splits text into lowercase word tokens. Apostrophes are dropped so that
+ * "shafi'i" and "shafii" agree, hyphenated reduplication ("anak-anak")
+ * collapses to one word and common chat shorthand is expanded.
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .normalize('NFKC')
+    .replace(/['’`]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 0);
+
+  const tokens: string[] = [];
+  words.forEach((word, index) => {
+    // "x" stands for "tak" only before a word ("x boleh"), not in "2 x" or "3 x sehari"
+    const negation = word === 'x' && /^\p{L}{2,}$/u.test(words[index + 1] || '') && !/^\d+$/.test(words[index - 1] || '');
+    const expanded = negation ? 'tak' : SHORTHAND[word] || word;
+    // Reduplicated words arrive as two identical tokens after splitting on "-"
+    if (tokens[tokens.length - 1] !== expanded) {
+      tokens.push(expanded);
+    }
+  });
+  return tokens;
+}
+
+function stripSuffix(word: string, suffixes: string[]): string {
+  for (const suffix of suffixes) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+function stripMalayPrefix(word: string): { stem: string; stripped: boolean } {
+  const rules: [RegExp, (match: RegExpMatchArray) => string][] = [
+    // meN-/peN- assimilation: meny- -> s, men- + vowel -> t, mem- + vowel -> p
+    [/^(?:meny|peny)([aeiou].*)$/, m => `s${m[1]}`],
+    [/^(?:meng|peng)(.*)$/, m => m[1]],
+    [/^(?:men|pen)([aeiou].*)$/, m => `t${m[1]}`],
+    [/^(?:mem|pem)([aeiou].*)$/, m => (M_ROOTS.some(root => `m${m[1]}`.startsWith(root)) ? `m${m[1]}` : `p${m[1]}`)],
+    [/^(?:mem|pem|men|pen)(.*)$/, m => m[1]],
+    [/^(?:me|pe)([lrwy].*)$/, m => m[1]],
+    [/^(?:ber|ter|per)(.*)$/, m => m[1]],
+    [/^(?:be)(r.*)$/, m => m[1]],
+    [/^di(.*)$/, m => m[1]]
+  ];
+
+  for (const [pattern, rewrite] of rules) {
+    const match = word.match(pattern);
+    if (match) {
+      const stem = rewrite(match);
+      if (stem.length >= MIN_STEM_LENGTH) {
+        return { stem, stripped: true };
+      }
+    }
+  }
+  return { stem: word, stripped: false };
+}
+
+/**
+ * Light stemmer covering the Malay affixes that matter for matching
+ * (particles, possessives, meN-/peN-/ber-/ter-/di-, -kan/-an/-i and ke-...-an)
+ * plus English plural and -ing/-ed endings on words without a Malay affix. It only needs to map a keyword and
+ * its inflected forms onto the same stem, not produce dictionary roots.
+ */
+export function stem(word: string): string {
+  if (word.length <= MIN_STEM_LENGTH || /[^a-z]/.test(word)) {
+    return word;
+  }
+
+  let current = stripSuffix(word, PARTICLES);
+  current = stripSuffix(current, POSSESSIVES);
+
+  // ke-...-an circumfix, e.g. kebenaran -> benar
+  const circumfix = current.match(/^ke(.+)an$/);
+  if (circumfix && circumfix[1].length >= MIN_STEM_LENGTH) {
+    return circumfix[1];
+  }
+
+  const { stem: withoutPrefix, stripped } = stripMalayPrefix(current);
+  current = withoutPrefix;
+  // -i follows a consonant; after a vowel it belongs to the root, as in "pakai"
+  current = stripSuffix(current, stripped && /[^aeiou]i$/.test(current) ? ['kan', 'an', 'i'] : ['kan', 'an']);
+  // A Malay word is not also English: "menulis" -> "tulis", not "tuli"
+  if (current !== word) {
+    return current;
+  }
+
+  // English inflections. Malay words end in a vowel and s ("tulis", "ikhlas"), English plurals rarely do
+  if (current.endsWith('ies') && current.length > 4) {
+    current = `${current.slice(0, -3)}y`;
+  } else if (/[^aeious]s$/.test(current)) {
+    current = stripSuffix(current, ['s']);
+  }
+  return stripSuffix(current, ['ing', 'ed']);
+}
+
+function stemAll(text: string): string[] {
+  return tokenize(text).map(stem);
+}
+
+function containsSequence(haystack: string[], needle: string[]): boolean {
+  if (needle.length === 0) {
+    return false;
+  }
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((token, offset) => haystack[i + offset] === token)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Scores agents against a question using only their declared keywords and
+ * topics. Keywords shared by several agents are weighted down so that terms
+ * like "hukum" do not decide between agents on their own.
+ */
+export class KeywordScorer {
+  public score(question: string, candidates: ScorableAgent[]): Map<string, RelevanceDecision> {
+    const questionStems = stemAll(question);
+    const questionStemSet = new Set(questionStems);
+
+    const keywordSets = candidates.map(({ agent }) =>
+      agent.getKeywords().map(keyword => ({ keyword, stems: stemAll(keyword) }))
+    );
+
+    // How many agents declare each stemmed keyword
+    const keywordFrequency = new Map<string, number>();
+    for (const keywords of keywordSets) {
+      for (const key of new Set(keywords.map(({ stems }) => stems.join(' ')))) {
+        keywordFrequency.set(key, (keywordFrequency.get(key) || 0) + 1);
+      }
+    }
+
+    const decisions = new Map<string, RelevanceDecision>();
+
+    candidates.forEach(({ name, agent }, index) => {
+      let raw = 0;
+      const matchedKeywords: string[] = [];
+      const seen = new Set<string>();
+
+      for (const { keyword, stems } of keywordSets[index]) {
+        const key = stems.join(' ');
+        if (seen.has(key) || !containsSequence(questionStems, stems)) {
+          continue;
+        }
+        seen.add(key);
+        matchedKeywords.push(keyword);
+        const weight = KEYWORD_WEIGHT + PHRASE_BONUS * (stems.length - 1);
+        raw += weight / (keywordFrequency.get(key) || 1);
+      }
+
+      const topicStems = new Set(
+        agent.getTopics()
+          .flatMap(topic => tokenize(topic))
+          .filter(token => !STOPWORDS.has(token) && !GENERIC_TERMS.has(token))
+          .map(stem)
+      );
+      const matchedTopics = [...topicStems].filter(token => questionStemSet.has(token) && !seen.has(token));
+      raw += matchedTopics.length * TOPIC_WEIGHT;
+
+      const score = 1 - Math.exp(-raw);
+      const reasonParts = [];
+      if (matchedKeywords.length) {
+        reasonParts.push(`keywords: ${matchedKeywords.join(', ')}`);
+      }
+      if (matchedTopics.length) {
+        reasonParts.push(`topic terms: ${matchedTopics.join(', ')}`);
+      }
+
+      decisions.set(name, {
+        score,
+        reason: reasonParts.length ? `Local match on ${reasonParts.join('; ')}` : 'No local keyword or topic match',
+        matchedKeywords
+      });
+    });
+
+    return decisions;
+  }
+}
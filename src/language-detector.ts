@@ -0,0 +1,84 @@
+import { tokenize } from './keyword-scorer';
+
+/**
+ * 'rojak' is the Malay/English mix common in Malaysian chats; 'unknown'
+ * means the text had no words that tell the languages apart (e.g. a lone
+ * religious term).
+ */
+export type DetectedLanguage = 'ms' | 'en' | 'rojak' | 'ar' | 'unknown';
+
+export interface LanguageDetection {
+  language: DetectedLanguage;
+  // Jawi is Malay written in Arabic script, so script and language are reported separately
+  script: 'latin' | 'arabic';
+}
+
+export type ReplyLocale = 'ms' | 'en';
+
+// Function words and chat words only; religious terms are shared by both languages
+const MALAY_WORDS = new Set([
+  'yang', 'dan', 'atau', 'di', 'ke', 'dari', 'daripada', 'ini', 'itu', 'ni', 'tu', 'apa', 'ada',
+  'saya', 'aku', 'kita', 'kami', 'awak', 'anda', 'kamu', 'dia', 'mereka', 'nak', 'hendak', 'mahu',
+  'boleh', 'tak', 'tidak', 'bukan', 'la', 'lah', 'kah', 'je', 'jer', 'sahaja', 'pun', 'untuk',
+  'dengan', 'pada', 'dalam', 'macam', 'mana', 'ialah', 'adalah', 'bagaimana', 'kenapa', 'mengapa',
+  'siapa', 'bila', 'berapa', 'sudah', 'dah', 'belum', 'akan', 'juga', 'jika', 'kalau', 'kerana',
+  'sebab', 'tapi', 'tetapi', 'orang', 'perlu', 'kena', 'buat', 'cara', 'betul', 'lagi', 'tolong',
+  'terima', 'kasih', 'selamat', 'pagi', 'petang', 'malam', 'khabar', 'hai', 'helo', 'tanya', 'soalan',
+  'ye', 'ya', 'camne', 'cemana', 'ok', 'nya'
+]);
+
+const ENGLISH_WORDS = new Set([
+  'the', 'a', 'an', 'is', 'are', 'was', 'were', 'be', 'been', 'what', 'how', 'why', 'when', 'who',
+  'which', 'can', 'could', 'should', 'would', 'will', 'do', 'does', 'did', 'i', 'you', 'my', 'your',
+  'we', 'our', 'he', 'she', 'they', 'their', 'it', 'this', 'that', 'these', 'those', 'with', 'about',
+  'of', 'in', 'on', 'to', 'for', 'and', 'or', 'not', 'if', 'there', 'have', 'has', 'allowed',
+  'please', 'thanks', 'thank', 'because', 'but', 'from', 'by', 'as', 'at', 'me', 'any', 'good',
+  'morning', 'hello', 'hi', 'hey', 'permissible', 'ruling', 'question'
+]);
+
+// Letters used in Jawi but not in Arabic
+const JAWI_LETTERS = /[چڠڤݢۏڽ]/;
+const ARABIC_LETTER = /\p{Script=Arabic}/u;
+
+// Share of one language below which a mix still counts as that language
+const MIX_THRESHOLD = 0.25;
+
+export function detectLanguage(text: string): LanguageDetection {
+  const letters = [...text].filter(char => /\p{L}/u.test(char));
+  const arabicLetters = letters.filter(char => ARABIC_LETTER.test(char)).length;
+  if (letters.length > 0 && arabicLetters / letters.length >= 0.5) {
+    return { language: JAWI_LETTERS.test(text) ? 'ms' : 'ar', script: 'arabic' };
+  }
+
+  let malay = 0;
+  let english = 0;
+  for (const token of tokenize(text)) {
+    if (MALAY_WORDS.has(token)) {
+      malay++;
+    }
+    if (ENGLISH_WORDS.has(token)) {
+      english++;
+    }
+  }
+
+  const total = malay + english;
+  if (total === 0) {
+    return { language: 'unknown', script: 'latin' };
+  }
+  const malayShare = malay / total;
+  if (malayShare >= 1 - MIX_THRESHOLD) {
+    return { language: 'ms', script: 'latin' };
+  }
+  if (malayShare <= MIX_THRESHOLD) {
+    return { language: 'en', script: 'latin' };
+  }
+  return { language: 'rojak', script: 'latin' };
+}
+
+/**
+ * Language for the bot's own canned replies. Only clearly English messages
+ * get English; everything else gets Malay, the language of most groups.
+ */
+export function replyLocale(detection: LanguageDetection): ReplyLocale {
+  return detection.language === 'en' ? 'en' : 'ms';
+}
@@ -0,0 +1,252 @@
+import axios, { AxiosInstance } from 'axios';
+import { readFileSync } from 'fs';
+
+export interface DeepseekMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/** Receives the text generated so far each time a streamed chunk arrives. */
+export type StreamListener = (partialText: string) => void;
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  createChatCompletion(messages: DeepseekMessage[], options?: CompletionOptions): Promise<string>;
+  streamChatCompletion(
+    messages: DeepseekMessage[],
+    onProgress: StreamListener,
+    options?: CompletionOptions
+  ): Promise<string>;
+}
+
+export type ProviderType = 'deepseek' | 'openai' | 'scripted';
+
+export interface ProviderConfig {
+  provider: ProviderType;
+  apiKey?: string;
+  baseURL?: string;
+  model?: string;
+  temperature: number;
+  maxTokens: number;
+  script?: string[];
+}
+
+const DEEPSEEK_BASE_URL = 'https://api.deepseek.com/v1';
+const DEEPSEEK_MODEL = 'deepseek-chat';
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  public readonly name: string = 'openai';
+  public readonly model: string;
+  protected client: AxiosInstance;
+  protected defaults: { temperature: number; maxTokens: number };
+
+  constructor(config: ProviderConfig) {
+    if (!config.baseURL) {
+      throw new Error(`No base URL configured for ${config.provider} provider`);
+    }
+    if (!config.model) {
+      throw new Error(`No model configured for ${config.provider} provider`);
+    }
+
+    this.model = config.model;
+    this.defaults = {
+      temperature: config.temperature,
+      maxTokens: config.maxTokens
+    };
+    this.client = axios.create({
+      baseURL: config.baseURL,
+      headers: {
+        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+        'Content-Type': 'application/json'
+      }
+    });
+  }
+
+  public async createChatCompletion(
+    messages: DeepseekMessage[],
+    options: CompletionOptions = {}
+  ): Promise<string> {
+    try {
+      const { data } = await this.client.post('/chat/completions', {
+        model: this.model,
+        messages,
+        temperature: options.temperature ?? this.defaults.temperature,
+        max_tokens: options.maxTokens ?? this.defaults.maxTokens
+      });
+
+      return data.choices[0]?.message?.content || '';
+    } catch (error) {
+      console.error(`Error calling ${this.name} API (${this.model}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Requests a server-sent event stream and reports the accumulated text
+   * after every delta. Resolves with the complete text.
+   */
+  public async streamChatCompletion(
+    messages: DeepseekMessage[],
+    onProgress: StreamListener,
+    options: CompletionOptions = {}
+  ): Promise<string> {
+    try {
+      const { data } = await this.client.post('/chat/completions', {
+        model: this.model,
+        messages,
+        temperature: options.temperature ?? this.defaults.temperature,
+        max_tokens: options.maxTokens ?? this.defaults.maxTokens,
+        stream: true
+      }, { responseType: 'stream' });
+
+      let text = '';
+      let buffer = '';
+      for await (const chunk of data) {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !payload || payload === '[DONE]') {
+            continue;
+          }
+          const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            onProgress(text);
+          }
+        }
+      }
+
+      return text;
+    } catch (error) {
+      console.error(`Error streaming from ${this.name} API (${this.model}):`, error);
+      throw error;
+    }
+  }
+}
+
+export class DeepseekProvider extends OpenAICompatibleProvider {
+  public readonly name: string = 'deepseek';
+
+  constructor(config: ProviderConfig) {
+    if (!config.apiKey) {
+      throw new Error('DEEPSEEK_API_KEY is not set in environment variables');
+    }
+
+    super({
+      ...config,
+      baseURL: config.baseURL || DEEPSEEK_BASE_URL,
+      model: config.model || DEEPSEEK_MODEL
+    });
+  }
+}
+
+type ScriptedReply = string | ((messages: DeepseekMessage[], options: CompletionOptions) => string);
+
+/**
+ * In-process provider that replays canned replies instead of calling an API.
+ * Replies are consumed in order; the last one repeats once the script runs out.
+ * Every call is recorded in `calls` so tests can inspect the prompts sent.
+ */
+export class ScriptedProvider implements LLMProvider {
+  public readonly name: string = 'scripted';
+  public readonly model: string = 'scripted';
+  public readonly calls: { messages: DeepseekMessage[]; options: CompletionOptions }[] = [];
+  private replies: ScriptedReply[];
+
+  constructor(replies: ScriptedReply[] = []) {
+    this.replies = [...replies];
+  }
+
+  public push(...replies: ScriptedReply[]) {
+    this.replies.push(...replies);
+  }
+
+  public async createChatCompletion(
+    messages: DeepseekMessage[],
+    options: CompletionOptions = {}
+  ): Promise<string> {
+    this.calls.push({ messages, options });
+
+    const reply = this.replies.length > 1 ? this.replies.shift() : this.replies[0];
+    if (reply === undefined) {
+      return '';
+    }
+    return typeof reply === 'function' ? reply(messages, options) : reply;
+  }
+
+  /** Replays the scripted reply word by word to exercise streaming consumers. */
+  public async streamChatCompletion(
+    messages: DeepseekMessage[],
+    onProgress: StreamListener,
+    options: CompletionOptions = {}
+  ): Promise<string> {
+    const text = await this.createChatCompletion(messages, options);
+    const words = text.split(/(?<=\s)/);
+    let partial = '';
+    for (const word of words) {
+      partial += word;
+      onProgress(partial);
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    return text;
+  }
+}
+
+export function createProvider(config: ProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case 'deepseek':
+      return new DeepseekProvider(config);
+    case 'openai':
+      return new OpenAICompatibleProvider(config);
+    case 'scripted':
+      return new ScriptedProvider(config.script);
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+}
+
+/**
+ * Reads provider settings from the environment. Deployment-wide values come
+ * from LLM_* variables; a specific agent can override any of them with a
+ * prefixed variable, e.g. OPINION_LLM_MODEL or MAZHAB_LLM_BASE_URL.
+ */
+export function loadProviderConfig(
+  env: NodeJS.ProcessEnv,
+  agentName?: string,
+  defaults: Partial<ProviderConfig> = {}
+): ProviderConfig {
+  const read = (key: string): string | undefined => {
+    const scoped = agentName ? env[`${agentName.toUpperCase()}_LLM_${key}`] : undefined;
+    return scoped || env[`LLM_${key}`] || undefined;
+  };
+
+  const provider = (read('PROVIDER') || 'deepseek').toLowerCase() as ProviderType;
+  const scriptFile = read('SCRIPT_FILE');
+
+  return {
+    provider,
+    apiKey: read('API_KEY') || env.DEEPSEEK_API_KEY,
+    baseURL: read('BASE_URL') || defaults.baseURL,
+    model: read('MODEL') || defaults.model,
+    temperature: parseNumber(read('TEMPERATURE'), defaults.temperature ?? 0.7),
+    maxTokens: parseNumber(read('MAX_TOKENS'), defaults.maxTokens ?? 1000),
+    script: scriptFile ? JSON.parse(readFileSync(scriptFile, 'utf8')) : undefined
+  };
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
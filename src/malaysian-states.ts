@@ -0,0 +1,34 @@
+export interface MalaysianState {
+  id: string;
+  name: string;
+  // Other ways people write the state's name
+  aliases: string[];
+}
+
+export const MALAYSIAN_STATES: MalaysianState[] = [
+  { id: 'johor', name: 'Johor', aliases: ['jb'] },
+  { id: 'kedah', name: 'Kedah', aliases: [] },
+  { id: 'kelantan', name: 'Kelantan', aliases: ['kltn'] },
+  { id: 'melaka', name: 'Melaka', aliases: ['malacca'] },
+  { id: 'nsembilan', name: 'Negeri Sembilan', aliases: ['negeri sembilan', 'n9', 'ns'] },
+  { id: 'pahang', name: 'Pahang', aliases: [] },
+  { id: 'perak', name: 'Perak', aliases: [] },
+  { id: 'perlis', name: 'Perlis', aliases: [] },
+  { id: 'pinang', name: 'Pulau Pinang', aliases: ['pulau pinang', 'penang', 'pp'] },
+  { id: 'sabah', name: 'Sabah', aliases: [] },
+  { id: 'sarawak', name: 'Sarawak', aliases: [] },
+  { id: 'selangor', name: 'Selangor', aliases: ['sel'] },
+  { id: 'terengganu', name: 'Terengganu', aliases: ['ganu', 'trg'] },
+  { id: 'wilayah', name: 'Wilayah Persekutuan', aliases: ['wilayah persekutuan', 'wp', 'kuala lumpur', 'kl', 'putrajaya', 'labuan'] }
+];
+
+/** Looks a state up by id, name or alias, ignoring case and spacing. */
+export function findState(input: string | undefined): MalaysianState | undefined {
+  const wanted = (input || '').toLowerCase().replace(/\s+/g, ' ').trim();
+  if (!wanted) {
+    return undefined;
+  }
+  return MALAYSIAN_STATES.find(state =>
+    state.id === wanted || state.name.toLowerCase() === wanted || state.aliases.includes(wanted)
+  );
+}
@@ -0,0 +1,900 @@
+/**
+ * Catalog of everything the bot writes itself (answers come from the LLM).
+ * Malay is the source locale; English must define every key, which the
+ * compiler checks, and Jawi may define a subset and falls back to Malay.
+ *
+ * Messages interpolate `{name}` placeholders. A message with plural forms
+ * picks one by the `count` parameter using the locale's plural rules.
+ */
+export type Locale = 'ms' | 'en' | 'jawi';
+
+export interface PluralMessage {
+  one?: string;
+  other: string;
+}
+
+export type Message = string | PluralMessage;
+
+export type MessageParams = Record<string, string | number>;
+
+export const DEFAULT_LOCALE: Locale = 'ms';
+
+const ms = {
+  // Answers
+  'answer.error': 'Maaf, berlaku ralat semasa memproses soalan anda. Sila cuba lagi sebentar lagi.',
+  'answer.empty': 'Maaf, saya tidak dapat memberikan jawapan buat masa ini.',
+  'answer.emptyOpinion': 'Maaf, saya tidak dapat memberikan pandangan menyeluruh buat masa ini.',
+  'answer.formatError': 'Maaf, berlaku ralat semasa menyusun jawapan.',
+  'answer.continued': '(bersambung...)',
+  'answer.continuation': '(sambungan)',
+  'answer.notUnderstood': 'Maaf, saya kurang faham soalan anda. Boleh nyatakan semula atau gunakan salah satu arahan saya?\n\nTaip /start untuk melihat senarai arahan.',
+  'command.missingQuestion': 'Sila tulis soalan anda selepas arahan /{command}.',
+  'mention.empty': 'Ya? Ada apa yang boleh saya bantu?',
+
+  // Canned replies
+  'smalltalk.greeting': 'Waalaikumussalam! Ada apa yang boleh saya bantu hari ini?',
+  'smalltalk.goodNight': 'Waalaikumussalam! Selamat malam!',
+  'smalltalk.howAreYou': 'Waalaikumussalam! Alhamdulillah, saya sihat. Ada apa yang boleh saya bantu hari ini?',
+  'smalltalk.thanks': 'Sama-sama! Jangan segan bertanya jika ada soalan lagi.',
+  'smalltalk.test': 'Ya, saya ada dan berfungsi dengan baik. Ada apa yang boleh saya bantu?',
+  'smalltalk.status': 'Ya, saya ada dan sedia membantu! Apa yang ingin anda ketahui?',
+  'smalltalk.intro': `Assalamualaikum! Saya Tok Ayah, pembantu ilmu Islam yang khusus dalam konteks Islam di Malaysia. Saya boleh membantu dengan:
+
+• Soalan tentang hukum Islam (fatwa)
+• Memahami pandangan pelbagai mazhab
+• Maklumat tentang garis panduan JAKIM
+• Amalan dan adat Islam di Malaysia
+• Analisis menyeluruh tentang topik Islam
+
+Silakan bertanya apa-apa soalan tentang hal ehwal Islam, dan saya akan cuba membantu anda memahaminya daripada pelbagai perspektif yang sahih.`,
+  'smalltalk.capabilities': `Saya boleh membantu anda dengan beberapa cara:
+
+1. Arahan terus:
+/fatwa - Dapatkan keputusan fatwa
+/mazhab - Ketahui pandangan pelbagai mazhab
+/jakim - Dapatkan garis panduan JAKIM
+/malaysianfatwa - Rujuk keputusan fatwa Malaysia
+/ibadah - Ketahui tentang amalan ibadah
+
+2. Perbualan biasa:
+Sebut sahaja "tok ayah" dalam mesej anda dan tanya soalan anda dalam Bahasa Melayu atau Inggeris.
+
+Contohnya:
+• "tok ayah, apa hukum..."
+• "tok ayah, what is the ruling on..."
+• "tok ayah, boleh terangkan tentang..."
+
+Saya akan menganalisis soalan anda dan memberikan jawapan yang menyeluruh berdasarkan pelbagai perspektif Islam.`,
+
+  // Onboarding and access
+  'start.group': 'Assalamualaikum! Sebut "tok ayah" bersama soalan anda.',
+  'start.private': `Assalamualaikum {name}! Saya Tok Ayah, pembantu ilmu Islam dalam konteks Malaysia.
+
+Dalam sembang peribadi ini, tanya sahaja soalan anda terus, tanpa perlu menyebut "tok ayah". Soalan susulan akan diingati selama 30 minit.
+
+Arahan:
+/fatwa - Keputusan fatwa
+/mazhab - Pandangan mazhab
+/jakim - Garis panduan JAKIM
+/malaysianfatwa - Keputusan fatwa Malaysia
+/ibadah - Amalan ibadah
+/opinion - Pandangan menyeluruh daripada semua agen
+/ayat 2:255 - Papar ayat al-Quran
+/hadis bukhari 1 - Papar hadis
+/negeri selangor - Tetapkan negeri anda untuk fatwa negeri
+/waktusolat sgr01 - Waktu solat hari ini
+/hijri - Tarikh Hijri dan peristiwa akan datang
+/zakat - Kalkulator zakat
+/faraid 100000 isteri, 2 anak lelaki - Pembahagian faraid
+/kiblat - Arah kiblat dari lokasi anda
+/settings - Tetapan`,
+  'private.off': 'Maaf, Tok Ayah hanya menjawab soalan dalam kumpulan yang diluluskan.',
+  'private.notAllowed': 'Maaf, sembang peribadi dengan Tok Ayah terhad kepada pengguna yang diluluskan. Sila hubungi pentadbir kumpulan anda.',
+  'group.notApproved': 'Assalamualaikum! Kumpulan ini belum diluluskan untuk menggunakan Tok Ayah. Pemilik bot telah dimaklumkan.',
+  'group.approved': 'Alhamdulillah, kumpulan ini kini boleh menggunakan Tok Ayah. Sebut "tok ayah" bersama soalan anda.',
+
+  // Limits
+  'rateLimit.user': '⏳ Sabar sebentar, anda telah bertanya banyak soalan. Sila cuba lagi dalam {count} saat.',
+  'rateLimit.private': '⏳ Sabar sebentar, anda telah bertanya banyak soalan. Sila cuba lagi dalam {count} saat.',
+  'rateLimit.group': '⏳ Kumpulan ini telah mencapai had soalan buat masa ini. Sila cuba lagi dalam {count} saat.',
+  'rateLimit.global': '⏳ Tok Ayah sedang sibuk menjawab soalan lain. Sila cuba lagi dalam {count} saat.',
+
+  // Follow-up buttons
+  'followUp.expired': 'Soalan ini telah tamat tempoh. Sila tanya semula.',
+  'followUp.mazhab': '🕌 Pandangan mazhab lain',
+  'followUp.summary': '📝 Ringkaskan',
+  'followUp.detail': '🔍 Lebih terperinci',
+  'followUp.opinion': '🧭 Tanya semua agen (opinion)',
+  'followUp.translate': '🌐 Terjemah ke Bahasa Inggeris',
+
+  // Settings
+  'agent.disabled': 'Agen ini telah dimatikan oleh admin kumpulan. Lihat /settings.',
+  'agent.disabledShort': 'Agen ini telah dimatikan dalam sembang ini.',
+  'settings.adminOnly': 'Hanya admin kumpulan boleh mengubah tetapan.',
+  'settings.title': '⚙️ Tetapan Tok Ayah',
+  'settings.language': '🌐 Bahasa jawapan: {value}',
+  'settings.agents': '🤖 Agen aktif: {value}',
+  'settings.defaultAgent': '⭐ Agen lalai: {value}',
+  'settings.state': '📍 Negeri: {value}',
+  'settings.zone': '🕌 Zon waktu solat: {value}',
+  'settings.answerLength': '📏 Panjang jawapan: {value}',
+  'settings.greetings': '👋 Balas sapaan: {value}',
+  'settings.none': 'Tiada',
+  'settings.yes': 'Ya',
+  'settings.no': 'Tidak',
+  'settings.language.auto': 'Ikut soalan',
+  'settings.language.ms': 'Bahasa Melayu',
+  'settings.language.en': 'Bahasa Inggeris',
+  'settings.length.short': 'Ringkas',
+  'settings.length.normal': 'Biasa',
+  'settings.length.detailed': 'Terperinci',
+  'settings.button.language': '🌐 Bahasa',
+  'settings.button.agents': '🤖 Agen',
+  'settings.button.defaultAgent': '⭐ Agen lalai',
+  'settings.button.state': '📍 Negeri',
+  'settings.button.answerLength': '📏 Panjang',
+  'settings.button.greetings': '👋 Sapaan: {value}',
+  'settings.button.close': '✖️ Tutup',
+  'settings.button.back': '⬅️ Kembali',
+
+  // Home state
+  'state.usage': 'Penggunaan: /negeri selangor (atau /negeri padam untuk membuang)\nNegeri: {states}',
+  'state.current': '📍 Negeri anda: {value}',
+  'state.currentGroup': '📍 Negeri kumpulan: {value}',
+  'state.notFound': 'Negeri "{input}" tidak dikenali. Pilih salah satu: {states}',
+  'state.setUser': '📍 Negeri anda ditetapkan kepada {state}. Jawapan fatwa akan mengutamakan pendirian pihak berkuasa agama {state}.',
+  'state.setGroup': '📍 Negeri kumpulan ini ditetapkan kepada {state}. Ahli boleh menetapkan negeri sendiri dengan /negeri.',
+  'state.cleared': '📍 Negeri anda telah dibuang.',
+  'state.clearedGroup': '📍 Negeri kumpulan ini telah dibuang.',
+
+  // Admin commands
+  'cache.clearedQuestion': '{count} jawapan dalam cache untuk soalan itu telah dibuang.',
+  'cache.clearedAll': 'Cache jawapan telah dikosongkan ({count} entri).',
+  'cache.stats': 'Cache jawapan: {entries} entri\nHari ini: {hits} hit, {misses} miss (kadar hit {hitRate}%)',
+
+  // Quran
+  'quran.usage': 'Penggunaan: /ayat 2:255, /ayat 2:255-257 atau /ayat al-baqarah 255',
+  'quran.notFound': 'Ayat {reference} tidak wujud. Surah {surah} mempunyai {count} ayat.',
+  'quran.tooMany': 'Paling banyak {count} ayat boleh dipaparkan sekali gus.',
+  'quran.unavailable': 'Maaf, korpus al-Quran tidak dapat dimuatkan buat masa ini.',
+  'quran.translation': 'Terjemahan: {translator}',
+  'quran.checkTitle': '📖 Semakan rujukan al-Quran',
+  'quran.unknownSurah': '⚠️ **{reference}**: surah ini tidak dapat dikenal pasti. Al-Quran mempunyai 114 surah; sila semak rujukan ini.',
+  'quran.unknownAyah': '⚠️ **{reference}**: ayat ini tidak wujud. Surah {surah} hanya mempunyai {count} ayat.',
+  'quran.nameMismatch': '⚠️ **{reference}**: surah {number} ialah {surah}, bukan {cited}. Teks ayat yang dirujuk dengan nombor itu:',
+  'quran.textMismatch': '⚠️ **{reference}**: teks Arab yang dipetik tidak sepadan dengan ayat ini. Teks sebenar:',
+  'quran.alsoVerified': '✅ Turut disemak: {references}',
+
+  // Hadith
+  'hadith.usage': 'Penggunaan: /hadis bukhari 1\nKoleksi: {collections}',
+  'hadith.notImportedCommand': 'Koleksi {collection} belum diimport ke dalam Tok Ayah. Semak di {link}',
+  'hadith.notFound': 'Hadis {number} tiada dalam {collection} ({count} hadis diimport).',
+  'hadith.book': 'Kitab: {book}',
+  'hadith.grade': 'Darjat: {grade}',
+  'hadith.grade.sahih': 'Sahih',
+  'hadith.grade.hasan': 'Hasan',
+  'hadith.grade.daif': "Da'if (lemah)",
+  'hadith.grade.maudu': "Maudu' (palsu)",
+  'hadith.gradeUnknown': 'darjat tidak dinyatakan',
+  'hadith.checkTitle': '📜 Semakan rujukan hadis',
+  'hadith.notImported': 'ℹ️ **{reference}**: belum dapat disemak kerana koleksi ini belum diimport. Semak di {link}',
+  'hadith.missing': '⚠️ **{reference}**: tiada hadis bernombor ini dalam {collection} yang diimport ({count} hadis).',
+  'hadith.quoteMismatch': '⚠️ **{reference}**: teks yang dipetik tidak sepadan dengan hadis bernombor ini.',
+  'hadith.correction': 'Teks itu sepadan dengan **{reference}**:',
+
+  // Fatwa knowledge base
+  'kb.sources': '📚 Sumber',
+  'kb.related': '📚 Dokumen fatwa berkaitan',
+  'kb.national': 'Kebangsaan',
+  'kb.adminOnly': 'Hanya admin boleh mengurus dokumen fatwa.',
+  'kb.addUsage': 'Muat naik dokumen ({extensions}) dengan kapsyen "/addfatwa negeri=selangor; authority=Jawatankuasa Fatwa Negeri Selangor; date=2019-05-14; title=...", atau balas dokumen itu dengan arahan yang sama.',
+  'kb.unsupported': 'Jenis dokumen ini tidak disokong. Gunakan {extensions}.',
+  'kb.added': '✅ Dokumen ditambah: {title} ({id})',
+  'kb.addFailed': '❌ Dokumen {name} tidak dapat ditambah. Pastikan ia mengandungi teks.',
+  'kb.removeUsage': 'Penggunaan: /removefatwa <id dokumen> (lihat /fatwadocs)',
+  'kb.removed': '🗑️ Dokumen dibuang: {id}',
+  'kb.notFound': 'Tiada dokumen {id} dalam pangkalan fatwa.',
+  'kb.list': '📚 Dokumen fatwa ({count})',
+
+  // Prayer times
+  'prayer.title': 'Waktu solat {zone}',
+  'prayer.name.imsak': 'Imsak',
+  'prayer.name.fajr': 'Subuh',
+  'prayer.name.sunrise': 'Syuruk',
+  'prayer.name.dhuhr': 'Zohor',
+  'prayer.name.asr': 'Asar',
+  'prayer.name.maghrib': 'Maghrib',
+  'prayer.name.isha': 'Isyak',
+  'prayer.note': 'Dikira mengikut kaedah JAKIM (Subuh 20°, Isyak 18°, Asar mazhab Syafie, ihtiyati 2 minit). Waktu rasmi e-Solat JAKIM mungkin berbeza sedikit.',
+  'prayer.askZone': 'Zon mana? Contohnya: /waktusolat sgr01 atau /waktusolat kuantan. Tetapkan negeri anda dengan /negeri supaya zon ibu negeri digunakan secara automatik.',
+  'prayer.notFound': 'Zon "{input}" tidak dikenali. Zon JAKIM:',
+
+  // Hijri calendar
+  'hijri.title': '🌙 Tarikh Hijri',
+  'hijri.upcoming': 'Peristiwa akan datang:',
+  'hijri.daysAway': '{count} hari lagi',
+  'hijri.today': 'hari ini',
+  'hijri.note': 'Tarikh Hijri bermula pada waktu maghrib. Awal Ramadan dan Syawal yang rasmi diisytiharkan oleh Penyimpan Mohor Besar Raja-Raja.',
+  'hijri.usage': 'Penggunaan: /hijri (hari ini), /hijri 31/3/2025 atau /hijri 1 Syawal 1447',
+  'hijri.noSuchDay': 'Tiada tarikh {date} dalam kalendar Hijri Malaysia.',
+  'hijri.event.awalMuharram': 'Awal Muharram (Maal Hijrah)',
+  'hijri.event.asyura': 'Hari Asyura',
+  'hijri.event.maulidurRasul': 'Maulidur Rasul',
+  'hijri.event.israkMikraj': 'Israk dan Mikraj',
+  'hijri.event.nisfuSyaaban': 'Nisfu Syaaban',
+  'hijri.event.awalRamadan': 'Awal Ramadan',
+  'hijri.event.nuzulQuran': 'Nuzul al-Quran',
+  'hijri.event.aidilfitri': 'Hari Raya Aidilfitri',
+  'hijri.event.arafah': 'Hari Arafah',
+  'hijri.event.aidiladha': 'Hari Raya Aidiladha',
+  'hijri.event.tasyrik': 'Hari Tasyrik',
+
+  // Zakat calculator
+  'zakat.chooseType': '🧮 Kalkulator zakat: zakat apa yang hendak dikira?',
+  'zakat.chooseState': 'Kadar negeri mana yang hendak digunakan?',
+  'zakat.type.pendapatan': 'Zakat pendapatan',
+  'zakat.type.simpanan': 'Zakat simpanan',
+  'zakat.type.emas': 'Zakat emas',
+  'zakat.type.perniagaan': 'Zakat perniagaan',
+  'zakat.type.fitrah': 'Zakat fitrah',
+  'zakat.title': '{type} — {state}',
+  'zakat.notConfigured': 'Kadar zakat {state} untuk pengiraan ini belum ditetapkan ({fields}). Pemilik bot boleh menetapkannya dengan /zakatrate.',
+  'zakat.ask.method': 'Kaedah pengiraan yang mana?',
+  'zakat.ask.income': 'Berapakah pendapatan bulanan anda (RM)? Balas mesej ini dengan jumlahnya.',
+  'zakat.ask.deductions': 'Berapakah jumlah tolakan bulanan anda (RM), seperti perbelanjaan asas diri dan tanggungan serta caruman KWSP?',
+  'zakat.ask.balance': 'Berapakah baki terendah simpanan anda sepanjang setahun (haul) yang lalu (RM)?',
+  'zakat.ask.use': 'Emas itu disimpan atau dipakai?',
+  'zakat.ask.grams': 'Berapakah berat emas itu (gram)?',
+  'zakat.ask.assets': 'Berapakah jumlah aset semasa perniagaan pada akhir tahun kewangan (RM): tunai, stok dan hutang belum terima?',
+  'zakat.ask.liabilities': 'Berapakah jumlah liabiliti semasa perniagaan (RM), iaitu hutang yang perlu dibayar dalam tempoh setahun?',
+  'zakat.ask.rate': 'Kadar fitrah yang mana? Pilih mengikut jenis beras yang dimakan.',
+  'zakat.ask.people': 'Berapa orang yang dibayar fitrahnya, termasuk anda?',
+  'zakat.option.kasar': 'Tanpa tolakan (pendapatan kasar)',
+  'zakat.option.bersih': 'Dengan tolakan (pendapatan bersih)',
+  'zakat.option.simpan': 'Disimpan',
+  'zakat.option.pakai': 'Dipakai sebagai perhiasan',
+  'zakat.invalidNumber': 'Sila balas dengan nombor sahaja, contohnya 3500.',
+  'zakat.expired': 'Sesi kalkulator ini telah tamat. Taip /zakat untuk mula semula.',
+  'zakat.notYours': 'Kalkulator ini dibuka oleh pengguna lain. Taip /zakat untuk mula sendiri.',
+  'zakat.work.method': 'Kaedah: {method}',
+  'zakat.work.grossIncome': 'Pendapatan setahun: {income} × 12 = {annual}',
+  'zakat.work.netIncome': 'Pendapatan bersih setahun: ({income} − {deductions}) × 12 = {annual}',
+  'zakat.work.balance': 'Baki terendah sepanjang haul: {balance}',
+  'zakat.work.workingCapital': 'Modal kerja: {assets} − {liabilities} = {capital}',
+  'zakat.work.nisab': 'Nisab {state}: {nisab}',
+  'zakat.work.nisabFromGold': 'Nisab {state}: {grams} g emas × {price} = {nisab}',
+  'zakat.work.belowNisab': '{base} kurang daripada nisab {nisab}, maka tiada zakat wajib.',
+  'zakat.work.reachesNisab': '{base} mencapai nisab {nisab}, maka zakat wajib.',
+  'zakat.work.zakat': 'Zakat: {base} × 2.5% = **{zakat}**',
+  'zakat.work.monthly': 'Jika dibayar secara bulanan: {amount} sebulan',
+  'zakat.work.gold.simpan': 'Emas disimpan: {grams}',
+  'zakat.work.gold.pakai': 'Emas dipakai: {grams}',
+  'zakat.work.belowGoldNisab': '{grams} kurang daripada nisab emas {limit}, maka tiada zakat wajib.',
+  'zakat.work.reachesGoldNisab': '{grams} mencapai nisab emas {limit}, maka zakat wajib ke atas keseluruhannya.',
+  'zakat.work.withinUruf': '{grams} tidak melebihi uruf {state} ({limit}), maka tiada zakat wajib.',
+  'zakat.work.aboveUruf': '{grams} melebihi uruf {state} ({limit}), maka zakat wajib ke atas lebihannya.',
+  'zakat.work.goldValue': 'Nilai emas: {grams} × {price} = {value}',
+  'zakat.work.urufNote': 'Sesetengah negeri mengenakan zakat ke atas keseluruhan emas yang dipakai apabila melebihi uruf. Semak amalan negeri anda.',
+  'zakat.work.fitrah': 'Fitrah: {people} orang × {rate} = **{zakat}**',
+  'zakat.result.due': 'Zakat yang perlu dibayar: {amount}',
+  'zakat.result.none': 'Tiada zakat yang wajib dibayar buat masa ini.',
+  'zakat.note': 'Kiraan ini berdasarkan kadar {state} yang dikemas kini pada {date}. Sahkan dengan pusat zakat negeri anda sebelum membayar.',
+  'zakat.noteDefaults': 'Kiraan ini berdasarkan kadar lalai {state} bagi tahun {year}, yang mungkin telah berubah. Sahkan dengan pusat zakat negeri anda sebelum membayar.',
+  'zakat.explain': '📖 Penjelasan fiqh',
+  'zakat.rates.nisab': 'Nisab {value}',
+  'zakat.rates.emas': 'Emas {value}/g',
+  'zakat.rates.uruf': 'Uruf {value}',
+  'zakat.rates.fitrah': 'Fitrah {value}',
+  'zakat.ratesUsage': 'Penggunaan: /zakatrate <negeri> <nisab|emas|uruf|fitrah> <nilai>\nContoh: /zakatrate selangor emas 400 (RM segram), /zakatrate selangor fitrah 7, 14, 21 (RM seorang mengikut jenis beras). Gunakan "padam" sebagai nilai untuk membuangnya.\nNegeri: {states}',
+  'zakat.ratesUpdated': '✅ Kadar zakat {state}: {rates}',
+  'zakat.ratesInvalid': 'Nilai "{value}" tidak sah untuk {field}.',
+  'zakat.ratesList': '🧮 Kadar zakat negeri',
+
+  // Faraid
+  'faraid.usage': 'Penggunaan: /faraid <harta pusaka RM> <waris>, contohnya /faraid 120000 isteri, 2 anak lelaki, anak perempuan, ibu\nWaris: {heirs}',
+  'faraid.unknownHeir': 'Waris "{input}" tidak dikenali. Waris: {heirs}',
+  'faraid.tooMany': 'Paling ramai {count} {heir}.',
+  'faraid.bothSpouses': 'Si mati hanya boleh meninggalkan suami atau isteri, bukan kedua-duanya.',
+  'faraid.title': '⚖️ Faraid: {estate}',
+  'faraid.titleShares': '⚖️ Pembahagian faraid',
+  'faraid.each': '{amount} seorang',
+  'faraid.basis.fardh': 'fardu',
+  'faraid.basis.asabah': 'asabah',
+  'faraid.basis.fardhAsabah': 'fardu dan asabah',
+  'faraid.basis.fardhRadd': 'fardu dan radd',
+  'faraid.awl': "'Aul: asal masalah {base} dinaikkan kepada {awl}, maka setiap bahagian dikurangkan secara berkadar.",
+  'faraid.radd': 'Radd: baki harta dikembalikan kepada waris fardu selain suami atau isteri, mengikut kadar bahagian mereka.',
+  'faraid.baitulmal': 'Baitulmal: {share}',
+  'faraid.excluded': 'Terhijab: {heir} (oleh {by})',
+  'faraid.case.umariyyatain': 'Masalah Umariyyatain: ibu mendapat 1/3 daripada baki selepas bahagian suami atau isteri.',
+  'faraid.case.musyarakah': 'Masalah Musyarakah: saudara seibu sebapa berkongsi 1/3 dengan saudara seibu sama rata.',
+  'faraid.case.akdariyyah': "Masalah Akdariyyah: bahagian datuk dan saudara perempuan digabungkan selepas 'aul dan dibahagi 2:1.",
+  'faraid.case.muqasamah': 'Datuk berkongsi (muqasamah) dengan saudara seperti seorang saudara lelaki, kerana itu bahagian terbaik baginya.',
+  'faraid.note': 'Dikira mengikut mazhab Syafie. Harta pusaka ialah baki selepas belanja pengurusan jenazah, hutang dan wasiat (tidak melebihi 1/3). Pembahagian rasmi ditentukan oleh Mahkamah Syariah melalui Sijil Faraid.',
+  'faraid.heir.husband': 'Suami',
+  'faraid.heir.wife': 'Isteri',
+  'faraid.heir.son': 'Anak lelaki',
+  'faraid.heir.daughter': 'Anak perempuan',
+  'faraid.heir.sonsSon': 'Cucu lelaki (daripada anak lelaki)',
+  'faraid.heir.sonsDaughter': 'Cucu perempuan (daripada anak lelaki)',
+  'faraid.heir.father': 'Bapa',
+  'faraid.heir.mother': 'Ibu',
+  'faraid.heir.grandfather': 'Datuk (bapa kepada bapa)',
+  'faraid.heir.paternalGrandmother': 'Nenek sebelah bapa',
+  'faraid.heir.maternalGrandmother': 'Nenek sebelah ibu',
+  'faraid.heir.fullBrother': 'Saudara lelaki seibu sebapa',
+  'faraid.heir.fullSister': 'Saudara perempuan seibu sebapa',
+  'faraid.heir.paternalBrother': 'Saudara lelaki sebapa',
+  'faraid.heir.paternalSister': 'Saudara perempuan sebapa',
+  'faraid.heir.maternalBrother': 'Saudara lelaki seibu',
+  'faraid.heir.maternalSister': 'Saudara perempuan seibu',
+  'faraid.heir.fullNephew': 'Anak saudara lelaki seibu sebapa',
+  'faraid.heir.paternalNephew': 'Anak saudara lelaki sebapa',
+  'faraid.heir.fullUncle': 'Bapa saudara seibu sebapa',
+  'faraid.heir.paternalUncle': 'Bapa saudara sebapa',
+  'faraid.heir.fullCousin': 'Sepupu lelaki seibu sebapa',
+  'faraid.heir.paternalCousin': 'Sepupu lelaki sebapa',
+
+  // Qibla
+  'qibla.title': '🕋 Arah kiblat',
+  'qibla.location': '📍 {latitude}, {longitude}',
+  'qibla.bearing': '🧭 **{bearing}°** dari utara benar ({direction})',
+  'qibla.distance': '📏 {distance} km ke Kaabah',
+  'qibla.outsideMalaysia': 'Lokasi ini di luar zon waktu solat JAKIM, jadi waktu solat tidak dipaparkan.',
+  'qibla.note': 'Arah kiblat diukur mengikut jam dari utara benar. Di Malaysia, utara kompas hampir sama dengan utara benar; jauhkan kompas daripada besi dan peranti elektronik.',
+  'qibla.usage': 'Kongsi lokasi anda sebagai balasan kepada mesej ini, atau gunakan /kiblat 3.139, 101.687 atau /kiblat shah alam.',
+  'qibla.shareButton': '📍 Kongsi lokasi',
+  'qibla.invalid': 'Lokasi "{input}" tidak dikenali. Gunakan koordinat seperti /kiblat 3.139, 101.687 atau nama tempat seperti /kiblat kuantan.',
+  'qibla.direction.n': 'utara',
+  'qibla.direction.ne': 'timur laut',
+  'qibla.direction.e': 'timur',
+  'qibla.direction.se': 'tenggara',
+  'qibla.direction.s': 'selatan',
+  'qibla.direction.sw': 'barat daya',
+  'qibla.direction.w': 'barat',
+  'qibla.direction.nw': 'barat laut',
+
+  // Scheduled posts
+  'jadual.usage': `Penggunaan:
+/jadual - Senarai jadual kumpulan ini
+/jadual tambah <jenis> [hari] [masa] - contohnya /jadual tambah hadis 08:00 atau /jadual tambah kahf jumaat 07:30
+/jadual padam <nombor> - Padam jadual
+/jadual zon <zon> - Zon waktu solat kumpulan, contohnya /jadual zon sgr01
+Jenis: {types}`,
+  'jadual.groupOnly': 'Jadual hanya untuk kumpulan.',
+  'jadual.adminOnly': 'Hanya pentadbir kumpulan boleh mengubah jadual.',
+  'jadual.title': '🗓️ Jadual kumpulan ini',
+  'jadual.empty': 'Belum ada jadual.',
+  'jadual.added': '✅ Jadual ditambah: {job}',
+  'jadual.removed': '🗑️ Jadual {id} dipadam.',
+  'jadual.notFound': 'Tiada jadual bernombor "{id}".',
+  'jadual.unknownType': 'Jenis "{input}" tidak dikenali. Jenis: {types}',
+  'jadual.invalidSchedule': '"{input}" bukan hari atau masa. Gunakan nama hari seperti jumaat dan masa seperti 08:00.',
+  'jadual.limit': 'Paling banyak {count} jadual bagi setiap kumpulan.',
+  'jadual.needsZone': 'Tetapkan zon waktu solat kumpulan dahulu, contohnya /jadual zon sgr01, atau negeri kumpulan melalui /settings.',
+  'jadual.hadithUnavailable': 'Belum ada koleksi hadis diimport, jadi hadis harian tidak dapat dihantar.',
+  'jadual.zone': '🕌 Zon waktu solat kumpulan: {zone} ({places})',
+  'jadual.zoneNone': '🕌 Kumpulan ini belum mempunyai zon waktu solat.',
+  'jadual.zoneCleared': 'Zon kumpulan dipadam; zon ibu negeri kumpulan akan digunakan.',
+  'jadual.type.hadith': 'Hadis harian',
+  'jadual.type.ayat': 'Ayat harian',
+  'jadual.type.kahf': 'Peringatan al-Kahf',
+  'jadual.type.ramadan': 'Imsak dan berbuka Ramadan',
+  'jadual.type.hijri': 'Peristiwa Islam',
+  'jadual.schedule.daily': 'setiap hari, {time}',
+  'jadual.schedule.weekly': '{days}, {time}',
+  'jadual.schedule.ramadan': 'waktu imsak dan maghrib sepanjang Ramadan',
+  'jadual.day.0': 'Ahad',
+  'jadual.day.1': 'Isnin',
+  'jadual.day.2': 'Selasa',
+  'jadual.day.3': 'Rabu',
+  'jadual.day.4': 'Khamis',
+  'jadual.day.5': 'Jumaat',
+  'jadual.day.6': 'Sabtu',
+  'jadual.post.hadith': '🗓️ Hadis hari ini',
+  'jadual.post.ayat': '🗓️ Ayat hari ini',
+  'jadual.post.kahf': '🕌 **Hari Jumaat**\n\nJangan lupa membaca surah al-Kahf, amalan sunnah pada hari Jumaat (hadis riwayat al-Hakim dan al-Baihaqi). Mulakan dengan sepuluh ayat pertamanya: /ayat 18:1-10',
+  'jadual.post.imsak': '🌙 **Imsak {time}** ({zone})\nSubuh masuk pada {fajr}. Selamat berpuasa!',
+  'jadual.post.iftar': '🌅 **Waktu berbuka puasa**\nMaghrib {time} ({zone}). Selamat berbuka!',
+  'jadual.post.hijriToday': '📅 Hari ini: {event}',
+  'jadual.post.hijriTomorrow': '📅 Esok: {event}',
+
+  // Owner commands
+  'owner.only': 'Hanya pemilik bot boleh melakukan ini.',
+  'owner.joinRequest': 'Tok Ayah telah ditambah ke kumpulan yang tiada dalam senarai dibenarkan:\n{title} ({chatId})',
+  'owner.allow': '✅ Benarkan',
+  'owner.ignore': '🚫 Abaikan',
+  'owner.allowedToast': 'Kumpulan dibenarkan',
+  'owner.ignoredToast': 'Permintaan diabaikan',
+  'owner.allowed': '✅ Dibenarkan: {title} ({chatId})',
+  'owner.revoked': '🚫 Ditarik balik: {title} ({chatId})',
+  'owner.ignored': '🚫 Permintaan daripada {chatId} diabaikan',
+  'owner.allowUsage': 'Penggunaan: /allowgroup [id sembang]',
+  'owner.revokeUsage': 'Penggunaan: /revokegroup [id sembang] (kumpulan mesti dikenali oleh bot)',
+  'owner.untitledGroup': 'Kumpulan tanpa nama',
+  'owner.listAllowed': '✅ Dibenarkan ({count})',
+  'owner.listPending': '⏳ Menunggu ({count})',
+  'owner.listRevoked': '🚫 Ditarik balik ({count})',
+  'owner.listEmpty': '• tiada'
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof ms;
+
+const en: Record<MessageKey, Message> = {
+  'answer.error': 'I apologize, but I encountered an error while processing your question. Please try again later.',
+  'answer.empty': 'I apologize, but I could not generate a response at this time.',
+  'answer.emptyOpinion': 'I apologize, but I could not generate a comprehensive opinion at this time.',
+  'answer.formatError': 'I apologize, but I encountered an error while formatting the response.',
+  'answer.continued': '(continued...)',
+  'answer.continuation': '(continuation)',
+  'answer.notUnderstood': 'I\'m not sure I understand your question. Could you please rephrase it or use one of my commands?\n\nUse /start to see available commands.',
+  'command.missingQuestion': 'Please provide a question after the /{command} command.',
+  'mention.empty': 'Yes? How can I help you?',
+
+  'smalltalk.greeting': 'Waalaikumussalam! How can I help you today?',
+  'smalltalk.goodNight': 'Waalaikumussalam! Good night!',
+  'smalltalk.howAreYou': 'Waalaikumussalam! Alhamdulillah, I\'m doing well. How can I help you today?',
+  'smalltalk.thanks': 'You\'re welcome! Feel free to ask if you have any questions.',
+  'smalltalk.test': 'Yes, I\'m here and working properly. How can I assist you?',
+  'smalltalk.status': 'Yes, I\'m here and ready to help! What would you like to know?',
+  'smalltalk.intro': `Assalamualaikum! I am Tok Ayah, an Islamic knowledge assistant that specializes in Malaysian Islamic context. I can help you with:
+
+• Questions about Islamic rulings (fatwa)
+• Understanding different mazhab perspectives
+• Information about JAKIM guidelines
+• Malaysian Islamic practices and customs
+• Comprehensive analysis of Islamic topics
+
+Feel free to ask me any questions about Islamic matters, and I'll do my best to help you understand them from various authentic perspectives.`,
+  'smalltalk.capabilities': `I can help you in several ways:
+
+1. Direct commands:
+/fatwa - Get fatwa rulings
+/mazhab - Learn about different mazhab views
+/jakim - Get JAKIM guidelines
+/malaysianfatwa - Access Malaysian fatwa decisions
+/ibadah - Learn about Islamic practices
+
+2. Natural conversations:
+Just mention "tok ayah" in your message and ask your question naturally in English or Malay.
+
+For example:
+• "tok ayah, apa hukum..."
+• "tok ayah, what is the ruling on..."
+• "tok ayah, boleh terangkan tentang..."
+
+I'll analyze your question and provide a comprehensive response considering various Islamic perspectives.`,
+
+  'start.group': 'Assalamualaikum! Mention "tok ayah" with your question.',
+  'start.private': `Assalamualaikum {name}! I am Tok Ayah, an Islamic knowledge assistant for the Malaysian context.
+
+In this private chat, just type your question directly, no mention needed. Follow-up questions are remembered for 30 minutes.
+
+Commands:
+/fatwa - Fatwa rulings
+/mazhab - Mazhab perspectives
+/jakim - JAKIM guidelines
+/malaysianfatwa - Malaysian fatwa decisions
+/ibadah - Islamic practices
+/opinion - Comprehensive view from all agents
+/ayat 2:255 - Show a Quran verse
+/hadis bukhari 1 - Show a hadith
+/negeri selangor - Set your state for state fatwa
+/waktusolat sgr01 - Today's prayer times
+/hijri - Hijri date and upcoming events
+/zakat - Zakat calculator
+/faraid 100000 wife, 2 sons - Faraid distribution
+/kiblat - Qibla direction from your location
+/settings - Settings`,
+  'private.off': 'Sorry, Tok Ayah only answers questions in approved groups.',
+  'private.notAllowed': 'Sorry, private chat with Tok Ayah is limited to approved users. Please contact your group admin.',
+  'group.notApproved': 'Assalamualaikum! This group has not been approved to use Tok Ayah yet. The bot owner has been notified.',
+  'group.approved': 'Alhamdulillah, this group can now use Tok Ayah. Mention "tok ayah" with your question.',
+
+  'rateLimit.user': {
+    one: '⏳ Please wait a moment, you have asked a lot of questions. Try again in {count} second.',
+    other: '⏳ Please wait a moment, you have asked a lot of questions. Try again in {count} seconds.'
+  },
+  'rateLimit.private': {
+    one: '⏳ Please wait a moment, you have asked a lot of questions. Try again in {count} second.',
+    other: '⏳ Please wait a moment, you have asked a lot of questions. Try again in {count} seconds.'
+  },
+  'rateLimit.group': {
+    one: '⏳ This group has reached its question limit for now. Try again in {count} second.',
+    other: '⏳ This group has reached its question limit for now. Try again in {count} seconds.'
+  },
+  'rateLimit.global': {
+    one: '⏳ Tok Ayah is busy answering other questions. Try again in {count} second.',
+    other: '⏳ Tok Ayah is busy answering other questions. Try again in {count} seconds.'
+  },
+
+  'followUp.expired': 'This question has expired. Please ask again.',
+  'followUp.mazhab': '🕌 Other mazhab views',
+  'followUp.summary': '📝 Summarise',
+  'followUp.detail': '🔍 More detail',
+  'followUp.opinion': '🧭 Ask all agents (opinion)',
+  'followUp.translate': '🌐 Translate to Malay',
+
+  'agent.disabled': 'This agent has been turned off by the group admins. See /settings.',
+  'agent.disabledShort': 'This agent has been turned off in this chat.',
+  'settings.adminOnly': 'Only group admins can change the settings.',
+  'settings.title': '⚙️ Tok Ayah settings',
+  'settings.language': '🌐 Reply language: {value}',
+  'settings.agents': '🤖 Enabled agents: {value}',
+  'settings.defaultAgent': '⭐ Default agent: {value}',
+  'settings.state': '📍 State: {value}',
+  'settings.zone': '🕌 Prayer time zone: {value}',
+  'settings.answerLength': '📏 Answer length: {value}',
+  'settings.greetings': '👋 Reply to greetings: {value}',
+  'settings.none': 'None',
+  'settings.yes': 'Yes',
+  'settings.no': 'No',
+  'settings.language.auto': 'Same as question',
+  'settings.language.ms': 'Malay',
+  'settings.language.en': 'English',
+  'settings.length.short': 'Short',
+  'settings.length.normal': 'Normal',
+  'settings.length.detailed': 'Detailed',
+  'settings.button.language': '🌐 Language',
+  'settings.button.agents': '🤖 Agents',
+  'settings.button.defaultAgent': '⭐ Default agent',
+  'settings.button.state': '📍 State',
+  'settings.button.answerLength': '📏 Length',
+  'settings.button.greetings': '👋 Greetings: {value}',
+  'settings.button.close': '✖️ Close',
+  'settings.button.back': '⬅️ Back',
+
+  'state.usage': 'Usage: /negeri selangor (or /negeri padam to clear it)\nStates: {states}',
+  'state.current': '📍 Your state: {value}',
+  'state.currentGroup': '📍 Group state: {value}',
+  'state.notFound': 'Unknown state "{input}". Choose one of: {states}',
+  'state.setUser': '📍 Your state is now {state}. Fatwa answers will give the position of the {state} religious authorities first.',
+  'state.setGroup': "📍 This group's state is now {state}. Members can set their own state with /negeri.",
+  'state.cleared': '📍 Your state has been cleared.',
+  'state.clearedGroup': "📍 This group's state has been cleared.",
+
+  'cache.clearedQuestion': {
+    one: 'Removed {count} cached answer for that question.',
+    other: 'Removed {count} cached answers for that question.'
+  },
+  'cache.clearedAll': {
+    one: 'Cleared the answer cache ({count} entry).',
+    other: 'Cleared the answer cache ({count} entries).'
+  },
+  'cache.stats': 'Answer cache: {entries} entries\nToday: {hits} hits, {misses} misses ({hitRate}% hit rate)',
+
+  'quran.usage': 'Usage: /ayat 2:255, /ayat 2:255-257 or /ayat al-baqarah 255',
+  'quran.notFound': {
+    one: 'Verse {reference} does not exist. Surah {surah} has {count} verse.',
+    other: 'Verse {reference} does not exist. Surah {surah} has {count} verses.'
+  },
+  'quran.tooMany': 'At most {count} verses can be shown at once.',
+  'quran.unavailable': 'Sorry, the Quran corpus could not be loaded right now.',
+  'quran.translation': 'Translation: {translator}',
+  'quran.checkTitle': '📖 Quran reference check',
+  'quran.unknownSurah': '⚠️ **{reference}**: this surah could not be identified. The Quran has 114 surahs; please check this reference.',
+  'quran.unknownAyah': {
+    one: '⚠️ **{reference}**: this verse does not exist. Surah {surah} has only {count} verse.',
+    other: '⚠️ **{reference}**: this verse does not exist. Surah {surah} has only {count} verses.'
+  },
+  'quran.nameMismatch': '⚠️ **{reference}**: surah {number} is {surah}, not {cited}. The verse those numbers point to:',
+  'quran.textMismatch': '⚠️ **{reference}**: the quoted Arabic does not match this verse. The actual text:',
+  'quran.alsoVerified': '✅ Also checked: {references}',
+
+  'hadith.usage': 'Usage: /hadis bukhari 1\nCollections: {collections}',
+  'hadith.notImportedCommand': 'The {collection} collection has not been imported into Tok Ayah. See {link}',
+  'hadith.notFound': 'Hadith {number} is not in {collection} ({count} hadith imported).',
+  'hadith.book': 'Book: {book}',
+  'hadith.grade': 'Grade: {grade}',
+  'hadith.grade.sahih': 'Sahih',
+  'hadith.grade.hasan': 'Hasan',
+  'hadith.grade.daif': "Da'if (weak)",
+  'hadith.grade.maudu': "Mawdu' (fabricated)",
+  'hadith.gradeUnknown': 'grade not stated',
+  'hadith.checkTitle': '📜 Hadith reference check',
+  'hadith.notImported': 'ℹ️ **{reference}**: not checked because this collection has not been imported. See {link}',
+  'hadith.missing': '⚠️ **{reference}**: there is no hadith with this number in the imported {collection} ({count} hadith).',
+  'hadith.quoteMismatch': '⚠️ **{reference}**: the quoted text does not match the hadith with this number.',
+  'hadith.correction': 'The quoted text matches **{reference}**:',
+
+  'kb.sources': '📚 Sources',
+  'kb.related': '📚 Related fatwa documents',
+  'kb.national': 'National',
+  'kb.adminOnly': 'Only admins can manage fatwa documents.',
+  'kb.addUsage': 'Upload a document ({extensions}) with the caption "/addfatwa state=selangor; authority=Selangor State Fatwa Committee; date=2019-05-14; title=...", or reply to the document with the same command.',
+  'kb.unsupported': 'This document type is not supported. Use {extensions}.',
+  'kb.added': '✅ Document added: {title} ({id})',
+  'kb.addFailed': '❌ Could not add the document {name}. Make sure it contains text.',
+  'kb.removeUsage': 'Usage: /removefatwa <document id> (see /fatwadocs)',
+  'kb.removed': '🗑️ Document removed: {id}',
+  'kb.notFound': 'There is no document {id} in the fatwa knowledge base.',
+  'kb.list': {
+    one: '📚 {count} fatwa document',
+    other: '📚 {count} fatwa documents'
+  },
+
+  'prayer.title': 'Prayer times for {zone}',
+  'prayer.name.imsak': 'Imsak',
+  'prayer.name.fajr': 'Fajr (Subuh)',
+  'prayer.name.sunrise': 'Sunrise',
+  'prayer.name.dhuhr': 'Dhuhr',
+  'prayer.name.asr': 'Asr',
+  'prayer.name.maghrib': 'Maghrib',
+  'prayer.name.isha': 'Isha',
+  'prayer.note': "Calculated with JAKIM's method (Fajr 20°, Isha 18°, Shafi'i Asr, 2 minutes ihtiyati). JAKIM's official e-Solat times may differ slightly.",
+  'prayer.askZone': "Which zone? For example: /waktusolat sgr01 or /waktusolat kuantan. Set your state with /negeri to use its capital's zone automatically.",
+  'prayer.notFound': 'Unknown zone "{input}". JAKIM zones:',
+
+  'hijri.title': '🌙 Hijri date',
+  'hijri.upcoming': 'Upcoming events:',
+  'hijri.daysAway': {
+    one: 'in {count} day',
+    other: 'in {count} days'
+  },
+  'hijri.today': 'today',
+  'hijri.note': 'The Hijri date begins at maghrib. The official start of Ramadan and Syawal is announced by the Keeper of the Rulers\' Seal.',
+  'hijri.usage': 'Usage: /hijri (today), /hijri 31/3/2025 or /hijri 1 Syawal 1447',
+  'hijri.noSuchDay': 'There is no {date} in the Malaysian Hijri calendar.',
+  'hijri.event.awalMuharram': 'Islamic New Year (Awal Muharram)',
+  'hijri.event.asyura': 'Day of Ashura',
+  'hijri.event.maulidurRasul': 'Mawlid of the Prophet (Maulidur Rasul)',
+  'hijri.event.israkMikraj': "Isra' and Mi'raj",
+  'hijri.event.nisfuSyaaban': "Nisfu Sha'ban",
+  'hijri.event.awalRamadan': 'First day of Ramadan',
+  'hijri.event.nuzulQuran': 'Nuzul al-Quran',
+  'hijri.event.aidilfitri': 'Eid al-Fitr (Hari Raya Aidilfitri)',
+  'hijri.event.arafah': 'Day of Arafah',
+  'hijri.event.aidiladha': 'Eid al-Adha (Hari Raya Aidiladha)',
+  'hijri.event.tasyrik': 'Days of Tashriq',
+
+  'zakat.chooseType': '🧮 Zakat calculator: which zakat would you like to work out?',
+  'zakat.chooseState': 'Which state\'s rates should be used?',
+  'zakat.type.pendapatan': 'Income zakat',
+  'zakat.type.simpanan': 'Savings zakat',
+  'zakat.type.emas': 'Gold zakat',
+  'zakat.type.perniagaan': 'Business zakat',
+  'zakat.type.fitrah': 'Zakat fitrah',
+  'zakat.title': '{type} — {state}',
+  'zakat.notConfigured': 'The {state} zakat rates for this calculation have not been set ({fields}). The bot owner can set them with /zakatrate.',
+  'zakat.ask.method': 'Which calculation method?',
+  'zakat.ask.income': 'What is your monthly income (RM)? Reply to this message with the amount.',
+  'zakat.ask.deductions': 'What are your monthly deductions (RM), such as basic expenses for yourself and your dependants and EPF contributions?',
+  'zakat.ask.balance': 'What was the lowest balance of your savings over the past year (haul) (RM)?',
+  'zakat.ask.use': 'Is the gold kept or worn?',
+  'zakat.ask.grams': 'How much does the gold weigh (grams)?',
+  'zakat.ask.assets': 'What are the business\'s current assets at the end of the financial year (RM): cash, stock and receivables?',
+  'zakat.ask.liabilities': 'What are the business\'s current liabilities (RM), that is debts due within a year?',
+  'zakat.ask.rate': 'Which fitrah rate? Choose by the grade of rice you eat.',
+  'zakat.ask.people': 'How many people are you paying fitrah for, including yourself?',
+  'zakat.option.kasar': 'Without deductions (gross income)',
+  'zakat.option.bersih': 'With deductions (net income)',
+  'zakat.option.simpan': 'Kept',
+  'zakat.option.pakai': 'Worn as jewellery',
+  'zakat.invalidNumber': 'Please reply with a number only, for example 3500.',
+  'zakat.expired': 'This calculator session has ended. Type /zakat to start again.',
+  'zakat.notYours': 'Another user opened this calculator. Type /zakat to start your own.',
+  'zakat.work.method': 'Method: {method}',
+  'zakat.work.grossIncome': 'Yearly income: {income} × 12 = {annual}',
+  'zakat.work.netIncome': 'Yearly net income: ({income} − {deductions}) × 12 = {annual}',
+  'zakat.work.balance': 'Lowest balance over the haul: {balance}',
+  'zakat.work.workingCapital': 'Working capital: {assets} − {liabilities} = {capital}',
+  'zakat.work.nisab': 'Nisab in {state}: {nisab}',
+  'zakat.work.nisabFromGold': 'Nisab in {state}: {grams} g of gold × {price} = {nisab}',
+  'zakat.work.belowNisab': '{base} is below the nisab of {nisab}, so no zakat is due.',
+  'zakat.work.reachesNisab': '{base} reaches the nisab of {nisab}, so zakat is due.',
+  'zakat.work.zakat': 'Zakat: {base} × 2.5% = **{zakat}**',
+  'zakat.work.monthly': 'Paid monthly: {amount} a month',
+  'zakat.work.gold.simpan': 'Gold kept: {grams}',
+  'zakat.work.gold.pakai': 'Gold worn: {grams}',
+  'zakat.work.belowGoldNisab': '{grams} is below the gold nisab of {limit}, so no zakat is due.',
+  'zakat.work.reachesGoldNisab': '{grams} reaches the gold nisab of {limit}, so zakat is due on all of it.',
+  'zakat.work.withinUruf': '{grams} does not exceed the {state} uruf of {limit}, so no zakat is due.',
+  'zakat.work.aboveUruf': '{grams} exceeds the {state} uruf of {limit}, so zakat is due on the excess.',
+  'zakat.work.goldValue': 'Value of the gold: {grams} × {price} = {value}',
+  'zakat.work.urufNote': 'Some states charge zakat on all of the worn gold once it exceeds the uruf. Check your state\'s practice.',
+  'zakat.work.fitrah': 'Fitrah: {people} person(s) × {rate} = **{zakat}**',
+  'zakat.result.due': 'Zakat payable: {amount}',
+  'zakat.result.none': 'No zakat is due for now.',
+  'zakat.note': 'This calculation uses the {state} rates updated on {date}. Confirm with your state zakat centre before paying.',
+  'zakat.noteDefaults': 'This calculation uses the bundled {state} rates for {year}, which may have changed since. Confirm with your state zakat centre before paying.',
+  'zakat.explain': '📖 Fiqh explanation',
+  'zakat.rates.nisab': 'Nisab {value}',
+  'zakat.rates.emas': 'Gold {value}/g',
+  'zakat.rates.uruf': 'Uruf {value}',
+  'zakat.rates.fitrah': 'Fitrah {value}',
+  'zakat.ratesUsage': 'Usage: /zakatrate <state> <nisab|emas|uruf|fitrah> <value>\nExamples: /zakatrate selangor emas 400 (RM per gram), /zakatrate selangor fitrah 7, 14, 21 (RM per person by grade of rice). Use "padam" as the value to remove one.\nStates: {states}',
+  'zakat.ratesUpdated': '✅ {state} zakat rates: {rates}',
+  'zakat.ratesInvalid': '"{value}" is not a valid value for {field}.',
+  'zakat.ratesList': '🧮 State zakat rates',
+
+  'faraid.usage': 'Usage: /faraid <estate in RM> <heirs>, for example /faraid 120000 wife, 2 sons, daughter, mother\nHeirs: {heirs}',
+  'faraid.unknownHeir': 'Heir "{input}" is not recognised. Heirs: {heirs}',
+  'faraid.tooMany': 'There can be at most {count} {heir}.',
+  'faraid.bothSpouses': 'The deceased can leave a husband or a wife, not both.',
+  'faraid.title': '⚖️ Faraid: {estate}',
+  'faraid.titleShares': '⚖️ Faraid distribution',
+  'faraid.each': '{amount} each',
+  'faraid.basis.fardh': 'fixed share',
+  'faraid.basis.asabah': 'residue (asabah)',
+  'faraid.basis.fardhAsabah': 'fixed share and residue',
+  'faraid.basis.fardhRadd': 'fixed share and radd',
+  'faraid.awl': "'Awl: the base of {base} is raised to {awl}, so every share is reduced in proportion.",
+  'faraid.radd': 'Radd: the rest of the estate returns to the heirs with fixed shares other than the spouse, in proportion to their shares.',
+  'faraid.baitulmal': 'Baitulmal: {share}',
+  'faraid.excluded': 'Excluded: {heir} (by {by})',
+  'faraid.case.umariyyatain': 'Umariyyatain: the mother takes 1/3 of what is left after the spouse\'s share.',
+  'faraid.case.musyarakah': 'Musyarakah: the full siblings share the 1/3 equally with the maternal half-siblings.',
+  'faraid.case.akdariyyah': "Akdariyyah: after 'awl, the grandfather's and sister's shares are pooled and split 2:1.",
+  'faraid.case.muqasamah': 'The grandfather shares (muqasamah) with the siblings as a brother would, as that is his best share.',
+  'faraid.note': 'Calculated by the Shafi\'i school. The estate is what remains after funeral expenses, debts and bequests (at most 1/3). The official distribution is decided by the Syariah Court through a Faraid Certificate.',
+  'faraid.heir.husband': 'Husband',
+  'faraid.heir.wife': 'Wife',
+  'faraid.heir.son': 'Son',
+  'faraid.heir.daughter': 'Daughter',
+  'faraid.heir.sonsSon': 'Son\'s son',
+  'faraid.heir.sonsDaughter': 'Son\'s daughter',
+  'faraid.heir.father': 'Father',
+  'faraid.heir.mother': 'Mother',
+  'faraid.heir.grandfather': 'Paternal grandfather',
+  'faraid.heir.paternalGrandmother': 'Paternal grandmother',
+  'faraid.heir.maternalGrandmother': 'Maternal grandmother',
+  'faraid.heir.fullBrother': 'Full brother',
+  'faraid.heir.fullSister': 'Full sister',
+  'faraid.heir.paternalBrother': 'Paternal half-brother',
+  'faraid.heir.paternalSister': 'Paternal half-sister',
+  'faraid.heir.maternalBrother': 'Maternal half-brother',
+  'faraid.heir.maternalSister': 'Maternal half-sister',
+  'faraid.heir.fullNephew': 'Full brother\'s son',
+  'faraid.heir.paternalNephew': 'Paternal half-brother\'s son',
+  'faraid.heir.fullUncle': 'Full paternal uncle',
+  'faraid.heir.paternalUncle': 'Paternal half-uncle',
+  'faraid.heir.fullCousin': 'Full paternal uncle\'s son',
+  'faraid.heir.paternalCousin': 'Paternal half-uncle\'s son',
+
+  'qibla.title': '🕋 Qibla direction',
+  'qibla.location': '📍 {latitude}, {longitude}',
+  'qibla.bearing': '🧭 **{bearing}°** from true north ({direction})',
+  'qibla.distance': '📏 {distance} km to the Kaabah',
+  'qibla.outsideMalaysia': 'This location is outside the JAKIM prayer zones, so no prayer times are shown.',
+  'qibla.note': 'The qibla is measured clockwise from true north. In Malaysia compass north is close to true north; keep the compass away from metal and electronic devices.',
+  'qibla.usage': 'Share your location in reply to this message, or use /kiblat 3.139, 101.687 or /kiblat shah alam.',
+  'qibla.shareButton': '📍 Share location',
+  'qibla.invalid': 'Location "{input}" is not recognised. Use coordinates such as /kiblat 3.139, 101.687 or a place such as /kiblat kuantan.',
+  'qibla.direction.n': 'north',
+  'qibla.direction.ne': 'northeast',
+  'qibla.direction.e': 'east',
+  'qibla.direction.se': 'southeast',
+  'qibla.direction.s': 'south',
+  'qibla.direction.sw': 'southwest',
+  'qibla.direction.w': 'west',
+  'qibla.direction.nw': 'northwest',
+
+  'jadual.usage': `Usage:
+/jadual - List this group's scheduled posts
+/jadual add <type> [days] [time] - for example /jadual add hadith 08:00 or /jadual add kahf friday 07:30
+/jadual remove <number> - Remove a scheduled post
+/jadual zone <zone> - The group's prayer time zone, for example /jadual zone sgr01
+Types: {types}`,
+  'jadual.groupOnly': 'Scheduled posts are for groups only.',
+  'jadual.adminOnly': 'Only group admins can change scheduled posts.',
+  'jadual.title': '🗓️ Scheduled posts in this group',
+  'jadual.empty': 'No scheduled posts yet.',
+  'jadual.added': '✅ Scheduled: {job}',
+  'jadual.removed': '🗑️ Scheduled post {id} removed.',
+  'jadual.notFound': 'There is no scheduled post numbered "{id}".',
+  'jadual.unknownType': 'Unknown type "{input}". Types: {types}',
+  'jadual.invalidSchedule': '"{input}" is not a day or a time. Use day names such as friday and times such as 08:00.',
+  'jadual.limit': 'A group can have at most {count} scheduled posts.',
+  'jadual.needsZone': "Set the group's prayer time zone first, for example /jadual zone sgr01, or the group's state in /settings.",
+  'jadual.hadithUnavailable': 'No hadith collection has been imported yet, so there is no hadith of the day to post.',
+  'jadual.zone': "🕌 The group's prayer time zone: {zone} ({places})",
+  'jadual.zoneNone': '🕌 This group has no prayer time zone yet.',
+  'jadual.zoneCleared': "Group zone removed; the zone of the group's state capital will be used.",
+  'jadual.type.hadith': 'Hadith of the day',
+  'jadual.type.ayat': 'Verse of the day',
+  'jadual.type.kahf': 'Al-Kahf reminder',
+  'jadual.type.ramadan': 'Ramadan imsak and iftar',
+  'jadual.type.hijri': 'Islamic events',
+  'jadual.schedule.daily': 'every day, {time}',
+  'jadual.schedule.weekly': '{days}, {time}',
+  'jadual.schedule.ramadan': 'at imsak and maghrib throughout Ramadan',
+  'jadual.day.0': 'Sunday',
+  'jadual.day.1': 'Monday',
+  'jadual.day.2': 'Tuesday',
+  'jadual.day.3': 'Wednesday',
+  'jadual.day.4': 'Thursday',
+  'jadual.day.5': 'Friday',
+  'jadual.day.6': 'Saturday',
+  'jadual.post.hadith': '🗓️ Hadith of the day',
+  'jadual.post.ayat': '🗓️ Verse of the day',
+  'jadual.post.kahf': '🕌 **Friday**\n\nRemember to read Surah al-Kahf, a sunnah of Friday (hadith narrated by al-Hakim and al-Bayhaqi). Start with its first ten verses: /ayat 18:1-10',
+  'jadual.post.imsak': '🌙 **Imsak {time}** ({zone})\nFajr begins at {fajr}. Have a blessed fast!',
+  'jadual.post.iftar': '🌅 **Time to break the fast**\nMaghrib {time} ({zone}).',
+  'jadual.post.hijriToday': '📅 Today: {event}',
+  'jadual.post.hijriTomorrow': '📅 Tomorrow: {event}',
+
+  'owner.only': 'Only the bot owner can do this.',
+  'owner.joinRequest': 'Tok Ayah was added to a group that is not on the allowlist:\n{title} ({chatId})',
+  'owner.allow': '✅ Allow',
+  'owner.ignore': '🚫 Ignore',
+  'owner.allowedToast': 'Group allowed',
+  'owner.ignoredToast': 'Request ignored',
+  'owner.allowed': '✅ Allowed {title} ({chatId})',
+  'owner.revoked': '🚫 Revoked {title} ({chatId})',
+  'owner.ignored': '🚫 Ignored join request from {chatId}',
+  'owner.allowUsage': 'Usage: /allowgroup [chat id]',
+  'owner.revokeUsage': 'Usage: /revokegroup [chat id] (the group must be known to the bot)',
+  'owner.untitledGroup': 'Untitled group',
+  'owner.listAllowed': '✅ Allowed ({count})',
+  'owner.listPending': '⏳ Pending ({count})',
+  'owner.listRevoked': '🚫 Revoked ({count})',
+  'owner.listEmpty': '• none'
+};
+
+// Jawi entries are added as translations become available; the rest fall back to Malay
+const jawi: Partial<Record<MessageKey, Message>> = {};
+
+export const CATALOG: Record<Locale, Partial<Record<MessageKey, Message>>> = { ms, en, jawi };
+
+// Locales that must define every key
+export const COMPLETE_LOCALES: Locale[] = ['ms', 'en'];
+
+const pluralRules: Partial<Record<Locale, Intl.PluralRules>> = {};
+
+function pluralCategory(locale: Locale, count: number): string {
+  // Jawi is Malay in Arabic script and shares its plural rules
+  const rules = pluralRules[locale] ||= new Intl.PluralRules(locale === 'jawi' ? 'ms' : locale);
+  return rules.select(count);
+}
+
+export function t(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message = CATALOG[locale][key] ?? ms[key];
+  const template = typeof message === 'string'
+    ? message
+    : message[pluralCategory(locale, Number(params.count)) as keyof PluralMessage] ?? message.other;
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/** The same message in Malay and English, for chats whose language is not known. */
+export function bilingual(key: MessageKey, params: MessageParams = {}): string {
+  return `${t('ms', key, params)}\n${t('en', key, params)}`;
+}
+
+function placeholders(message: Message): string[] {
+  const texts = typeof message === 'string' ? [message] : Object.values(message).filter((text): text is string => !!text);
+  return [...new Set(texts.flatMap(text => [...text.matchAll(/\{(\w+)\}/g)].map(match => match[1])))].sort();
+}
+
+/**
+ * Lists catalog problems: keys missing from a locale that must be complete
+ * and translations whose placeholders differ from the Malay source. Checked
+ * at startup so a bad translation shows up before users see it.
+ */
+export function validateCatalog(): string[] {
+  const problems: string[] = [];
+  for (const key of Object.keys(ms) as MessageKey[]) {
+    const expected = placeholders(ms[key]).join(',');
+    for (const locale of Object.keys(CATALOG) as Locale[]) {
+      const message = CATALOG[locale][key];
+      if (message === undefined) {
+        if (COMPLETE_LOCALES.includes(locale)) {
+          problems.push(`${locale}: missing "${key}"`);
+        }
+        continue;
+      }
+      const found = placeholders(message).join(',');
+      if (found !== expected) {
+        problems.push(`${locale}: "${key}" uses {${found}} but the Malay source uses {${expected}}`);
+      }
+    }
+  }
+  return problems;
+}
+
+/** Every translation of a message, for recognising bot-authored text. */
+export function allTranslations(key: MessageKey): string[] {
+  return (Object.keys(CATALOG) as Locale[]).map(locale => t(locale, key));
+}
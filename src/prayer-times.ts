@@ -0,0 +1,165 @@
+import { findZone, PrayerZone } from './prayer-zones';
+
+export type PrayerName = 'imsak' | 'fajr' | 'sunrise' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
+
+export const PRAYER_NAMES: PrayerName[] = ['imsak', 'fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha'];
+
+/** A calendar day in Malaysia; months are 1-based. */
+export interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export type PrayerTimes = Record<PrayerName, Date>;
+
+// JAKIM's parameters: the sun 20° below the horizon for Subuh and 18° for Isyak,
+// Asar when an object's shadow equals its length plus its noon shadow (Shafi'i)
+const FAJR_ANGLE = 20;
+const ISHA_ANGLE = 18;
+const ASR_SHADOW_FACTOR = 1;
+// Sun's upper limb on the horizon, with refraction
+const SUNRISE_ANGLE = 0.833;
+// Imsak is ten minutes before Subuh
+const IMSAK_MINUTES = 10;
+// Ihtiyati (precaution) in minutes: prayer times are moved later and sunrise earlier
+const IHTIYATI: Record<Exclude<PrayerName, 'imsak'>, number> = {
+  fajr: 2,
+  sunrise: -2,
+  dhuhr: 2,
+  asr: 2,
+  maghrib: 2,
+  isha: 2
+};
+const PRAYER_WORDS = 'subuh|fajr|syuruk|sunrise|zohor|zuhur|dhuhr|zuhr|asar|asr|maghrib|isyak|isya|isha|imsak|berbuka|iftar|sahur';
+// "waktu solat kl hari ni", "prayer times in kuching", "pukul berapa maghrib esok?"
+const PRAYER_TIME_QUESTION = new RegExp(
+  `\\b(?:waktu|jadual|masa)\\s+(?:solat|sembahyang|sholat|${PRAYER_WORDS})\\b|\\bprayer\\s+times?\\b|` +
+  `\\b(?:what time|when is|bila|pukul berapa|pkl berapa|jam berapa)\\b.*\\b(?:${PRAYER_WORDS})\\b`,
+  'i'
+);
+// Questions about the rules around prayer times belong to the agents
+const FIQH_QUESTION = /\b(?:hukum|boleh(?:kah)?|ruling|dalil|kenapa|mengapa|why|jamak|qasar|qada|qadha|luput|tertinggal|terlepas|missed|allowed)\b/i;
+
+// Malaysia has a single time zone, UTC+8, with no daylight saving
+const UTC_OFFSET_HOURS = 8;
+
+const radians = (degrees: number) => (degrees * Math.PI) / 180;
+const degrees = (radians: number) => (radians * 180) / Math.PI;
+const fix = (value: number, range: number) => ((value % range) + range) % range;
+
+/** Today's date in Malaysia. */
+export function malaysianToday(now: Date = new Date()): CalendarDate {
+  const local = new Date(now.getTime() + UTC_OFFSET_HOURS * 3600 * 1000);
+  return { year: local.getUTCFullYear(), month: local.getUTCMonth() + 1, day: local.getUTCDate() };
+}
+
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+function julianDate(date: CalendarDate): number {
+  return Date.UTC(date.year, date.month - 1, date.day) / 86400000 + 2440587.5;
+}
+
+/** The sun's declination and the equation of time (in hours) at a Julian date. */
+function sunPosition(jd: number): { declination: number; equation: number } {
+  const d = jd - 2451545.0;
+  const g = radians(fix(357.529 + 0.98560028 * d, 360));
+  const q = fix(280.459 + 0.98564736 * d, 360);
+  const l = radians(fix(q + 1.915 * Math.sin(g) + 0.02 * Math.sin(2 * g), 360));
+  const e = radians(23.439 - 0.00000036 * d);
+
+  const rightAscension = fix(degrees(Math.atan2(Math.cos(e) * Math.sin(l), Math.cos(l))) / 15, 24);
+  return {
+    declination: degrees(Math.asin(Math.sin(e) * Math.sin(l))),
+    equation: q / 15 - rightAscension
+  };
+}
+
+/**
+ * Computes the prayer times for a zone's reference point on a Malaysian
+ * calendar day, following JAKIM's method. Each time is found in two passes,
+ * the second using the sun's position at the first estimate.
+ */
+export function calculatePrayerTimes(zone: PrayerZone, date: CalendarDate): PrayerTimes {
+  const { latitude, longitude } = zone;
+  const jd = julianDate(date) - longitude / (15 * 24);
+
+  // Hours after local midnight at the zone's meridian
+  const noon = (hours: number) => {
+    const { equation } = sunPosition(jd + hours / 24);
+    return fix(12 - equation, 24);
+  };
+  const hourAngle = (angle: number, hours: number) => {
+    const { declination } = sunPosition(jd + hours / 24);
+    const cosine = (-Math.sin(radians(angle)) - Math.sin(radians(declination)) * Math.sin(radians(latitude))) /
+      (Math.cos(radians(declination)) * Math.cos(radians(latitude)));
+    return degrees(Math.acos(Math.max(-1, Math.min(1, cosine)))) / 15;
+  };
+  const asrAngle = (hours: number) => {
+    const { declination } = sunPosition(jd + hours / 24);
+    return -degrees(Math.atan(1 / (ASR_SHADOW_FACTOR + Math.tan(radians(Math.abs(latitude - declination))))));
+  };
+
+  const solve = (estimate: number, time: (hours: number) => number) => time(time(estimate));
+  const hours = {
+    fajr: solve(5, h => noon(h) - hourAngle(FAJR_ANGLE, h)),
+    sunrise: solve(6, h => noon(h) - hourAngle(SUNRISE_ANGLE, h)),
+    dhuhr: solve(12, h => noon(h)),
+    asr: solve(13, h => noon(h) + hourAngle(asrAngle(h), h)),
+    maghrib: solve(18, h => noon(h) + hourAngle(SUNRISE_ANGLE, h)),
+    isha: solve(18, h => noon(h) + hourAngle(ISHA_ANGLE, h))
+  };
+
+  const midnightUtc = Date.UTC(date.year, date.month - 1, date.day);
+  const toDate = (name: keyof typeof IHTIYATI) => {
+    // Local solar hours to UTC, then the precaution, rounded to the safe side of the minute
+    const exact = (hours[name] - longitude / 15) * 60 + IHTIYATI[name];
+    const minutes = name === 'sunrise' ? Math.floor(exact) : Math.ceil(exact);
+    return new Date(midnightUtc + minutes * 60000);
+  };
+
+  const fajr = toDate('fajr');
+  return {
+    imsak: new Date(fajr.getTime() - IMSAK_MINUTES * 60000),
+    fajr,
+    sunrise: toDate('sunrise'),
+    dhuhr: toDate('dhuhr'),
+    asr: toDate('asr'),
+    maghrib: toDate('maghrib'),
+    isha: toDate('isha')
+  };
+}
+
+/** "05:58", the time in Malaysia. */
+export function formatTime(time: Date): string {
+  const local = new Date(time.getTime() + UTC_OFFSET_HOURS * 3600 * 1000);
+  return `${String(local.getUTCHours()).padStart(2, '0')}:${String(local.getUTCMinutes()).padStart(2, '0')}`;
+}
+
+export interface PrayerTimeQuestion {
+  zone?: PrayerZone;
+  // 0 for today, 1 for tomorrow
+  daysAhead: number;
+}
+
+/**
+ * Recognises a request for prayer times, which is answered by the
+ * calculator instead of an agent, with the zone and day it mentions.
+ */
+export function parsePrayerTimeQuestion(text: string): PrayerTimeQuestion | undefined {
+  if (!PRAYER_TIME_QUESTION.test(text) || FIQH_QUESTION.test(text)) {
+    return undefined;
+  }
+  return { zone: findZone(text), daysAhead: parseDaysAhead(text) };
+}
+
+/** "esok"/"tomorrow" is one day ahead and "lusa" two; anything else is today. */
+export function parseDaysAhead(text: string): number {
+  if (/\b(?:esok|besok|tomorrow)\b/i.test(text)) {
+    return 1;
+  }
+  return /\blusa\b/i.test(text) ? 2 : 0;
+}
@@ -0,0 +1,195 @@
+import { findState } from './malaysian-states';
+import { Coordinates, distanceKm } from './qibla';
+
+export interface PrayerZone {
+  // JAKIM e-Solat zone code, e.g. SGR01
+  code: string;
+  state: string;
+  // Districts and towns the zone covers, as JAKIM lists them
+  places: string[];
+  // Reference point for the calculation, a main town in the zone
+  latitude: number;
+  longitude: number;
+}
+
+export const PRAYER_ZONES: PrayerZone[] = [
+  { code: 'JHR01', state: 'johor', places: ['Pulau Aur', 'Pulau Pemanggil'], latitude: 2.45, longitude: 104.52 },
+  { code: 'JHR02', state: 'johor', places: ['Johor Bahru', 'Kota Tinggi', 'Mersing', 'Kulai'], latitude: 1.4655, longitude: 103.7578 },
+  { code: 'JHR03', state: 'johor', places: ['Kluang', 'Pontian'], latitude: 2.0301, longitude: 103.3185 },
+  { code: 'JHR04', state: 'johor', places: ['Batu Pahat', 'Muar', 'Segamat', 'Gemas', 'Tangkak'], latitude: 1.8548, longitude: 102.9325 },
+  { code: 'KDH01', state: 'kedah', places: ['Kota Setar', 'Alor Setar', 'Kubang Pasu', 'Pokok Sena'], latitude: 6.1248, longitude: 100.3678 },
+  { code: 'KDH02', state: 'kedah', places: ['Kuala Muda', 'Sungai Petani', 'Yan', 'Pendang'], latitude: 5.647, longitude: 100.4877 },
+  { code: 'KDH03', state: 'kedah', places: ['Padang Terap', 'Sik'], latitude: 6.253, longitude: 100.613 },
+  { code: 'KDH04', state: 'kedah', places: ['Baling'], latitude: 5.6767, longitude: 100.9177 },
+  { code: 'KDH05', state: 'kedah', places: ['Bandar Baharu', 'Kulim'], latitude: 5.3649, longitude: 100.5619 },
+  { code: 'KDH06', state: 'kedah', places: ['Langkawi'], latitude: 6.3265, longitude: 99.8432 },
+  { code: 'KDH07', state: 'kedah', places: ['Gunung Jerai'], latitude: 5.788, longitude: 100.435 },
+  { code: 'KTN01', state: 'kelantan', places: ['Kota Bharu', 'Bachok', 'Machang', 'Pasir Mas', 'Pasir Puteh', 'Tanah Merah', 'Tumpat', 'Kuala Krai'], latitude: 6.1254, longitude: 102.2381 },
+  { code: 'KTN02', state: 'kelantan', places: ['Gua Musang', 'Jeli', 'Lojing'], latitude: 4.8823, longitude: 101.9644 },
+  { code: 'MLK01', state: 'melaka', places: ['Melaka'], latitude: 2.1896, longitude: 102.2501 },
+  { code: 'NGS01', state: 'nsembilan', places: ['Tampin', 'Jempol'], latitude: 2.4701, longitude: 102.2302 },
+  { code: 'NGS02', state: 'nsembilan', places: ['Jelebu', 'Kuala Pilah', 'Rembau'], latitude: 2.7389, longitude: 102.2487 },
+  { code: 'NGS03', state: 'nsembilan', places: ['Seremban', 'Port Dickson', 'Nilai'], latitude: 2.7297, longitude: 101.9381 },
+  { code: 'PHG01', state: 'pahang', places: ['Pulau Tioman'], latitude: 2.79, longitude: 104.17 },
+  { code: 'PHG02', state: 'pahang', places: ['Kuantan', 'Pekan', 'Muadzam Shah'], latitude: 3.8077, longitude: 103.326 },
+  { code: 'PHG03', state: 'pahang', places: ['Jerantut', 'Temerloh', 'Maran', 'Bera', 'Chenor', 'Jengka'], latitude: 3.4487, longitude: 102.4176 },
+  { code: 'PHG04', state: 'pahang', places: ['Bentong', 'Lipis', 'Raub'], latitude: 3.7935, longitude: 101.8574 },
+  { code: 'PHG05', state: 'pahang', places: ['Genting Sempah', 'Janda Baik', 'Bukit Tinggi'], latitude: 3.33, longitude: 101.86 },
+  { code: 'PHG06', state: 'pahang', places: ['Cameron Highlands', 'Genting Highlands', 'Bukit Fraser'], latitude: 4.471, longitude: 101.378 },
+  { code: 'PHG07', state: 'pahang', places: ['Rompin', 'Endau'], latitude: 2.81, longitude: 103.49 },
+  { code: 'PLS01', state: 'perlis', places: ['Kangar', 'Padang Besar', 'Arau'], latitude: 6.4414, longitude: 100.1986 },
+  { code: 'PNG01', state: 'pinang', places: ['Pulau Pinang', 'Penang', 'George Town', 'Butterworth', 'Bukit Mertajam'], latitude: 5.4141, longitude: 100.3288 },
+  { code: 'PRK01', state: 'perak', places: ['Tapah', 'Slim River', 'Tanjung Malim'], latitude: 4.197, longitude: 101.261 },
+  { code: 'PRK02', state: 'perak', places: ['Ipoh', 'Kuala Kangsar', 'Sungai Siput', 'Batu Gajah', 'Kampar'], latitude: 4.5975, longitude: 101.0901 },
+  { code: 'PRK03', state: 'perak', places: ['Lenggong', 'Pengkalan Hulu', 'Gerik', 'Grik'], latitude: 5.429, longitude: 101.126 },
+  { code: 'PRK04', state: 'perak', places: ['Temengor', 'Belum'], latitude: 5.48, longitude: 101.35 },
+  { code: 'PRK05', state: 'perak', places: ['Teluk Intan', 'Kampung Gajah', 'Bagan Datuk', 'Seri Iskandar', 'Beruas', 'Parit', 'Lumut', 'Sitiawan', 'Pulau Pangkor'], latitude: 4.0259, longitude: 101.0213 },
+  { code: 'PRK06', state: 'perak', places: ['Taiping', 'Selama', 'Bagan Serai', 'Parit Buntar'], latitude: 4.851, longitude: 100.741 },
+  { code: 'PRK07', state: 'perak', places: ['Bukit Larut'], latitude: 4.862, longitude: 100.793 },
+  { code: 'SBH01', state: 'sabah', places: ['Sandakan', 'Bukit Garam', 'Semawang', 'Temanggong', 'Tambisan', 'Sukau'], latitude: 5.8394, longitude: 118.1172 },
+  { code: 'SBH02', state: 'sabah', places: ['Beluran', 'Telupid', 'Pinangah', 'Terusan', 'Kuamut'], latitude: 5.894, longitude: 117.559 },
+  { code: 'SBH03', state: 'sabah', places: ['Lahad Datu', 'Silabukan', 'Kunak', 'Sahabat', 'Semporna', 'Tungku'], latitude: 5.0268, longitude: 118.327 },
+  { code: 'SBH04', state: 'sabah', places: ['Tawau', 'Balong', 'Merotai', 'Kalabakan'], latitude: 4.2448, longitude: 117.8912 },
+  { code: 'SBH05', state: 'sabah', places: ['Kudat', 'Kota Marudu', 'Pitas', 'Pulau Banggi'], latitude: 6.8837, longitude: 116.8477 },
+  { code: 'SBH06', state: 'sabah', places: ['Gunung Kinabalu'], latitude: 6.075, longitude: 116.558 },
+  { code: 'SBH07', state: 'sabah', places: ['Kota Kinabalu', 'Ranau', 'Kota Belud', 'Tuaran', 'Penampang', 'Papar', 'Putatan'], latitude: 5.9804, longitude: 116.0735 },
+  { code: 'SBH08', state: 'sabah', places: ['Keningau', 'Pensiangan', 'Tambunan', 'Nabawan'], latitude: 5.3378, longitude: 116.1602 },
+  { code: 'SBH09', state: 'sabah', places: ['Beaufort', 'Kuala Penyu', 'Sipitang', 'Tenom', 'Long Pasia', 'Membakut', 'Weston'], latitude: 5.3473, longitude: 115.7455 },
+  { code: 'SGR01', state: 'selangor', places: ['Shah Alam', 'Gombak', 'Petaling', 'Petaling Jaya', 'Subang Jaya', 'Sepang', 'Hulu Langat', 'Kajang', 'Hulu Selangor'], latitude: 3.0733, longitude: 101.5185 },
+  { code: 'SGR02', state: 'selangor', places: ['Kuala Selangor', 'Sabak Bernam'], latitude: 3.34, longitude: 101.25 },
+  { code: 'SGR03', state: 'selangor', places: ['Klang', 'Kuala Langat', 'Banting'], latitude: 3.0449, longitude: 101.4456 },
+  { code: 'SWK01', state: 'sarawak', places: ['Limbang', 'Lawas', 'Sundar', 'Trusan'], latitude: 4.7548, longitude: 115.0089 },
+  { code: 'SWK02', state: 'sarawak', places: ['Miri', 'Niah', 'Bekenu', 'Sibuti', 'Marudi'], latitude: 4.3995, longitude: 113.9914 },
+  { code: 'SWK03', state: 'sarawak', places: ['Bintulu', 'Pandan', 'Belaga', 'Suai', 'Tatau', 'Sebauh'], latitude: 3.171, longitude: 113.0419 },
+  { code: 'SWK04', state: 'sarawak', places: ['Sibu', 'Mukah', 'Dalat', 'Song', 'Igan', 'Oya', 'Balingian', 'Kanowit', 'Kapit'], latitude: 2.287, longitude: 111.8305 },
+  { code: 'SWK05', state: 'sarawak', places: ['Sarikei', 'Matu', 'Julau', 'Rajang', 'Daro', 'Bintangor', 'Belawai'], latitude: 2.1271, longitude: 111.5182 },
+  { code: 'SWK06', state: 'sarawak', places: ['Sri Aman', 'Lubok Antu', 'Roban', 'Debak', 'Kabong', 'Lingga', 'Engkilili', 'Betong', 'Spaoh', 'Pusa', 'Saratok'], latitude: 1.2376, longitude: 111.4621 },
+  { code: 'SWK07', state: 'sarawak', places: ['Samarahan', 'Serian', 'Simunjan', 'Sebuyau', 'Meludam'], latitude: 1.46, longitude: 110.49 },
+  { code: 'SWK08', state: 'sarawak', places: ['Kuching', 'Bau', 'Lundu', 'Sematan'], latitude: 1.5535, longitude: 110.3593 },
+  { code: 'SWK09', state: 'sarawak', places: ['Kampung Patarikan'], latitude: 4.856, longitude: 115.407 },
+  { code: 'TRG01', state: 'terengganu', places: ['Kuala Terengganu', 'Marang', 'Kuala Nerus'], latitude: 5.3302, longitude: 103.1408 },
+  { code: 'TRG02', state: 'terengganu', places: ['Besut', 'Setiu', 'Jerteh'], latitude: 5.7366, longitude: 102.4947 },
+  { code: 'TRG03', state: 'terengganu', places: ['Hulu Terengganu', 'Kuala Berang'], latitude: 5.074, longitude: 103.01 },
+  { code: 'TRG04', state: 'terengganu', places: ['Kemaman', 'Dungun', 'Chukai'], latitude: 4.233, longitude: 103.422 },
+  { code: 'WLY01', state: 'wilayah', places: ['Kuala Lumpur', 'KL', 'Putrajaya'], latitude: 3.139, longitude: 101.6869 },
+  { code: 'WLY02', state: 'wilayah', places: ['Labuan'], latitude: 5.2831, longitude: 115.2308 }
+];
+
+// Zone covering each state's capital, used when only the state is known
+const STATE_ZONES: Record<string, string> = {
+  johor: 'JHR02',
+  kedah: 'KDH01',
+  kelantan: 'KTN01',
+  melaka: 'MLK01',
+  nsembilan: 'NGS03',
+  pahang: 'PHG02',
+  perak: 'PRK02',
+  perlis: 'PLS01',
+  pinang: 'PNG01',
+  sabah: 'SBH07',
+  sarawak: 'SWK08',
+  selangor: 'SGR01',
+  terengganu: 'TRG01',
+  wilayah: 'WLY01'
+};
+
+// Rough outlines of Peninsular Malaysia and of Sabah and Sarawak as [latitude, longitude],
+// following the land borders and the Johor Strait and taking in the islands offshore
+const MALAYSIA_OUTLINES: [number, number][][] = [
+  [
+    [6.48, 99.6], [6.55, 100.05], [6.72, 100.17], [6.6, 100.3], [6.5, 100.45], [6.22, 100.85], [5.8, 100.98],
+    [5.62, 101.05], [5.78, 101.2], [5.8, 101.6], [5.9, 101.83], [6.0, 101.96], [6.25, 102.09], [6.4, 102.3],
+    [5.95, 103.15], [4.5, 103.75], [2.4, 104.75], [1.33, 104.35], [1.36, 104.09], [1.43, 104.04], [1.43, 103.97],
+    [1.45, 103.88], [1.465, 103.8], [1.455, 103.75], [1.44, 103.68], [1.36, 103.62], [1.22, 103.48], [2.25, 101.65],
+    [3, 100.9], [4.2, 100.35], [5.3, 100.05], [6.1, 99.55]
+  ],
+  [
+    [2.15, 109.55], [2.08, 109.64], [1.6, 109.62], [1.3, 109.95], [1, 110.35], [0.85, 110.9], [1, 111.8],
+    [1.25, 112.3], [1.45, 113], [1.45, 114], [2.3, 114.7], [3, 115.1], [3.9, 115.55], [4.17, 115.85], [4.17, 117.6],
+    [4.1, 118.1], [3.95, 118.8], [5, 119.3], [5.95, 118.4], [6.25, 118.15], [7.4, 117.35], [7.4, 116.7],
+    [6.2, 115.7], [5.35, 115.05], [5.1, 114.7], [4.6, 113.8], [2.9, 111.5]
+  ]
+];
+
+// Brunei's two parts, cut out of the Borneo outline
+const BRUNEI_OUTLINES: [number, number][][] = [
+  [[5.1, 115.1], [4.85, 115.03], [4.72, 114.97], [4.3, 114.85], [4, 114.7], [4.4, 114.1], [4.62, 114.05], [5.1, 114.7]],
+  [[4.97, 115.13], [4.9, 115.33], [4.6, 115.33], [4.33, 115.25], [4.45, 115.12], [4.75, 115.04]]
+];
+
+const placePattern = (place: string) => new RegExp(`\\b${place.toLowerCase().replace(/\s+/g, '\\s*')}\\b`);
+
+export function zoneByCode(code: string): PrayerZone | undefined {
+  return PRAYER_ZONES.find(zone => zone.code === code.toUpperCase());
+}
+
+export function zoneForState(stateId: string | undefined): PrayerZone | undefined {
+  return stateId ? zoneByCode(STATE_ZONES[stateId] || '') : undefined;
+}
+
+/** Ray casting, treating latitude and longitude as flat, which is close enough at this scale. */
+function insideOutline(place: Coordinates, outline: [number, number][]): boolean {
+  let inside = false;
+  outline.forEach(([latitude, longitude], index) => {
+    const [previousLatitude, previousLongitude] = outline[(index || outline.length) - 1];
+    if ((latitude > place.latitude) !== (previousLatitude > place.latitude) &&
+      place.longitude < longitude + ((place.latitude - latitude) * (previousLongitude - longitude)) / (previousLatitude - latitude)) {
+      inside = !inside;
+    }
+  });
+  return inside;
+}
+
+/** Whether a location is in Malaysia, to within a few kilometres of its borders. */
+export function inMalaysia(place: Coordinates): boolean {
+  return MALAYSIA_OUTLINES.some(outline => insideOutline(place, outline)) &&
+    !BRUNEI_OUTLINES.some(outline => insideOutline(place, outline));
+}
+
+/**
+ * The zone of a location in Malaysia, by the nearest reference point. Zone
+ * borders are not followed exactly, so a place near the edge of a zone may
+ * get its neighbour.
+ */
+export function nearestZone(place: Coordinates): { zone: PrayerZone; distanceKm: number } | undefined {
+  if (!inMalaysia(place)) {
+    return undefined;
+  }
+  return PRAYER_ZONES
+    .map(zone => ({ zone, distanceKm: distanceKm(place, zone) }))
+    .reduce((best, entry) => (entry.distanceKm < best.distanceKm ? entry : best));
+}
+
+/**
+ * Finds the zone a text refers to: a zone code ("sgr01"), a district or
+ * town ("shah alam", "waktu solat kuantan esok"), or else a state name,
+ * which resolves to the zone of its capital.
+ */
+export function findZone(text: string): PrayerZone | undefined {
+  const lower = text.toLowerCase();
+  const code = lower.match(/\b([a-z]{3})\s*0?(\d)\b/);
+  const byCode = code ? zoneByCode(`${code[1]}0${code[2]}`) : undefined;
+  if (byCode) {
+    return byCode;
+  }
+
+  // Longest place first, so "Kuala Selangor" is not read as the state
+  const places = PRAYER_ZONES
+    .flatMap(zone => zone.places.map(place => ({ zone, place })))
+    .sort((a, b) => b.place.length - a.place.length);
+  const byPlace = places.find(({ place }) => placePattern(place).test(lower));
+  if (byPlace) {
+    return byPlace.zone;
+  }
+
+  const words = lower.split(/[^a-z0-9]+/).filter(word => word);
+  for (let length = 3; length >= 1; length--) {
+    for (let start = 0; start + length <= words.length; start++) {
+      const state = findState(words.slice(start, start + length).join(' '));
+      if (state) {
+        return zoneForState(state.id);
+      }
+    }
+  }
+  return undefined;
+}
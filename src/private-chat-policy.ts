@@ -0,0 +1,40 @@
+export type PrivateChatMode = 'off' | 'whitelist' | 'open';
+
+/**
+ * Decides who may talk to the bot in a private chat. Owners are always
+ * allowed unless private chats are switched off entirely.
+ */
+export class PrivateChatPolicy {
+  public readonly mode: PrivateChatMode;
+  private userIds: Set<number>;
+  private ownerIds: number[];
+
+  constructor(mode: PrivateChatMode, userIds: number[] = [], ownerIds: number[] = []) {
+    this.mode = mode;
+    this.userIds = new Set(userIds);
+    this.ownerIds = ownerIds;
+  }
+
+  public static fromEnv(env: NodeJS.ProcessEnv, ownerIds: number[]): PrivateChatPolicy {
+    const mode = (env.PRIVATE_CHAT_MODE || 'whitelist').toLowerCase();
+    if (mode !== 'off' && mode !== 'whitelist' && mode !== 'open') {
+      throw new Error(`Invalid PRIVATE_CHAT_MODE: ${env.PRIVATE_CHAT_MODE} (expected off, whitelist or open)`);
+    }
+
+    const userIds = (env.PRIVATE_CHAT_USER_IDS || '')
+      .split(',')
+      .map(id => Number(id.trim()))
+      .filter(id => Number.isFinite(id) && id !== 0);
+    return new PrivateChatPolicy(mode, userIds, ownerIds);
+  }
+
+  public allows(userId?: number): boolean {
+    if (this.mode === 'off' || userId === undefined) {
+      return false;
+    }
+    if (this.mode === 'open') {
+      return true;
+    }
+    return this.userIds.has(userId) || this.ownerIds.includes(userId);
+  }
+}
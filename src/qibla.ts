@@ -0,0 +1,53 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export type CompassPoint = 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'nw';
+
+export const KAABAH: Coordinates = { latitude: 21.4225, longitude: 39.8262 };
+
+// Mean radius of the Earth
+const EARTH_RADIUS_KM = 6371;
+const COMPASS_POINTS: CompassPoint[] = ['n', 'ne', 'e', 'se', 's', 'sw', 'w', 'nw'];
+
+const radians = (degrees: number) => (degrees * Math.PI) / 180;
+const degrees = (radians: number) => (radians * 180) / Math.PI;
+
+/** Great-circle distance by the haversine formula. */
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const dLatitude = radians(to.latitude - from.latitude);
+  const dLongitude = radians(to.longitude - from.longitude);
+  const a = Math.sin(dLatitude / 2) ** 2 +
+    Math.cos(radians(from.latitude)) * Math.cos(radians(to.latitude)) * Math.sin(dLongitude / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/** Initial bearing of the great circle from one point to another, in degrees clockwise from true north. */
+export function initialBearing(from: Coordinates, to: Coordinates): number {
+  const dLongitude = radians(to.longitude - from.longitude);
+  const y = Math.sin(dLongitude) * Math.cos(radians(to.latitude));
+  const x = Math.cos(radians(from.latitude)) * Math.sin(radians(to.latitude)) -
+    Math.sin(radians(from.latitude)) * Math.cos(radians(to.latitude)) * Math.cos(dLongitude);
+  return (degrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+/** The qibla from a place: the bearing of the shortest path to the Kaabah and its length. */
+export function qiblaFrom(place: Coordinates): { bearing: number; distanceKm: number } {
+  return { bearing: initialBearing(place, KAABAH), distanceKm: distanceKm(place, KAABAH) };
+}
+
+/** The nearest of the eight compass points to a bearing. */
+export function compassPoint(bearing: number): CompassPoint {
+  return COMPASS_POINTS[Math.round(bearing / 45) % 8];
+}
+
+/** Reads "3.139, 101.687" or "3.139 101.687" as coordinates. */
+export function parseCoordinates(text: string): Coordinates | undefined {
+  const match = text.trim().match(/^(-?\d{1,2}(?:\.\d+)?)\s*[,\s]\s*(-?\d{1,3}(?:\.\d+)?)$/);
+  if (!match) {
+    return undefined;
+  }
+  const [latitude, longitude] = [Number(match[1]), Number(match[2])];
+  return Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 ? { latitude, longitude } : undefined;
+}
@@ -0,0 +1,356 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Locale } from './messages';
+
+export interface Surah {
+  number: number;
+  // Arabic name, e.g. البقرة
+  name: string;
+  transliteration: string;
+  // English meaning of the name
+  meaning: string;
+  verseCount: number;
+}
+
+export interface Verse {
+  surah: number;
+  ayah: number;
+  arabic: string;
+  english: string;
+  malay?: string;
+}
+
+export interface VerseTranslation {
+  text: string;
+  translator: string;
+  language: 'ms' | 'en';
+}
+
+/** A span of verses, e.g. 2:255 or 2:255-257. */
+export interface VerseRange {
+  surah: number;
+  from: number;
+  to: number;
+}
+
+/** A verse reference found in free text, as the text wrote it. */
+export interface QuranReference extends VerseRange {
+  raw: string;
+  index: number;
+  // Surah name written next to the numbers, if any
+  citedName?: string;
+}
+
+interface QuranJsonChapter {
+  id: number;
+  name: string;
+  transliteration: string;
+  translation: string;
+  total_verses: number;
+  verses: { id: number; text: string; translation: string }[];
+}
+
+const ENGLISH_TRANSLATOR = 'Saheeh International';
+
+// Malay spellings that are too far from the transliterations to be matched loosely
+const SURAH_ALIASES: Record<string, number> = {
+  imran: 3,
+  baraah: 9,
+  taubah: 9,
+  baniisrail: 17,
+  anbiya: 21,
+  mukminun: 23,
+  mukmin: 40,
+  hamimsajdah: 41,
+  kautsar: 108,
+  insyirah: 94,
+  inshirah: 94,
+  alamnasyrah: 94,
+  lail: 92,
+  dhuha: 93,
+  lahab: 111,
+  tabbat: 111,
+  quraisy: 106
+};
+
+const NAME_WORD = "[\\p{L}'’‘`]+(?:-[\\p{L}'’‘`]+)*";
+const SURAH_KEYWORD = '(?:surah|surat|sura|qs\\.?|q\\.s\\.)';
+const RANGE = '(\\d{1,3})(?:\\s*[-–]\\s*(\\d{1,3}))?';
+
+// "Surah Al-Baqarah 2:255", "QS Ali Imran (3:7)", "(2:255-257)"
+const NUMERIC_REFERENCE = new RegExp(`(\\d{1,3})\\s*:\\s*${RANGE}`, 'gu');
+// "Surah Al-Baqarah ayat 255", "surah Al-Kahf, verses 1-10"
+const NAMED_REFERENCE = new RegExp(
+  `\\b${SURAH_KEYWORD}\\s+(${NAME_WORD}(?:\\s+${NAME_WORD})?)\\s*[,:(]?\\s*(?:ayat|ayah|verses?|ay\\.)\\s*${RANGE}`,
+  'giu'
+);
+// Words just before a numeric reference that mark it as a Quran citation rather than a time
+const CITATION_CONTEXT = /(?:surah|surat|sura|qs\.?|q\.s\.|qur'?an|ayat|ayah|verses?)\b[^\n]{0,40}$/i;
+// Name written between the surah keyword and the numbers
+const NAME_BEFORE_NUMBERS = new RegExp(`${SURAH_KEYWORD}\\s+(${NAME_WORD}(?:\\s+${NAME_WORD})?)\\s*[,(\\[]?\\s*$`, 'iu');
+
+/**
+ * Loose form of a surah name so that "Al-Baqarah", "al baqara" and
+ * "Al-Baqorah" meet: no article, apostrophes, doubled or trailing letters.
+ */
+function nameKey(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/^a[lnrstzd][hy]?[-\s]+/, '')
+    .replace(/[^a-z]/g, '')
+    .replace(/sy/g, 'sh')
+    .replace(/ts/g, 'th')
+    .replace(/aw/g, 'au')
+    .replace(/(.)\1+/g, '$1')
+    .replace(/(?<=[a-z]{3})h$/, '');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Where the Malay translation ships, as a Tanzil text file
+export const DEFAULT_MALAY_TRANSLATION = path.join(__dirname, '..', 'data', 'quran', 'ms.basmeih.txt');
+
+/**
+ * The Quran text bundled with the bot: Uthmani Arabic and the Saheeh
+ * International English translation from the quran-json package, plus the
+ * Malay translation read from a Tanzil text file, by default the one in
+ * data/quran (QURAN_MS_TRANSLATION overrides it). Everything is held in
+ * memory after load().
+ */
+export class QuranCorpus {
+  private malayPath?: string;
+  private surahs: Surah[] = [];
+  private verses: Map<number, Verse[]> = new Map();
+  private nameIndex: Map<string, number> = new Map();
+  private malayTranslator?: string;
+
+  constructor(malayPath?: string) {
+    this.malayPath = malayPath;
+  }
+
+  public static fromEnv(env: NodeJS.ProcessEnv): QuranCorpus {
+    return new QuranCorpus(env.QURAN_MS_TRANSLATION || DEFAULT_MALAY_TRANSLATION);
+  }
+
+  public get isLoaded(): boolean {
+    return this.surahs.length > 0;
+  }
+
+  public get hasMalay(): boolean {
+    return !!this.malayTranslator;
+  }
+
+  /** Without the corpus the bot still answers, but /ayat and citation checks are off. */
+  public async load(): Promise<void> {
+    let chapters: QuranJsonChapter[];
+    try {
+      chapters = JSON.parse(await fs.readFile(require.resolve('quran-json/dist/quran_en.json'), 'utf8'));
+    } catch (error) {
+      console.error('❌ Could not load the Quran corpus:', error);
+      return;
+    }
+
+    for (const chapter of chapters) {
+      this.surahs[chapter.id - 1] = {
+        number: chapter.id,
+        name: chapter.name,
+        transliteration: chapter.transliteration,
+        meaning: chapter.translation,
+        verseCount: chapter.total_verses
+      };
+      this.verses.set(chapter.id, chapter.verses.map(verse => ({
+        surah: chapter.id,
+        ayah: verse.id,
+        arabic: verse.text,
+        english: verse.translation
+      })));
+      this.nameIndex.set(nameKey(chapter.transliteration), chapter.id);
+    }
+    for (const [alias, number] of Object.entries(SURAH_ALIASES)) {
+      this.nameIndex.set(nameKey(alias), number);
+    }
+
+    if (this.malayPath) {
+      await this.loadMalay(this.malayPath);
+    }
+    console.log(`✓ Loaded Quran corpus (${this.surahs.length} surahs${this.hasMalay ? `, Malay: ${this.malayTranslator}` : ''})`);
+  }
+
+  /**
+   * Reads a translation in Tanzil's "sura|aya|text" format. Tanzil files end
+   * with "#" comment lines naming the translator.
+   */
+  private async loadMalay(filePath: string) {
+    try {
+      const lines = (await fs.readFile(filePath, 'utf8')).split(/\r?\n/);
+      let count = 0;
+      let translator = 'Terjemahan Bahasa Melayu';
+      for (const line of lines) {
+        const comment = line.match(/^#\s*(?:Translator|Name):\s*(.+)$/i);
+        if (comment) {
+          translator = comment[1].trim();
+          continue;
+        }
+        const [surah, ayah, ...text] = line.split('|');
+        const verse = this.verse(Number(surah), Number(ayah));
+        if (verse && text.length > 0) {
+          verse.malay = text.join('|').trim();
+          count++;
+        }
+      }
+      if (count === 0) {
+        console.warn(`⚠️ No verses found in Malay Quran translation ${filePath}`);
+        return;
+      }
+      this.malayTranslator = translator;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        console.warn(`⚠️ No Malay Quran translation at ${filePath}, showing English instead`);
+        return;
+      }
+      console.error(`❌ Could not read Malay Quran translation ${filePath}:`, error);
+    }
+  }
+
+  public surah(number: number): Surah | undefined {
+    return this.surahs[number - 1];
+  }
+
+  public verse(surah: number, ayah: number): Verse | undefined {
+    return this.verses.get(surah)?.[ayah - 1];
+  }
+
+  public range({ surah, from, to }: VerseRange): Verse[] {
+    return (this.verses.get(surah) || []).slice(from - 1, to);
+  }
+
+  /**
+   * Finds a surah by number or name. Names that are not known spellings
+   * match the surah closest to them, if it is within two letters and no
+   * other surah is as close.
+   */
+  public findSurah(input: string): Surah | undefined {
+    const trimmed = input.trim();
+    if (/^\d+$/.test(trimmed)) {
+      return this.surah(Number(trimmed));
+    }
+
+    const key = nameKey(trimmed.replace(/^(?:surah|surat|sura)\s+/i, ''));
+    if (key.length < 2) {
+      return undefined;
+    }
+    const exact = this.nameIndex.get(key);
+    if (exact) {
+      return this.surah(exact);
+    }
+    if (key.length < 4) {
+      return undefined;
+    }
+
+    let best = 3;
+    let closest = new Set<number>();
+    for (const [known, number] of this.nameIndex) {
+      const distance = editDistance(key, known);
+      if (distance < best) {
+        best = distance;
+        closest = new Set([number]);
+      } else if (distance === best) {
+        closest.add(number);
+      }
+    }
+    return closest.size === 1 ? this.surah([...closest][0]) : undefined;
+  }
+
+  /** The translation to show for a locale; English when no Malay one is installed. */
+  public translation(verse: Verse, locale: Locale): VerseTranslation {
+    if (locale !== 'en' && verse.malay && this.malayTranslator) {
+      return { text: verse.malay, translator: this.malayTranslator, language: 'ms' };
+    }
+    return { text: verse.english, translator: ENGLISH_TRANSLATOR, language: 'en' };
+  }
+
+  /**
+   * Parses what a user typed after /ayat: "2:255", "2:255-257",
+   * "al-baqarah 255" or "yasin:1-12". The range is not checked against the
+   * corpus; the surah must exist.
+   */
+  public parseRange(input: string): VerseRange | undefined {
+    const match = input.trim().match(/^(.+?)\s*[:\s]\s*(\d{1,3})(?:\s*[-–]\s*(\d{1,3}))?$/u);
+    if (!match) {
+      return undefined;
+    }
+    const surah = this.findSurah(match[1]);
+    if (!surah) {
+      return undefined;
+    }
+    const from = Number(match[2]);
+    return { surah: surah.number, from, to: Math.max(from, Number(match[3] || from)) };
+  }
+
+  /**
+   * Finds verse citations in an answer. Bare "x:y" numbers only count when
+   * they follow a word like "surah" or "ayat" on the same line or sit in
+   * brackets, so times such as 10:30 are left alone.
+   */
+  public findReferences(text: string): QuranReference[] {
+    const references: QuranReference[] = [];
+
+    for (const match of text.matchAll(NUMERIC_REFERENCE)) {
+      const index = match.index!;
+      // Look back to the start of the line or the previous citation, whichever is closer
+      const previous = references[references.length - 1];
+      const start = Math.max(text.lastIndexOf('\n', index - 1) + 1, previous ? previous.index + previous.raw.length : 0);
+      const before = text.slice(start, index);
+      if (!CITATION_CONTEXT.test(before) && !/[([]\s*$/.test(before)) {
+        continue;
+      }
+      const from = Number(match[2]);
+      references.push({
+        raw: match[0],
+        index,
+        surah: Number(match[1]),
+        from,
+        to: Math.max(from, Number(match[3] || from)),
+        citedName: before.match(NAME_BEFORE_NUMBERS)?.[1]
+      });
+    }
+
+    for (const match of text.matchAll(NAMED_REFERENCE)) {
+      const index = match.index!;
+      const end = index + match[0].length;
+      // "Surah Al-Baqarah ayat 2:255" was already found as a numeric reference
+      if (references.some(reference => reference.index >= index && reference.index < end)) {
+        continue;
+      }
+      const surah = this.findSurah(match[1]);
+      const from = Number(match[2]);
+      references.push({
+        raw: match[0],
+        index,
+        // Unknown names are reported with surah 0
+        surah: surah?.number || 0,
+        from,
+        to: Math.max(from, Number(match[3] || from)),
+        citedName: match[1]
+      });
+    }
+
+    return references.sort((a, b) => a.index - b.index);
+  }
+}
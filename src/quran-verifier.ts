@@ -0,0 +1,178 @@
+import { AnswerPostProcessor } from './islamic-agents';
+import { QuranCorpus, QuranReference, Surah, Verse } from './quran-corpus';
+import { Locale, t } from './messages';
+import { ARABIC_PASSAGE, arabicWords, wordOverlap } from './arabic-text';
+
+type CheckStatus = 'verified' | 'unknownSurah' | 'unknownAyah' | 'nameMismatch' | 'textMismatch';
+
+interface ReferenceCheck {
+  reference: QuranReference;
+  status: CheckStatus;
+  surah?: Surah;
+}
+
+// Verses quoted in full under an answer; further verified references are only listed
+const MAX_QUOTED_VERSES = 3;
+// Share of a quoted passage's words that must appear in the cited verses
+const QUOTE_MATCH_THRESHOLD = 0.6;
+// Characters between a quote and a reference for the quote to count as that verse's text
+const MAX_QUOTE_DISTANCE = 200;
+
+/**
+ * Checks the Quran citations in an answer against the bundled corpus and
+ * appends what it found: the actual text of verified verses, and a warning
+ * for surahs or ayat that do not exist, surah names that do not match the
+ * number, and Arabic quotes that differ from the cited verse.
+ */
+export class QuranVerifier implements AnswerPostProcessor {
+  private corpus: QuranCorpus;
+
+  constructor(corpus: QuranCorpus) {
+    this.corpus = corpus;
+  }
+
+  public process(answer: string, locale: Locale): string {
+    if (!this.corpus.isLoaded) {
+      return answer;
+    }
+
+    const references = this.corpus.findReferences(answer);
+    const quotes = this.quotesByReference(answer, references);
+    const seen = new Set<string>();
+    const checks = references
+      .filter(reference => {
+        const key = `${reference.surah}:${reference.from}-${reference.to}`;
+        return !seen.has(key) && !!seen.add(key);
+      })
+      .map(reference => this.check(reference, quotes.get(reference) || []));
+    if (checks.length === 0) {
+      return answer;
+    }
+
+    const flagged = checks.filter(check => check.status !== 'verified').length;
+    if (flagged > 0) {
+      console.warn(`⚠️ Flagged ${flagged} of ${checks.length} Quran reference(s) in answer`);
+    }
+    return `${answer}\n\n${this.describe(checks, locale)}`;
+  }
+
+  private check(reference: QuranReference, quotes: string[][]): ReferenceCheck {
+    const surah = this.corpus.surah(reference.surah);
+    if (!surah) {
+      return { reference, status: 'unknownSurah' };
+    }
+    if (reference.to > surah.verseCount || reference.from < 1) {
+      return { reference, status: 'unknownAyah', surah };
+    }
+    if (reference.citedName) {
+      const cited = this.corpus.findSurah(reference.citedName);
+      if (cited && cited.number !== surah.number) {
+        return { reference, status: 'nameMismatch', surah };
+      }
+    }
+    if (!this.quotesMatch(reference, quotes)) {
+      return { reference, status: 'textMismatch', surah };
+    }
+    return { reference, status: 'verified', surah };
+  }
+
+  /**
+   * Pairs each Arabic passage of three or more words with the reference
+   * closest to it, if one is within a few lines.
+   */
+  private quotesByReference(answer: string, references: QuranReference[]): Map<QuranReference, string[][]> {
+    const quotes = new Map<QuranReference, string[][]>();
+    for (const passage of answer.matchAll(ARABIC_PASSAGE)) {
+      const words = arabicWords(passage[0]);
+      if (words.length < 3) {
+        continue;
+      }
+      const start = passage.index!;
+      const end = start + passage[0].length;
+      const gap = (reference: QuranReference) =>
+        Math.max(0, reference.index - end, start - (reference.index + reference.raw.length));
+
+      const nearest = references.reduce<QuranReference | undefined>(
+        (best, reference) => (!best || gap(reference) < gap(best) ? reference : best),
+        undefined
+      );
+      if (nearest && gap(nearest) <= MAX_QUOTE_DISTANCE) {
+        quotes.set(nearest, [...(quotes.get(nearest) || []), words]);
+      }
+    }
+    return quotes;
+  }
+
+  /** A reference passes when it has no quote or one of its quotes matches the cited verses. */
+  private quotesMatch(reference: QuranReference, quotes: string[][]): boolean {
+    if (quotes.length === 0) {
+      return true;
+    }
+    const verseWords = new Set(this.corpus.range(reference).flatMap(verse => arabicWords(verse.arabic)));
+    return quotes.some(words => wordOverlap(words, verseWords) >= QUOTE_MATCH_THRESHOLD);
+  }
+
+  private describe(checks: ReferenceCheck[], locale: Locale): string {
+    const lines = [`### ${t(locale, 'quran.checkTitle')}`];
+    const alsoVerified: string[] = [];
+    const translators = new Set<string>();
+    let quoted = 0;
+
+    const quote = (verses: Verse[]) => {
+      for (const verse of verses) {
+        const translation = this.corpus.translation(verse, locale);
+        translators.add(translation.translator);
+        lines.push(`> ${verses.length > 1 ? `(${verse.ayah}) ` : ''}${verse.arabic}`, translation.text);
+        quoted++;
+      }
+    };
+
+    for (const { reference, status, surah } of checks) {
+      const label = this.label(reference, surah);
+      const verses = surah ? this.corpus.range(reference) : [];
+
+      switch (status) {
+        case 'verified':
+          if (quoted >= MAX_QUOTED_VERSES) {
+            alsoVerified.push(label);
+            break;
+          }
+          lines.push('', `✅ **${label}**`);
+          quote(verses.slice(0, MAX_QUOTED_VERSES - quoted));
+          break;
+        case 'unknownSurah':
+          lines.push('', t(locale, 'quran.unknownSurah', { reference: reference.citedName || reference.raw }));
+          break;
+        case 'unknownAyah':
+          lines.push('', t(locale, 'quran.unknownAyah', { reference: label, surah: surah!.transliteration, count: surah!.verseCount }));
+          break;
+        case 'nameMismatch':
+          lines.push('', t(locale, 'quran.nameMismatch', {
+            reference: `${reference.citedName} ${reference.surah}:${reference.from}`,
+            number: surah!.number,
+            surah: surah!.transliteration,
+            cited: reference.citedName!
+          }));
+          quote(verses.slice(0, 1));
+          break;
+        case 'textMismatch':
+          lines.push('', t(locale, 'quran.textMismatch', { reference: label }));
+          quote(verses.slice(0, Math.max(1, MAX_QUOTED_VERSES - quoted)));
+          break;
+      }
+    }
+
+    if (alsoVerified.length > 0) {
+      lines.push('', t(locale, 'quran.alsoVerified', { references: alsoVerified.join(', ') }));
+    }
+    if (translators.size > 0) {
+      lines.push('', `*${t(locale, 'quran.translation', { translator: [...translators].join(', ') })}*`);
+    }
+    return lines.join('\n');
+  }
+
+  private label(reference: QuranReference, surah?: Surah): string {
+    const verses = reference.to > reference.from ? `${reference.from}-${reference.to}` : `${reference.from}`;
+    return `${surah ? `${surah.transliteration} ` : ''}${reference.surah}:${verses}`;
+  }
+}
@@ -0,0 +1,173 @@
+export type RateLimitScope = 'user' | 'group' | 'private' | 'global';
+
+export interface RateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+export type RateLimitConfig = Record<RateLimitScope, RateLimit>;
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; scope: RateLimitScope; retryAfterMs: number };
+
+interface WindowEntry {
+  at: number;
+  weight: number;
+}
+
+const DEFAULT_LIMITS: RateLimitConfig = {
+  user: { limit: 12, windowMs: 10 * 60 * 1000 },
+  group: { limit: 40, windowMs: 10 * 60 * 1000 },
+  private: { limit: 20, windowMs: 10 * 60 * 1000 },
+  global: { limit: 200, windowMs: 10 * 60 * 1000 }
+};
+
+/**
+ * Parses a limit written as "<units>/<seconds>", e.g. "12/600" for twelve
+ * units per ten minutes.
+ */
+export function parseRateLimit(value: string | undefined, fallback: RateLimit): RateLimit {
+  const match = value?.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match) {
+    return fallback;
+  }
+  return { limit: Number(match[1]), windowMs: Number(match[2]) * 1000 };
+}
+
+export function loadRateLimitConfig(env: NodeJS.ProcessEnv): RateLimitConfig {
+  return {
+    user: parseRateLimit(env.RATE_LIMIT_USER, DEFAULT_LIMITS.user),
+    group: parseRateLimit(env.RATE_LIMIT_GROUP, DEFAULT_LIMITS.group),
+    private: parseRateLimit(env.RATE_LIMIT_PRIVATE, DEFAULT_LIMITS.private),
+    global: parseRateLimit(env.RATE_LIMIT_GLOBAL, DEFAULT_LIMITS.global)
+  };
+}
+
+/**
+ * Sliding-window limiter over weighted requests. A request is only counted
+ * when every scope it falls under has room for it: user, group and global
+ * for group chats, the private-chat limit and global for private chats.
+ */
+export class RateLimiter {
+  private config: RateLimitConfig;
+  private windows: Map<string, WindowEntry[]> = new Map();
+
+  constructor(config: RateLimitConfig = DEFAULT_LIMITS) {
+    this.config = config;
+  }
+
+  public tryConsume(
+    userId: number,
+    chatId: number,
+    weight: number = 1,
+    isPrivate: boolean = false,
+    now: number = Date.now()
+  ): RateLimitResult {
+    const keys: [RateLimitScope, string][] = isPrivate
+      ? [['private', `private:${userId}`], ['global', 'global']]
+      : [['user', `user:${userId}`], ['group', `group:${chatId}`], ['global', 'global']];
+
+    for (const [scope, key] of keys) {
+      const { limit, windowMs } = this.config[scope];
+      const entries = this.prune(key, now - windowMs);
+      const used = entries.reduce((sum, entry) => sum + entry.weight, 0);
+
+      if (used + weight > limit) {
+        // Wait until enough of the oldest requests have left the window
+        let freed = 0;
+        let retryAt = now + windowMs;
+        for (const entry of entries) {
+          freed += entry.weight;
+          if (used - freed + weight <= limit) {
+            retryAt = entry.at + windowMs;
+            break;
+          }
+        }
+        return { allowed: false, scope, retryAfterMs: Math.max(0, retryAt - now) };
+      }
+    }
+
+    for (const [, key] of keys) {
+      const entries = this.windows.get(key) || [];
+      entries.push({ at: now, weight });
+      this.windows.set(key, entries);
+    }
+    return { allowed: true };
+  }
+
+  private prune(key: string, cutoff: number): WindowEntry[] {
+    const entries = (this.windows.get(key) || []).filter(entry => entry.at > cutoff);
+    if (entries.length > 0) {
+      this.windows.set(key, entries);
+    } else {
+      this.windows.delete(key);
+    }
+    return entries;
+  }
+}
+
+/**
+ * Runs work one task at a time per chat, so answers arrive in the order the
+ * questions were asked, while chats take turns for a limited number of
+ * global slots.
+ */
+export class FairQueue {
+  private concurrency: number;
+  private running = 0;
+  private busyChats: Set<number> = new Set();
+  private pending: Map<number, (() => void)[]> = new Map();
+
+  constructor(concurrency: number = 2) {
+    this.concurrency = concurrency;
+  }
+
+  public pendingFor(chatId: number): number {
+    return (this.pending.get(chatId)?.length || 0) + (this.busyChats.has(chatId) ? 1 : 0);
+  }
+
+  public run<T>(chatId: number, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const start = () => {
+        task().then(resolve, reject).finally(() => {
+          this.running--;
+          this.busyChats.delete(chatId);
+
+          // Send this chat's remaining work to the back of the rotation
+          const remaining = this.pending.get(chatId);
+          if (remaining) {
+            this.pending.delete(chatId);
+            this.pending.set(chatId, remaining);
+          }
+          this.dispatch();
+        });
+      };
+
+      const queue = this.pending.get(chatId) || [];
+      queue.push(start);
+      this.pending.set(chatId, queue);
+      this.dispatch();
+    });
+  }
+
+  private dispatch() {
+    // Map iteration order is the rotation order
+    for (const [chatId, queue] of this.pending) {
+      if (this.running >= this.concurrency) {
+        return;
+      }
+      if (this.busyChats.has(chatId)) {
+        continue;
+      }
+
+      const start = queue.shift()!;
+      if (queue.length === 0) {
+        this.pending.delete(chatId);
+      }
+
+      this.running++;
+      this.busyChats.add(chatId);
+      start();
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import { Collections, StorageBackend } from './storage';
+import { addDays, CalendarDate, malaysianToday, PrayerName, PrayerTimes } from './prayer-times';
+
+export type JobType = 'hadith' | 'ayat' | 'kahf' | 'ramadan' | 'hijri';
+
+export const JOB_TYPES: JobType[] = ['hadith', 'ayat', 'kahf', 'ramadan', 'hijri'];
+
+export interface ScheduledJob {
+  // Numbered per chat, as admins refer to it in /jadual padam
+  id: number;
+  chatId: number;
+  type: JobType;
+  // "HH:MM" in Malaysian time
+  time?: string;
+  // Instead of a time, the chat zone's prayer times on each day
+  prayers?: PrayerName[];
+  // Days of the week, 0 for Sunday; empty for every day
+  days: number[];
+  createdBy?: number;
+  createdAt: number;
+  // The latest occurrence that was posted or skipped, so restarts neither repeat nor replay it
+  lastOccurrence: number;
+}
+
+export interface JobSchedule {
+  time?: string;
+  days: number[];
+}
+
+export interface SchedulerOptions {
+  run(job: ScheduledJob, occurrence: Date): Promise<void>;
+  // The prayer times of a chat's zone, for jobs that follow them
+  prayerTimes(chatId: number, date: CalendarDate): PrayerTimes | undefined;
+}
+
+export const MAX_JOBS_PER_CHAT = 10;
+
+// Malaysia has a single time zone, UTC+8
+const UTC_OFFSET_HOURS = 8;
+const TICK_MS = 60 * 1000;
+// Occurrences missed by more than this, say while the bot was down, are skipped rather than posted late
+const MISSED_JOB_GRACE_MS = 60 * 60 * 1000;
+// An imsak or iftar alert is wrong once the time has passed by much
+const MISSED_PRAYER_GRACE_MS = 10 * 60 * 1000;
+// Pause between posts, so jobs that fall due together reach Telegram one by one
+const POST_INTERVAL_MS = 1000;
+
+const JOB_DEFAULTS: Record<JobType, Pick<ScheduledJob, 'time' | 'prayers' | 'days'>> = {
+  hadith: { time: '08:00', days: [] },
+  ayat: { time: '07:00', days: [] },
+  kahf: { time: '08:00', days: [5] },
+  ramadan: { prayers: ['imsak', 'maghrib'], days: [] },
+  hijri: { time: '08:00', days: [] }
+};
+
+const TYPE_ALIASES: Record<string, JobType> = {
+  hadis: 'hadith', hadith: 'hadith',
+  ayat: 'ayat', ayah: 'ayat', verse: 'ayat', quran: 'ayat',
+  kahf: 'kahf', alkahf: 'kahf',
+  ramadan: 'ramadan', ramadhan: 'ramadan', puasa: 'ramadan', iftar: 'ramadan', imsak: 'ramadan',
+  hijri: 'hijri', peristiwa: 'hijri', events: 'hijri'
+};
+
+const DAY_ALIASES: Record<string, number> = {
+  ahad: 0, sunday: 0, sun: 0,
+  isnin: 1, monday: 1, mon: 1,
+  selasa: 2, tuesday: 2, tue: 2,
+  rabu: 3, wednesday: 3, wed: 3,
+  khamis: 4, thursday: 4, thu: 4,
+  jumaat: 5, jumat: 5, friday: 5, fri: 5,
+  sabtu: 6, saturday: 6, sat: 6
+};
+
+const storageKey = (job: Pick<ScheduledJob, 'chatId' | 'id'>) => `${job.chatId}:${job.id}`;
+const pause = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function findJobType(input: string): JobType | undefined {
+  return TYPE_ALIASES[input.toLowerCase().replace(/[^a-z]/g, '')];
+}
+
+/** Reads the rest of "/jadual tambah", e.g. "08:30", "jumaat 8.00" or "isnin khamis 21:00". */
+export function parseSchedule(text: string): JobSchedule | { invalid: string } {
+  const schedule: JobSchedule = { days: [] };
+  for (const word of text.toLowerCase().split(/[\s,]+/).filter(word => word)) {
+    const time = word.match(/^(\d{1,2})[:.](\d{2})$/);
+    if (time && Number(time[1]) < 24 && Number(time[2]) < 60) {
+      schedule.time = `${time[1].padStart(2, '0')}:${time[2]}`;
+    } else if (word in DAY_ALIASES) {
+      schedule.days.push(DAY_ALIASES[word]);
+    } else if (!['harian', 'daily'].includes(word)) {
+      return { invalid: word };
+    }
+  }
+  schedule.days = [...new Set(schedule.days)].sort((a, b) => a - b);
+  return schedule;
+}
+
+/** The same item all day, and a different one each day, out of count items. */
+export function dailyIndex(date: CalendarDate, count: number): number {
+  const day = Date.UTC(date.year, date.month - 1, date.day) / 86400000;
+  // Striding by a large prime spreads consecutive days across the list
+  return (day * 7919) % count;
+}
+
+/** The time a job falls due on a Malaysian calendar day, or none on days it does not run. */
+function occurrencesOn(job: ScheduledJob, date: CalendarDate, options: SchedulerOptions): number[] {
+  const weekday = new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+  if (job.days.length > 0 && !job.days.includes(weekday)) {
+    return [];
+  }
+  if (job.prayers) {
+    const times = options.prayerTimes(job.chatId, date);
+    return times ? job.prayers.map(name => times[name].getTime()) : [];
+  }
+  const [hours, minutes] = (job.time || '00:00').split(':').map(Number);
+  return [Date.UTC(date.year, date.month - 1, date.day, hours - UTC_OFFSET_HOURS, minutes)];
+}
+
+/**
+ * Recurring posts to groups, checked once a minute. Jobs are persisted with
+ * the last occurrence they handled; after downtime each job posts at most
+ * its latest missed occurrence, and only while it is still recent.
+ */
+export class JobScheduler {
+  private storage: StorageBackend;
+  private options: SchedulerOptions;
+  private jobs: Map<string, ScheduledJob> = new Map();
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor(storage: StorageBackend, options: SchedulerOptions) {
+    this.storage = storage;
+    this.options = options;
+  }
+
+  public async load(): Promise<void> {
+    for (const [key, job] of await this.storage.entries<ScheduledJob>(Collections.scheduledJobs)) {
+      this.jobs.set(key, job);
+    }
+    console.log(`✓ Loaded ${this.jobs.size} scheduled job(s)`);
+  }
+
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+    // Catch up straight away rather than a minute after a restart
+    void this.tick();
+  }
+
+  public stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  public list(chatId: number): ScheduledJob[] {
+    return [...this.jobs.values()].filter(job => job.chatId === chatId).sort((a, b) => a.id - b.id);
+  }
+
+  public async add(chatId: number, type: JobType, schedule: JobSchedule, createdBy?: number): Promise<ScheduledJob> {
+    const defaults = JOB_DEFAULTS[type];
+    const now = Date.now();
+    const job: ScheduledJob = {
+      id: Math.max(0, ...this.list(chatId).map(existing => existing.id)) + 1,
+      chatId,
+      type,
+      ...(defaults.prayers ? { prayers: defaults.prayers } : { time: schedule.time || defaults.time }),
+      days: schedule.days.length > 0 ? schedule.days : defaults.days,
+      createdBy,
+      createdAt: now,
+      // Nothing earlier than now is owed
+      lastOccurrence: now
+    };
+    await this.save(job);
+    return job;
+  }
+
+  public async remove(chatId: number, id: number): Promise<boolean> {
+    const key = storageKey({ chatId, id });
+    if (!this.jobs.delete(key)) {
+      return false;
+    }
+    await this.storage.delete(Collections.scheduledJobs, key);
+    return true;
+  }
+
+  private async tick(now: number = Date.now()): Promise<void> {
+    // A slow round of posts must not overlap the next one
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+    try {
+      for (const job of [...this.jobs.values()]) {
+        const occurrence = this.latestOccurrence(job, now);
+        if (occurrence === undefined || occurrence <= job.lastOccurrence) {
+          continue;
+        }
+
+        const grace = job.prayers ? MISSED_PRAYER_GRACE_MS : MISSED_JOB_GRACE_MS;
+        if (now - occurrence > grace) {
+          console.log(`⏭️ Skipping ${job.type} job ${storageKey(job)}, missed by ${Math.round((now - occurrence) / 60000)} min`);
+        } else {
+          try {
+            await this.options.run(job, new Date(occurrence));
+          } catch (error) {
+            console.error(`❌ Scheduled ${job.type} job ${storageKey(job)} failed:`, error);
+          }
+          await pause(POST_INTERVAL_MS);
+        }
+
+        // Recorded even on failure, so a broken job is not retried every minute
+        if (this.jobs.has(storageKey(job))) {
+          await this.save({ ...job, lastOccurrence: occurrence });
+        }
+      }
+    } catch (error) {
+      // Called from a timer, so nothing else would catch a failed save
+      console.error('❌ Scheduled jobs check failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /** The latest time the job fell due up to now, looking back over yesterday and today. */
+  private latestOccurrence(job: ScheduledJob, now: number): number | undefined {
+    const today = malaysianToday(new Date(now));
+    const due = [addDays(today, -1), today]
+      .flatMap(date => occurrencesOn(job, date, this.options))
+      .filter(time => time <= now);
+    return due.length > 0 ? Math.max(...due) : undefined;
+  }
+
+  private async save(job: ScheduledJob): Promise<void> {
+    this.jobs.set(storageKey(job), job);
+    await this.storage.set(Collections.scheduledJobs, storageKey(job), job);
+  }
+}
@@ -0,0 +1,234 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Names of the collections the bot keeps. Each collection is a flat
+ * key/value map of JSON-serialisable records.
+ */
+export const Collections = {
+  conversations: 'conversations',
+  groupSettings: 'groupSettings',
+  usage: 'usage',
+  answerCache: 'answerCache',
+  followUps: 'followUps',
+  groups: 'groups',
+  privateConversations: 'privateConversations',
+  zakatRates: 'zakatRates',
+  scheduledJobs: 'scheduledJobs'
+} as const;
+
+export interface StorageBackend {
+  init(): Promise<void>;
+  get<T>(collection: string, key: string): Promise<T | undefined>;
+  set<T>(collection: string, key: string, value: T): Promise<void>;
+  delete(collection: string, key: string): Promise<boolean>;
+  entries<T>(collection: string): Promise<[string, T][]>;
+  increment(collection: string, key: string, by?: number): Promise<number>;
+  flush(): Promise<void>;
+}
+
+type CollectionData = Record<string, Record<string, unknown>>;
+
+interface StorageFile {
+  version: number;
+  collections: CollectionData;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  up(collections: CollectionData): void;
+}
+
+/**
+ * Schema migrations, applied in order to files written by older versions.
+ * Append new entries; never edit one that has already shipped.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create initial collections',
+    up(collections) {
+      for (const name of ['conversations', 'groupSettings', 'usage', 'answerCache']) {
+        collections[name] = collections[name] || {};
+      }
+    }
+  },
+  {
+    version: 2,
+    description: 'Add follow-up button records',
+    up(collections) {
+      collections.followUps = collections.followUps || {};
+    }
+  },
+  {
+    version: 3,
+    description: 'Add persisted group allowlist',
+    up(collections) {
+      collections.groups = collections.groups || {};
+    }
+  },
+  {
+    version: 4,
+    description: 'Keep private chat conversations apart from group ones',
+    up(collections) {
+      collections.privateConversations = collections.privateConversations || {};
+    }
+  },
+  {
+    version: 5,
+    description: 'Add per-state zakat rate tables',
+    up(collections) {
+      collections.zakatRates = collections.zakatRates || {};
+    }
+  },
+  {
+    version: 6,
+    description: 'Add scheduled group posts',
+    up(collections) {
+      collections.scheduledJobs = collections.scheduledJobs || {};
+    }
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function migrate(file: StorageFile): StorageFile {
+  for (const migration of MIGRATIONS) {
+    if (migration.version > file.version) {
+      console.log(`Applying storage migration ${migration.version}: ${migration.description}`);
+      migration.up(file.collections);
+      file.version = migration.version;
+    }
+  }
+  return file;
+}
+
+/**
+ * Keeps everything in process memory. Used when persistence is disabled and
+ * as the base for the file-backed store.
+ */
+export class MemoryStorage implements StorageBackend {
+  protected data: StorageFile = { version: 0, collections: {} };
+
+  public async init(): Promise<void> {
+    this.data = migrate(this.data);
+  }
+
+  public async get<T>(collection: string, key: string): Promise<T | undefined> {
+    return this.collection(collection)[key] as T | undefined;
+  }
+
+  public async set<T>(collection: string, key: string, value: T): Promise<void> {
+    this.collection(collection)[key] = value;
+    this.changed();
+  }
+
+  public async delete(collection: string, key: string): Promise<boolean> {
+    const records = this.collection(collection);
+    if (!(key in records)) {
+      return false;
+    }
+    delete records[key];
+    this.changed();
+    return true;
+  }
+
+  public async entries<T>(collection: string): Promise<[string, T][]> {
+    return Object.entries(this.collection(collection)) as [string, T][];
+  }
+
+  public async increment(collection: string, key: string, by: number = 1): Promise<number> {
+    const records = this.collection(collection);
+    const value = (Number(records[key]) || 0) + by;
+    records[key] = value;
+    this.changed();
+    return value;
+  }
+
+  public async flush(): Promise<void> {}
+
+  protected changed() {}
+
+  private collection(name: string): Record<string, unknown> {
+    if (!this.data.collections[name]) {
+      this.data.collections[name] = {};
+    }
+    return this.data.collections[name];
+  }
+}
+
+/**
+ * Persists all collections to a single JSON file. Writes are debounced and
+ * go through a temporary file plus rename so a crash mid-write never leaves
+ * a truncated state file behind.
+ */
+export class FileStorage extends MemoryStorage {
+  private filePath: string;
+  private writeDelayMs: number;
+  private writeTimer: NodeJS.Timeout | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, writeDelayMs: number = 1000) {
+    super();
+    this.filePath = filePath;
+    this.writeDelayMs = writeDelayMs;
+  }
+
+  public async init(): Promise<void> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      this.data = JSON.parse(raw);
+      console.log(`✓ Loaded bot state from ${this.filePath} (schema v${this.data.version})`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Could not read storage file ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+      }
+      console.log(`No storage file at ${this.filePath}, starting fresh`);
+    }
+
+    const previousVersion = this.data.version;
+    this.data = migrate(this.data);
+    if (this.data.version !== previousVersion) {
+      await this.flush();
+    }
+  }
+
+  public async flush(): Promise<void> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+
+    // Chain writes so two flushes never race on the temporary file
+    this.pendingWrite = this.pendingWrite.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(this.data));
+      await fs.rename(tempPath, this.filePath);
+    }).catch(error => {
+      console.error('Error writing storage file:', error);
+    });
+    return this.pendingWrite;
+  }
+
+  protected changed() {
+    if (!this.writeTimer) {
+      this.writeTimer = setTimeout(() => {
+        this.writeTimer = null;
+        this.flush();
+      }, this.writeDelayMs);
+    }
+  }
+}
+
+export function createStorage(env: NodeJS.ProcessEnv): StorageBackend {
+  if (env.STORAGE === 'memory') {
+    console.log('Using in-memory storage (state is lost on restart)');
+    return new MemoryStorage();
+  }
+
+  const filePath = env.STORAGE_PATH || path.join(process.cwd(), 'data', 'bot-state.json');
+  console.log(`Using file storage at ${filePath}`);
+  return new FileStorage(filePath);
+}
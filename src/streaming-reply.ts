@@ -0,0 +1,183 @@
+import { Context, GrammyError, InlineKeyboard } from 'grammy';
+
+const MAX_LENGTH = 4000;
+const EDIT_INTERVAL_MS = 1500;
+// Telegram allows a group about 20 bot messages a minute, edits included, shared with other answers there
+const GROUP_EDIT_INTERVAL_MS = 4000;
+const TYPING_INTERVAL_MS = 4500;
+const PLACEHOLDER = '⏳ ...';
+const CURSOR = ' ▌';
+
+/**
+ * Shows an answer while it is being generated: posts a placeholder, edits it
+ * with the partial text at most once per EDIT_INTERVAL_MS (GROUP_EDIT_INTERVAL_MS
+ * in groups), spills into extra messages once the text outgrows one message
+ * and finally replaces everything with the HTML-formatted chunks. A typing action is shown until
+ * the reply is finalized.
+ */
+export class StreamingReply {
+  private ctx: Context;
+  private render: (text: string) => string[];
+  private replyToMessageId?: number;
+  private editInterval: number;
+  private messageIds: number[] = [];
+  private sentTexts: string[] = [];
+  private latestText = '';
+  private lastEditAt = 0;
+  private editTimer: NodeJS.Timeout | null = null;
+  private typingTimer: NodeJS.Timeout | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private done = false;
+
+  /**
+   * @param render Turns the final answer into HTML message chunks
+   *   (formatting plus splitting); interim updates are sent as plain text.
+   * @param replyToMessageId Message to reply to; defaults to the message the
+   *   update is about (the question, or the answer whose button was pressed).
+   */
+  constructor(ctx: Context, render: (text: string) => string[], replyToMessageId?: number) {
+    this.ctx = ctx;
+    this.render = render;
+    this.replyToMessageId = replyToMessageId ?? ctx.msg?.message_id;
+    this.editInterval = ctx.chat?.type === 'private' ? EDIT_INTERVAL_MS : GROUP_EDIT_INTERVAL_MS;
+  }
+
+  public async start(): Promise<void> {
+    this.sendTyping();
+    this.typingTimer = setInterval(() => this.sendTyping(), TYPING_INTERVAL_MS);
+
+    const placeholder = await this.ctx.reply(PLACEHOLDER, {
+      reply_to_message_id: this.replyToMessageId
+    });
+    this.messageIds.push(placeholder.message_id);
+    this.sentTexts.push(PLACEHOLDER);
+  }
+
+  /** Receives the text generated so far; safe to call for every streamed delta. */
+  public update(partialText: string) {
+    if (this.done) {
+      return;
+    }
+    this.latestText = partialText;
+
+    const wait = this.lastEditAt + this.editInterval - Date.now();
+    if (wait <= 0) {
+      this.scheduleEdit();
+    } else if (!this.editTimer) {
+      this.editTimer = setTimeout(() => {
+        this.editTimer = null;
+        this.scheduleEdit();
+      }, wait);
+    }
+  }
+
+  /**
+   * Replaces the interim messages with the formatted answer and returns their
+   * ids. An optional keyboard is attached to the last message.
+   */
+  public async finalize(answer: string, keyboard?: InlineKeyboard): Promise<number[]> {
+    this.stop();
+    await this.queue;
+
+    const chunks = this.render(answer);
+    for (let i = 0; i < chunks.length; i++) {
+      const markup = i === chunks.length - 1 ? keyboard : undefined;
+      try {
+        await this.setMessage(i, chunks[i], 'HTML', markup);
+      } catch (error) {
+        console.error('Error sending formatted chunk, falling back to plain text:', error);
+        await this.setMessage(i, chunks[i].replace(/<\/?[bi]>/g, ''), undefined, markup);
+      }
+    }
+
+    // Remove interim messages the formatted answer no longer needs
+    for (const messageId of this.messageIds.splice(chunks.length)) {
+      await this.ctx.api.deleteMessage(this.ctx.chat!.id, messageId).catch(error => {
+        console.error('Error deleting surplus streamed message:', error);
+      });
+    }
+    this.sentTexts.splice(chunks.length);
+
+    return [...this.messageIds];
+  }
+
+  /** Shows an error in place of the answer. */
+  public async fail(message: string): Promise<void> {
+    this.stop();
+    await this.queue;
+    await this.setMessage(0, message);
+  }
+
+  private stop() {
+    this.done = true;
+    if (this.editTimer) {
+      clearTimeout(this.editTimer);
+      this.editTimer = null;
+    }
+    if (this.typingTimer) {
+      clearInterval(this.typingTimer);
+      this.typingTimer = null;
+    }
+  }
+
+  private scheduleEdit() {
+    this.lastEditAt = Date.now();
+    const chunks = this.splitPlain(this.latestText);
+    this.queue = this.queue
+      .then(async () => {
+        for (let i = 0; i < chunks.length; i++) {
+          const isLast = i === chunks.length - 1;
+          await this.setMessage(i, isLast ? chunks[i] + CURSOR : chunks[i]);
+        }
+      })
+      .catch(error => console.error('Error updating streamed reply:', error));
+  }
+
+  private async setMessage(index: number, text: string, parseMode?: 'HTML', keyboard?: InlineKeyboard) {
+    const options = {
+      ...(parseMode ? { parse_mode: parseMode } : {}),
+      ...(keyboard ? { reply_markup: keyboard } : {})
+    };
+
+    if (index >= this.messageIds.length) {
+      const sent = await this.ctx.reply(text, {
+        ...options,
+        reply_to_message_id: this.replyToMessageId
+      });
+      this.messageIds.push(sent.message_id);
+    } else if (this.sentTexts[index] !== text || parseMode || keyboard) {
+      try {
+        await this.ctx.api.editMessageText(this.ctx.chat!.id, this.messageIds[index], text, options);
+      } catch (error) {
+        // Telegram rejects edits that do not change anything
+        if (!(error instanceof GrammyError && error.description.includes('message is not modified'))) {
+          throw error;
+        }
+      }
+    }
+    this.sentTexts[index] = text;
+  }
+
+  private splitPlain(text: string): string[] {
+    const chunks: string[] = [];
+    let remaining = text;
+
+    while (remaining.length > MAX_LENGTH) {
+      let splitIndex = remaining.lastIndexOf('\n\n', MAX_LENGTH);
+      if (splitIndex <= 0) {
+        splitIndex = MAX_LENGTH;
+      }
+      chunks.push(remaining.slice(0, splitIndex));
+      remaining = remaining.slice(splitIndex).trim();
+    }
+    chunks.push(remaining || PLACEHOLDER);
+
+    return chunks;
+  }
+
+  private sendTyping() {
+    this.ctx.replyWithChatAction('typing').catch(error => {
+      console.error('Error sending typing action:', error);
+    });
+  }
+}
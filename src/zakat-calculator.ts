@@ -0,0 +1,328 @@
+import { Collections, StorageBackend } from './storage';
+import { MALAYSIAN_STATES } from './malaysian-states';
+import { Locale, MessageKey, t } from './messages';
+
+export type ZakatType = 'pendapatan' | 'simpanan' | 'emas' | 'perniagaan' | 'fitrah';
+
+export const ZAKAT_TYPES: ZakatType[] = ['pendapatan', 'simpanan', 'emas', 'perniagaan', 'fitrah'];
+
+/** A state's figures, bundled for a year or set by admins as its zakat authority announces them. */
+export interface ZakatRates {
+  // Nisab in RM; when unset it is worked out from 85 g of gold at goldPrice
+  nisab?: number;
+  // Current gold price in RM per gram
+  goldPrice?: number;
+  // Grams of worn jewellery customary in the state (uruf), which are exempt
+  uruf?: number;
+  // Fitrah per person in RM, one amount per grade of rice the state lists
+  fitrah?: number[];
+  // The year bundled figures apply to
+  year?: number;
+  updatedBy?: number;
+  updatedAt?: number;
+}
+
+export type ZakatRateField = 'nisab' | 'emas' | 'uruf' | 'fitrah';
+
+export const ZAKAT_RATE_FIELDS: ZakatRateField[] = ['nisab', 'emas', 'uruf', 'fitrah'];
+
+/** Answers collected so far; choices are strings and amounts numbers. */
+export type ZakatInputs = Record<string, string | number>;
+
+export type ZakatStep =
+  | { kind: 'choice'; field: string; options: string[] }
+  | { kind: 'amount'; field: string; whole?: boolean };
+
+/** One user's /zakat calculation in a chat, kept in memory while it is answered. */
+export interface ZakatSession {
+  id: string;
+  chatId: number;
+  userId: number;
+  locale: Locale;
+  type?: ZakatType;
+  state?: string;
+  inputs: ZakatInputs;
+  // The prompt an amount is typed in reply to
+  promptMessageId?: number;
+  // The finished working, handed to the agent for the fiqh explanation
+  working?: string;
+  updatedAt: number;
+}
+
+export interface ZakatResult {
+  due: boolean;
+  // Zakat payable in RM, 0 when the wealth is below nisab
+  amount: number;
+  // Markdown lines showing how the figure was reached
+  working: string[];
+}
+
+// Zakat on wealth is a quarter of a tenth
+const RATE = 0.025;
+// Nisab of gold is 20 mithqal, taken in Malaysia as 85 grams
+const GOLD_NISAB_GRAMS = 85;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function formatRinggit(value: number): string {
+  return `RM ${value.toLocaleString('en-MY', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatGrams(value: number): string {
+  return `${value.toLocaleString('en-MY', { maximumFractionDigits: 2 })} g`;
+}
+
+/** The nisab in RM, if the state has a nisab or a gold price to work it out from. */
+export function nisabFor(rates: ZakatRates): number | undefined {
+  return rates.nisab ?? (rates.goldPrice ? round(rates.goldPrice * GOLD_NISAB_GRAMS) : undefined);
+}
+
+/** Rate fields a calculation needs that the state has not set. */
+export function missingRates(type: ZakatType, rates: ZakatRates, inputs: ZakatInputs = {}): ZakatRateField[] {
+  switch (type) {
+    case 'pendapatan':
+    case 'simpanan':
+    case 'perniagaan':
+      return nisabFor(rates) === undefined ? ['nisab'] : [];
+    case 'emas': {
+      const missing: ZakatRateField[] = rates.goldPrice ? [] : ['emas'];
+      return inputs.use === 'pakai' && rates.uruf === undefined ? [...missing, 'uruf'] : missing;
+    }
+    case 'fitrah':
+      return rates.fitrah?.length ? [] : ['fitrah'];
+  }
+}
+
+/**
+ * The next thing to ask the user, or undefined once every input is in.
+ * Steps depend on earlier answers, such as deductions for the net method.
+ */
+export function nextStep(type: ZakatType, inputs: ZakatInputs, rates: ZakatRates): ZakatStep | undefined {
+  const steps: ZakatStep[] = [];
+  switch (type) {
+    case 'pendapatan':
+      steps.push({ kind: 'choice', field: 'method', options: ['kasar', 'bersih'] }, { kind: 'amount', field: 'income' });
+      if (inputs.method === 'bersih') {
+        steps.push({ kind: 'amount', field: 'deductions' });
+      }
+      break;
+    case 'simpanan':
+      steps.push({ kind: 'amount', field: 'balance' });
+      break;
+    case 'emas':
+      steps.push({ kind: 'choice', field: 'use', options: ['simpan', 'pakai'] }, { kind: 'amount', field: 'grams' });
+      break;
+    case 'perniagaan':
+      steps.push({ kind: 'amount', field: 'assets' }, { kind: 'amount', field: 'liabilities' });
+      break;
+    case 'fitrah':
+      steps.push(
+        { kind: 'choice', field: 'rate', options: (rates.fitrah || []).map(String) },
+        { kind: 'amount', field: 'people', whole: true }
+      );
+      break;
+  }
+  return steps.find(step => inputs[step.field] === undefined);
+}
+
+/** Reads "3500", "RM 3,500.50" or "3.5k" as an amount; whole numbers only for counts. */
+export function parseAmount(text: string, whole: boolean = false): number | undefined {
+  const match = text.trim().toLowerCase().replace(/^rm\s*/, '').replace(/,/g, '').match(/^(\d+(?:\.\d+)?)\s*(k)?$/);
+  if (!match) {
+    return undefined;
+  }
+  const value = Number(match[1]) * (match[2] ? 1000 : 1);
+  return whole && !Number.isInteger(value) ? undefined : value;
+}
+
+/** Works out the zakat from the user's inputs and the state's rates, with the working. */
+export function calculateZakat(
+  type: ZakatType,
+  inputs: ZakatInputs,
+  rates: ZakatRates,
+  stateName: string,
+  locale: Locale
+): ZakatResult {
+  const line = (key: MessageKey, params: Record<string, string | number> = {}) => t(locale, key, params);
+  const working: string[] = [];
+
+  // Wealth measured against the nisab in RM, then charged at 2.5%
+  const againstNisab = (base: number): ZakatResult => {
+    const nisab = nisabFor(rates)!;
+    working.push(rates.nisab !== undefined
+      ? line('zakat.work.nisab', { state: stateName, nisab: formatRinggit(nisab) })
+      : line('zakat.work.nisabFromGold', {
+        state: stateName, grams: GOLD_NISAB_GRAMS, price: formatRinggit(rates.goldPrice!), nisab: formatRinggit(nisab)
+      }));
+    if (base < nisab) {
+      working.push(line('zakat.work.belowNisab', { base: formatRinggit(base), nisab: formatRinggit(nisab) }));
+      return { due: false, amount: 0, working };
+    }
+    const amount = round(base * RATE);
+    working.push(
+      line('zakat.work.reachesNisab', { base: formatRinggit(base), nisab: formatRinggit(nisab) }),
+      line('zakat.work.zakat', { base: formatRinggit(base), zakat: formatRinggit(amount) })
+    );
+    return { due: true, amount, working };
+  };
+
+  switch (type) {
+    case 'pendapatan': {
+      const income = Number(inputs.income);
+      const net = inputs.method === 'bersih';
+      working.push(line('zakat.work.method', { method: line(`zakat.option.${inputs.method}` as MessageKey) }));
+      const annual = net ? Math.max(0, (income - Number(inputs.deductions)) * 12) : income * 12;
+      working.push(net
+        ? line('zakat.work.netIncome', {
+          income: formatRinggit(income), deductions: formatRinggit(Number(inputs.deductions)), annual: formatRinggit(annual)
+        })
+        : line('zakat.work.grossIncome', { income: formatRinggit(income), annual: formatRinggit(annual) }));
+      const result = againstNisab(annual);
+      if (result.due) {
+        working.push(line('zakat.work.monthly', { amount: formatRinggit(round(result.amount / 12)) }));
+      }
+      return result;
+    }
+    case 'simpanan': {
+      const balance = Number(inputs.balance);
+      working.push(line('zakat.work.balance', { balance: formatRinggit(balance) }));
+      return againstNisab(balance);
+    }
+    case 'perniagaan': {
+      const assets = Number(inputs.assets);
+      const liabilities = Number(inputs.liabilities);
+      const capital = Math.max(0, assets - liabilities);
+      working.push(line('zakat.work.workingCapital', {
+        assets: formatRinggit(assets), liabilities: formatRinggit(liabilities), capital: formatRinggit(capital)
+      }));
+      return againstNisab(capital);
+    }
+    case 'emas': {
+      const grams = Number(inputs.grams);
+      const price = rates.goldPrice!;
+      working.push(line(`zakat.work.gold.${inputs.use}` as MessageKey, { grams: formatGrams(grams) }));
+
+      // Kept gold is measured against the nisab by weight, worn gold against the uruf
+      const exempt = inputs.use === 'pakai' ? rates.uruf! : GOLD_NISAB_GRAMS;
+      const limit = { grams: formatGrams(grams), limit: formatGrams(exempt), state: stateName };
+      if (inputs.use === 'pakai' ? grams <= exempt : grams < exempt) {
+        working.push(line(inputs.use === 'pakai' ? 'zakat.work.withinUruf' : 'zakat.work.belowGoldNisab', limit));
+        return { due: false, amount: 0, working };
+      }
+      const zakatable = inputs.use === 'pakai' ? grams - exempt : grams;
+      const value = round(zakatable * price);
+      const amount = round(value * RATE);
+      working.push(
+        line(inputs.use === 'pakai' ? 'zakat.work.aboveUruf' : 'zakat.work.reachesGoldNisab', limit),
+        line('zakat.work.goldValue', { grams: formatGrams(zakatable), price: formatRinggit(price), value: formatRinggit(value) }),
+        line('zakat.work.zakat', { base: formatRinggit(value), zakat: formatRinggit(amount) })
+      );
+      if (inputs.use === 'pakai') {
+        working.push(`*${line('zakat.work.urufNote')}*`);
+      }
+      return { due: true, amount, working };
+    }
+    case 'fitrah': {
+      const people = Number(inputs.people);
+      const rate = Number(inputs.rate);
+      const amount = round(people * rate);
+      working.push(line('zakat.work.fitrah', { people, rate: formatRinggit(rate), zakat: formatRinggit(amount) }));
+      return { due: amount > 0, amount, working };
+    }
+  }
+}
+
+/** Reads an admin's value for a rate field; "padam" clears it back to the bundled figure. Returns null when it does not parse. */
+export function parseRateValue(field: ZakatRateField, value: string): number | number[] | undefined | null {
+  if (/^(padam|tiada|none|clear)$/i.test(value.trim())) {
+    return undefined;
+  }
+  if (field === 'fitrah') {
+    const amounts = value.split(/[,\s]+/).filter(part => part.length > 0).map(part => parseAmount(part));
+    return amounts.length > 0 && amounts.every(amount => amount !== undefined && amount > 0)
+      ? (amounts as number[]).sort((a, b) => a - b)
+      : null;
+  }
+  const amount = parseAmount(value);
+  return amount !== undefined && amount > 0 ? amount : null;
+}
+
+/** "Nisab RM 24,000.00 · emas RM 400.00/g · …" summary of a state's figures. */
+export function describeRates(rates: ZakatRates, locale: Locale): string {
+  const parts: string[] = [];
+  if (rates.nisab !== undefined) {
+    parts.push(t(locale, 'zakat.rates.nisab', { value: formatRinggit(rates.nisab) }));
+  }
+  if (rates.goldPrice !== undefined) {
+    parts.push(t(locale, 'zakat.rates.emas', { value: formatRinggit(rates.goldPrice) }));
+  }
+  if (rates.uruf !== undefined) {
+    parts.push(t(locale, 'zakat.rates.uruf', { value: formatGrams(rates.uruf) }));
+  }
+  if (rates.fitrah?.length) {
+    parts.push(t(locale, 'zakat.rates.fitrah', { value: rates.fitrah.map(formatRinggit).join(', ') }));
+  }
+  return parts.join(' · ');
+}
+
+// The year of the figures below. Nisab is left to follow from 85 g of gold at the gold price.
+// Check these against each state's announcement and set newer ones with /zakatrate.
+const DEFAULT_RATES_YEAR = 2025;
+const DEFAULT_GOLD_PRICE = 400;
+const DEFAULT_FITRAH = [7];
+
+const DEFAULT_URUF: Record<string, number> = {
+  johor: 850, kedah: 170, kelantan: 200, melaka: 180, nsembilan: 200, pahang: 200, perak: 500,
+  perlis: 500, pinang: 165, sabah: 100, sarawak: 743, selangor: 800, terengganu: 850, wilayah: 800
+};
+
+/** Bundled figures for every state, used for any field /zakatrate has not set. */
+export const DEFAULT_ZAKAT_RATES: Record<string, ZakatRates> = Object.fromEntries(
+  Object.entries(DEFAULT_URUF).map(([stateId, uruf]) => [
+    stateId,
+    { goldPrice: DEFAULT_GOLD_PRICE, uruf, fitrah: DEFAULT_FITRAH, year: DEFAULT_RATES_YEAR }
+  ])
+);
+
+/**
+ * Per-state nisab, gold price, uruf and fitrah amounts for /zakat. Each state
+ * starts from DEFAULT_ZAKAT_RATES; states announce new figures every year, so
+ * admins override them field by field with /zakatrate. Lookups are
+ * synchronous against an in-memory copy.
+ */
+export class ZakatRateStore {
+  private storage: StorageBackend;
+  private records: Map<string, ZakatRates> = new Map();
+
+  constructor(storage: StorageBackend) {
+    this.storage = storage;
+  }
+
+  public async load(): Promise<void> {
+    for (const [stateId, record] of await this.storage.entries<ZakatRates>(Collections.zakatRates)) {
+      this.records.set(stateId, record);
+    }
+    console.log(`✓ Loaded zakat rate overrides for ${this.records.size} state(s)`);
+  }
+
+  /** The state's figures, with any set through /zakatrate in place of the bundled ones. */
+  public get(stateId: string): ZakatRates {
+    return { ...DEFAULT_ZAKAT_RATES[stateId], ...this.records.get(stateId) };
+  }
+
+  /** Every state's figures, in the order of MALAYSIAN_STATES. */
+  public list(): [string, ZakatRates][] {
+    return MALAYSIAN_STATES.map(state => [state.id, this.get(state.id)]);
+  }
+
+  public async update(stateId: string, field: ZakatRateField, value: number | number[] | undefined, updatedBy?: number): Promise<ZakatRates> {
+    const key = field === 'emas' ? 'goldPrice' : field;
+    const record: ZakatRates = { ...this.records.get(stateId), [key]: value, updatedBy, updatedAt: Date.now() };
+    if (value === undefined) {
+      delete record[key];
+    }
+    this.records.set(stateId, record);
+    await this.storage.set(Collections.zakatRates, stateId, record);
+    return this.get(stateId);
+  }
+}
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentRouter, RoutingCandidate } from '../src/agent-router';
+import { BatchClassifier } from '../src/agent-classifier';
+import { ScriptedProvider } from '../src/llm-provider';
+
+// Just enough of an agent for routing
+function candidate(name: string, keywords: string[], topics: string[]): RoutingCandidate {
+  const agent = {
+    getKeywords: () => keywords,
+    getTopics: () => topics,
+    getResponseThreshold: () => 0.5,
+    matchKeywords: (text: string) => keywords.filter(keyword => text.toLowerCase().includes(keyword)),
+    shouldRespond: async () => ({ score: 0, reason: 'Not asked', matchedKeywords: [] })
+  };
+  return { name, agent };
+}
+
+const candidates = () => [
+  candidate('fatwa', ['fatwa', 'haram', 'halal'], ['Islamic rulings']),
+  candidate('ibadah', ['puasa', 'solat', 'wuduk'], ['Worship practices'])
+];
+
+test('a clear keyword match is routed without calling the LLM', async () => {
+  const provider = new ScriptedProvider(['{}']);
+  const router = new AgentRouter(candidates(), new BatchClassifier(provider));
+
+  const result = await router.route('batal wuduk bila solat');
+  assert.equal(result.selected?.name, 'ibadah');
+  assert.equal(provider.calls.length, 0);
+});
+
+test('an ambiguous question is scored by one classifier call', async () => {
+  const provider = new ScriptedProvider([
+    '{"scores": {"fatwa": {"score": 0.9, "reason": "Ruling on a product"}, "ibadah": {"score": 0.2, "reason": "Not worship"}}}'
+  ]);
+  const router = new AgentRouter(candidates(), new BatchClassifier(provider));
+
+  const result = await router.route('is this skincare brand ok to use?');
+  assert.equal(result.selected?.name, 'fatwa');
+  assert.equal(result.selected?.decision.reason, 'Ruling on a product');
+  assert.equal(provider.calls.length, 1);
+  const prompt = provider.calls[0].messages[0].content;
+  assert.match(prompt, /- fatwa\n/);
+  assert.match(prompt, /- ibadah\n/);
+  assert.equal(provider.calls[0].messages[1].content, 'is this skincare brand ok to use?');
+});
+
+test('only the enabled agents are considered', async () => {
+  const provider = new ScriptedProvider(['{"scores": {"fatwa": {"score": 0.1, "reason": "Off topic"}}}']);
+  const router = new AgentRouter(candidates(), new BatchClassifier(provider));
+
+  const result = await router.route('batal wuduk bila solat', ['fatwa']);
+  assert.equal(result.selected, null);
+  assert.deepEqual(result.ranked.map(entry => entry.name), ['fatwa']);
+});
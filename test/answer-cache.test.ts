@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnswerCache, normalizeQuestion } from '../src/answer-cache';
+import { MemoryStorage } from '../src/storage';
+
+const answer = (text: string) => async () => text;
+
+test('normalizeQuestion drops punctuation, shorthand and filler words', () => {
+  assert.equal(normalizeQuestion('Apa hukum solat jamak?'), 'hukum solat jamak');
+  assert.equal(normalizeQuestion('tolong, hkm sembahyang jamak ye'), 'hukum solat jamak');
+  assert.equal(normalizeQuestion('apa ye?'), '');
+});
+
+test('the same question asked differently is answered from the cache', async () => {
+  const cache = new AnswerCache(new MemoryStorage());
+  assert.deepEqual(await cache.getOrGenerate('fiqh', 'Apa hukum solat jamak?', answer('first')), { answer: 'first', cached: false });
+  assert.deepEqual(await cache.getOrGenerate('fiqh', 'hkm sembahyang jamak', answer('second')), { answer: 'first', cached: true });
+  // Other agents and other chat preferences have their own answers
+  assert.equal((await cache.getOrGenerate('ibadah', 'hukum solat jamak', answer('third'))).cached, false);
+  assert.equal((await cache.getOrGenerate('fiqh', 'hukum solat jamak', answer('fourth'), undefined, 'en')).cached, false);
+});
+
+test('questions with nothing left after normalizing and uncacheable answers are not stored', async () => {
+  const cache = new AnswerCache(new MemoryStorage());
+  await cache.getOrGenerate('fiqh', 'apa ye?', answer('first'));
+  await cache.getOrGenerate('fiqh', 'hukum qunut', answer('error'), text => text !== 'error');
+  assert.equal((await cache.stats()).entries, 0);
+});
+
+test('expired answers are generated again and pruned', async () => {
+  const cache = new AnswerCache(new MemoryStorage(), 0);
+  await cache.getOrGenerate('fiqh', 'hukum qunut', answer('first'));
+  assert.deepEqual(await cache.getOrGenerate('fiqh', 'hukum qunut', answer('second')), { answer: 'second', cached: false });
+  assert.equal(await cache.pruneExpired(), 1);
+  assert.equal((await cache.stats()).entries, 0);
+});
+
+test('invalidate removes a question for every agent', async () => {
+  const cache = new AnswerCache(new MemoryStorage());
+  await cache.getOrGenerate('fiqh', 'hukum qunut', answer('first'));
+  await cache.getOrGenerate('ibadah', 'hukum qunut', answer('second'));
+  await cache.getOrGenerate('fiqh', 'hukum azan', answer('third'));
+  assert.equal(await cache.invalidate('Hukum qunut?'), 2);
+  assert.equal(await cache.invalidate(), 1);
+});
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConversationStore } from '../src/conversation-store';
+
+const exchange = (questionMessageId: number, answerMessageIds: number[], replyToMessageId?: number, answer = `Answer ${questionMessageId}`) => ({
+  chatId: 1, questionMessageId, replyToMessageId, question: `Question ${questionMessageId}`, answer, answerMessageIds
+});
+
+test('a reply to any message of a thread continues it', () => {
+  const store = new ConversationStore();
+  const thread = store.recordExchange(exchange(10, [11, 12]));
+  assert.equal(store.findThread(1, 10)?.id, thread.id);
+  assert.equal(store.findThread(1, 12)?.id, thread.id);
+  assert.equal(store.findThread(2, 12), undefined);
+  assert.equal(store.findThread(1, undefined), undefined);
+
+  store.recordExchange(exchange(20, [21], 12));
+  assert.deepEqual(store.getHistory(1, 21).map(({ content }) => content), ['Question 10', 'Answer 10', 'Question 20', 'Answer 20']);
+  // A message outside any thread starts a new one
+  assert.notEqual(store.recordExchange(exchange(30, [31], 99)).id, thread.id);
+});
+
+test('threads keep only the latest turns and the least recently used threads are evicted', () => {
+  const store = new ConversationStore({ maxTurnsPerThread: 4, maxThreads: 2 });
+  store.recordExchange(exchange(10, [11]));
+  store.recordExchange(exchange(20, [21], 11));
+  store.recordExchange(exchange(30, [31], 21));
+  assert.deepEqual(store.getHistory(1, 31).map(({ content }) => content), ['Question 20', 'Answer 20', 'Question 30', 'Answer 30']);
+  assert.equal(store.findThread(1, 11), undefined);
+
+  store.recordExchange(exchange(40, [41]));
+  store.recordExchange(exchange(50, [51]));
+  assert.equal(store.findThread(1, 31), undefined);
+  assert.ok(store.findThread(1, 41));
+});
+
+test('history keeps the newest turns that fit the budget and trims the next one', () => {
+  const store = new ConversationStore({ tokenBudget: 200 });
+  store.recordExchange(exchange(10, [11], undefined, 'a'.repeat(400)));
+  store.recordExchange(exchange(20, [21], 11, 'b'.repeat(400)));
+  const history = store.getHistory(1, 21);
+  assert.deepEqual(history.slice(-2).map(({ content }) => content), ['Question 20', 'b'.repeat(400)]);
+  assert.equal(history[0].role, 'user');
+  assert.ok(history.reduce((total, { content }) => total + ConversationStore.estimateTokens(content), 0) <= 200);
+});
+
+test('a latest answer longer than the budget is trimmed and keeps its question', () => {
+  const store = new ConversationStore({ tokenBudget: 1500 });
+  store.recordExchange(exchange(10, [11], undefined, 'x'.repeat(8000)));
+  const history = store.getHistory(1, 11);
+  assert.equal(history.length, 2);
+  assert.deepEqual(history[0], { role: 'user', content: 'Question 10' });
+  assert.ok(history[1].content.endsWith('…'));
+  assert.ok(ConversationStore.estimateTokens(history[1].content) <= 1500);
+});
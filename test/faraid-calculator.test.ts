@@ -0,0 +1,124 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateFaraid, FaraidResult, formatFraction, Heirs, parseHeirs } from '../src/faraid-calculator';
+
+const shares = (result: FaraidResult) =>
+  Object.fromEntries(result.shares.map(({ heir, share }) => [heir, formatFraction(share)]));
+const excluded = (result: FaraidResult) =>
+  Object.fromEntries(result.excluded.map(({ heir, by }) => [heir, by]));
+
+const divide = (heirs: Heirs) => {
+  const result = calculateFaraid(heirs);
+  const total = result.shares.reduce((sum, { share }) => sum + share.numerator / share.denominator, 0) +
+    (result.baitulmal ? result.baitulmal.numerator / result.baitulmal.denominator : 0);
+  assert.ok(Math.abs(total - 1) < 1e-9, `shares add up to ${total}`);
+  return result;
+};
+
+test('children share the residue two to one', () => {
+  assert.deepEqual(shares(divide({ son: 1, daughter: 1 })), { son: '2/3', daughter: '1/3' });
+  assert.deepEqual(shares(divide({ wife: 2, son: 3, daughter: 2 })), { wife: '1/8', son: '21/32', daughter: '7/32' });
+});
+
+test('the father takes a sixth with a son and the residue as well with only daughters', () => {
+  assert.deepEqual(shares(divide({ father: 1, son: 2 })), { son: '5/6', father: '1/6' });
+  const result = divide({ father: 1, daughter: 1 });
+  assert.deepEqual(shares(result), { daughter: '1/2', father: '1/2' });
+  assert.equal(result.shares.find(({ heir }) => heir === 'father')?.basis, 'fardhAsabah');
+});
+
+test('nearer heirs exclude further ones', () => {
+  const result = divide({ son: 1, sonsSon: 1, fullBrother: 1 });
+  assert.deepEqual(shares(result), { son: '1/1' });
+  assert.deepEqual(excluded(result), { sonsSon: 'son', fullBrother: 'son' });
+  assert.deepEqual(excluded(divide({ fullUncle: 1, fullCousin: 3 })), { fullCousin: 'fullUncle' });
+});
+
+test('siblings reduce the mother to a sixth even when excluded', () => {
+  const result = divide({ father: 1, mother: 1, fullBrother: 2 });
+  assert.deepEqual(shares(result), { father: '5/6', mother: '1/6' });
+  assert.deepEqual(excluded(result), { fullBrother: 'father' });
+});
+
+test("the son's daughter completes the two thirds and the sister takes the rest", () => {
+  assert.deepEqual(shares(divide({ daughter: 1, sonsDaughter: 1, fullSister: 1 })), { daughter: '1/2', sonsDaughter: '1/6', fullSister: '1/3' });
+  assert.deepEqual(shares(divide({ daughter: 2, sonsDaughter: 1, sonsSon: 1 })), { daughter: '2/3', sonsSon: '2/9', sonsDaughter: '1/9' });
+});
+
+test('uterine siblings share a third by heads', () => {
+  assert.deepEqual(shares(divide({ wife: 1, maternalBrother: 2, fullUncle: 1 })), { wife: '1/4', maternalBrother: '1/3', fullUncle: '5/12' });
+});
+
+test('Umariyyatain gives the mother a third of what the spouse leaves', () => {
+  const husband = divide({ husband: 1, father: 1, mother: 1 });
+  assert.deepEqual(shares(husband), { husband: '1/2', father: '1/3', mother: '1/6' });
+  assert.equal(husband.specialCase, 'umariyyatain');
+  assert.deepEqual(shares(divide({ wife: 1, father: 1, mother: 1 })), { wife: '1/4', father: '1/2', mother: '1/4' });
+});
+
+test('Musyarakah lets the full brother share the uterine third', () => {
+  const result = divide({ husband: 1, mother: 1, maternalBrother: 2, fullBrother: 1 });
+  assert.deepEqual(shares(result), { husband: '1/2', mother: '1/6', fullBrother: '1/9', maternalBrother: '2/9' });
+  assert.equal(result.specialCase, 'musyarakah');
+});
+
+test('Akdariyyah pools the sister and grandfather shares after awl to 9', () => {
+  const result = divide({ husband: 1, mother: 1, grandfather: 1, fullSister: 1 });
+  assert.deepEqual(shares(result), { husband: '1/3', mother: '2/9', grandfather: '8/27', fullSister: '4/27' });
+  assert.equal(result.specialCase, 'akdariyyah');
+  assert.equal(result.base, 6);
+  assert.equal(result.awl, 9);
+});
+
+test('awl raises the base when the fixed shares exceed the estate', () => {
+  const sisters = divide({ husband: 1, fullSister: 2 });
+  assert.deepEqual(shares(sisters), { husband: '3/7', fullSister: '4/7' });
+  assert.equal(sisters.awl, 7);
+  assert.equal(divide({ husband: 1, daughter: 2, mother: 1 }).awl, 13);
+  assert.equal(divide({ wife: 1, mother: 1, fullSister: 2, maternalSister: 2 }).awl, 17);
+  // Al-Minbariyyah
+  const minbariyyah = divide({ wife: 1, daughter: 2, father: 1, mother: 1 });
+  assert.deepEqual(shares(minbariyyah), { wife: '1/9', daughter: '16/27', father: '4/27', mother: '4/27' });
+  assert.equal(minbariyyah.base, 24);
+  assert.equal(minbariyyah.awl, 27);
+});
+
+test('radd returns the residue to the sharers other than the spouse', () => {
+  const mother = divide({ mother: 1, daughter: 1 });
+  assert.deepEqual(shares(mother), { daughter: '3/4', mother: '1/4' });
+  assert.equal(mother.radd, true);
+  assert.deepEqual(shares(divide({ wife: 1, daughter: 1 })), { wife: '1/8', daughter: '7/8' });
+  assert.deepEqual(shares(divide({ fullSister: 1, paternalSister: 1 })), { fullSister: '3/4', paternalSister: '1/4' });
+});
+
+test('a residue with nobody to return it to goes to Baitulmal', () => {
+  const result = divide({ husband: 1 });
+  assert.deepEqual(shares(result), { husband: '1/2' });
+  assert.equal(result.radd, false);
+  assert.deepEqual(result.baitulmal, { numerator: 1, denominator: 2 });
+});
+
+test('the grandfather takes the best of sharing, a third of the rest or a sixth', () => {
+  assert.deepEqual(shares(divide({ grandfather: 1, fullBrother: 1 })), { grandfather: '1/2', fullBrother: '1/2' });
+  assert.deepEqual(shares(divide({ grandfather: 1, fullBrother: 3 })), { grandfather: '1/3', fullBrother: '2/3' });
+  assert.deepEqual(shares(divide({ husband: 1, mother: 1, grandfather: 1, fullBrother: 2 })), { husband: '1/2', mother: '1/6', grandfather: '1/6', fullBrother: '1/6' });
+  assert.deepEqual(shares(divide({ grandfather: 1, daughter: 1, fullSister: 1 })), { daughter: '1/2', grandfather: '1/3', fullSister: '1/6' });
+});
+
+test("mu'addah counts paternal siblings against the grandfather", () => {
+  assert.deepEqual(shares(divide({ grandfather: 1, fullSister: 1, paternalBrother: 1 })), { grandfather: '2/5', fullSister: '1/2', paternalBrother: '1/10' });
+  // The full sister's share takes everything the grandfather leaves
+  const result = divide({ mother: 1, grandfather: 1, fullSister: 1, paternalSister: 1 });
+  assert.deepEqual(shares(result), { mother: '1/6', grandfather: '5/12', fullSister: '5/12' });
+  assert.deepEqual(excluded(result), { paternalSister: 'fullSister' });
+});
+
+test('parseHeirs reads counts in Malay and English', () => {
+  assert.deepEqual(parseHeirs('isteri, 2 anak lelaki, anak perempuan x3 dan ibu'), {
+    heirs: { wife: 1, son: 2, daughter: 3, mother: 1 }, unknown: []
+  });
+  assert.deepEqual(parseHeirs('wife, 2 sons, daughter and mother'), {
+    heirs: { wife: 1, son: 2, daughter: 1, mother: 1 }, unknown: []
+  });
+  assert.deepEqual(parseHeirs('datuk sebelah ibu, anak lelaki'), { heirs: { son: 1 }, unknown: ['datuk sebelah ibu'] });
+});
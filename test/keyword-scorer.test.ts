@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { KeywordScorer, ScorableAgent, stem, tokenize } from '../src/keyword-scorer';
+
+const agent = (name: string, keywords: string[], topics: string[]): ScorableAgent => ({
+  name,
+  agent: { getKeywords: () => keywords, getTopics: () => topics }
+});
+
+test('stem removes Malay affixes and particles', () => {
+  assert.equal(stem('berpuasa'), 'puasa');
+  assert.equal(stem('puasanya'), 'puasa');
+  assert.equal(stem('solatlah'), 'solat');
+  assert.equal(stem('menyembah'), 'sembah');
+  assert.equal(stem('mengambil'), 'ambil');
+  assert.equal(stem('diharamkan'), 'haram');
+  assert.equal(stem('kebenaran'), 'benar');
+  assert.equal(stem('pengajaran'), 'ajar');
+});
+
+test('stem removes English inflections', () => {
+  assert.equal(stem('prayers'), 'prayer');
+  assert.equal(stem('praying'), 'pray');
+  assert.equal(stem('fasting'), 'fast');
+});
+
+test('stem maps Malay inflections onto the stem of the plain word', () => {
+  assert.equal(stem('memakan'), stem('makan'));
+  assert.equal(stem('meminum'), stem('minum'));
+  assert.equal(stem('memukul'), stem('pukul'));
+  assert.equal(stem('memakai'), stem('pakai'));
+  assert.equal(stem('bercerai'), stem('cerai'));
+  assert.equal(stem('memiliki'), 'milik');
+});
+
+test('stem does not strip English endings from Malay words', () => {
+  assert.equal(stem('menulis'), 'tulis');
+  assert.equal(stem('tulis'), 'tulis');
+  assert.equal(stem('ikhlas'), 'ikhlas');
+});
+
+test('stem leaves short and non-alphabetic words alone', () => {
+  assert.equal(stem('zakat'), 'zakat');
+  assert.equal(stem('ke'), 'ke');
+  assert.equal(stem('2:255'), '2:255');
+});
+
+test('tokenize expands chat shorthand and spelling variants', () => {
+  assert.deepEqual(tokenize('Yg mana hukum sembahyang'), ['yang', 'mana', 'hukum', 'solat']);
+  assert.deepEqual(tokenize('pandangan syafie utk zakah'), ['pandangan', 'shafii', 'untuk', 'zakat']);
+});
+
+test('tokenize reads "x" as "tak" only before a word', () => {
+  assert.deepEqual(tokenize('x boleh ke'), ['tak', 'boleh', 'ke']);
+  assert.deepEqual(tokenize('2 x'), ['2', 'x']);
+  assert.deepEqual(tokenize('solat 2 x sehari'), ['solat', '2', 'x', 'sehari']);
+});
+
+test("tokenize drops apostrophes and collapses reduplication", () => {
+  assert.deepEqual(tokenize("Shafi'i anak-anak"), ['shafii', 'anak']);
+});
+
+test('scorer ranks the agent with the more specific keyword higher', () => {
+  const scores = new KeywordScorer().score('hukum berpuasa sunat isnin', [
+    agent('fatwa', ['hukum', 'fatwa', 'haram'], ['Islamic rulings']),
+    agent('ibadah', ['hukum', 'puasa', 'solat'], ['Fasting and prayer'])
+  ]);
+  assert.deepEqual(scores.get('ibadah')!.matchedKeywords, ['hukum', 'puasa']);
+  assert.deepEqual(scores.get('fatwa')!.matchedKeywords, ['hukum']);
+  assert.ok(scores.get('ibadah')!.score > scores.get('fatwa')!.score);
+});
+
+test('scorer weights down keywords shared by several agents', () => {
+  const shared = new KeywordScorer().score('hukum', [
+    agent('fatwa', ['hukum'], []),
+    agent('ibadah', ['hukum'], [])
+  ]).get('fatwa')!.score;
+  const own = new KeywordScorer().score('hukum', [
+    agent('fatwa', ['hukum'], []),
+    agent('ibadah', ['puasa'], [])
+  ]).get('fatwa')!.score;
+  assert.ok(shared < own);
+});
+
+test('scorer gives multi-word keywords a phrase bonus', () => {
+  const scorer = new KeywordScorer();
+  const candidates = [agent('mazhab', ['mazhab shafii', 'mazhab'], []), agent('other', ['shafii'], [])];
+  const phrase = scorer.score('pandangan mazhab syafie', candidates).get('mazhab')!;
+  const word = scorer.score('pandangan mazhab', candidates).get('mazhab')!;
+  assert.deepEqual(phrase.matchedKeywords, ['mazhab shafii', 'mazhab']);
+  assert.ok(phrase.score > word.score);
+});
+
+test('scorer counts topic terms but not generic ones', () => {
+  const scores = new KeywordScorer().score('islamic fasting', [agent('ibadah', [], ['Islamic fasting'])]);
+  assert.match(scores.get('ibadah')!.reason, /topic terms: fast$/);
+  assert.equal(new KeywordScorer().score('islamic', [agent('ibadah', [], ['Islamic fasting'])]).get('ibadah')!.score, 0);
+});
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CATALOG, COMPLETE_LOCALES, Locale, Message, MessageKey, t, validateCatalog } from '../src/messages';
+
+const locales = Object.keys(CATALOG) as Locale[];
+const keys = Object.keys(CATALOG.ms) as MessageKey[];
+
+function placeholders(message: Message): string[] {
+  const texts = typeof message === 'string' ? [message] : Object.values(message);
+  return [...new Set(texts.join('\n').match(/\{\w+\}/g) || [])].sort();
+}
+
+test('the startup catalog check finds no problems', () => {
+  assert.deepEqual(validateCatalog(), []);
+});
+
+for (const locale of COMPLETE_LOCALES) {
+  test(`${locale} defines every key`, () => {
+    const missing = keys.filter(key => CATALOG[locale][key] === undefined);
+    assert.deepEqual(missing, []);
+  });
+}
+
+for (const locale of locales) {
+  test(`${locale} defines only known keys`, () => {
+    const unknown = Object.keys(CATALOG[locale]).filter(key => !keys.includes(key as MessageKey));
+    assert.deepEqual(unknown, []);
+  });
+
+  test(`${locale} uses the same placeholders as the Malay source`, () => {
+    const mismatched = keys.filter(key => {
+      const message = CATALOG[locale][key];
+      return message !== undefined && placeholders(message).join() !== placeholders(CATALOG.ms[key]!).join();
+    });
+    assert.deepEqual(mismatched, []);
+  });
+
+  test(`${locale} fills in every placeholder`, () => {
+    for (const key of keys) {
+      const params = Object.fromEntries(placeholders(CATALOG.ms[key]!).map(name => [name.slice(1, -1), 1]));
+      assert.doesNotMatch(t(locale, key, params), /\{\w+\}/, `${locale}: ${key}`);
+    }
+  });
+}
+
+test('plural messages define the "other" form', () => {
+  for (const locale of locales) {
+    for (const [key, message] of Object.entries(CATALOG[locale])) {
+      if (typeof message !== 'string') {
+        assert.ok(message?.other, `${locale}: ${key}`);
+      }
+    }
+  }
+});
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findZone, inMalaysia, nearestZone, PRAYER_ZONES } from '../src/prayer-zones';
+
+test('nearestZone places a location in the zone of the nearest reference point', () => {
+  assert.equal(nearestZone({ latitude: 3.139, longitude: 101.687 })?.zone.code, 'WLY01');
+  assert.equal(nearestZone({ latitude: 1.4927, longitude: 103.7414 })?.zone.code, 'JHR02');
+  assert.equal(nearestZone({ latitude: 5.98, longitude: 116.07 })?.zone.code, 'SBH07');
+  for (const zone of PRAYER_ZONES) {
+    assert.equal(nearestZone(zone)?.zone.code, zone.code);
+  }
+});
+
+test('locations just across the border are outside Malaysia', () => {
+  assert.equal(nearestZone({ latitude: 1.35, longitude: 103.82 }), undefined, 'Singapore');
+  assert.equal(nearestZone({ latitude: 1.436, longitude: 103.786 }), undefined, 'Woodlands');
+  assert.equal(inMalaysia({ latitude: 6.64, longitude: 100.42 }), false, 'Sadao');
+  assert.equal(inMalaysia({ latitude: 5.77, longitude: 101.07 }), false, 'Betong');
+  assert.equal(inMalaysia({ latitude: 4.89, longitude: 114.94 }), false, 'Bandar Seri Begawan');
+  assert.equal(inMalaysia({ latitude: 4.13, longitude: 117.66 }), false, 'Nunukan');
+  assert.equal(inMalaysia({ latitude: 4.7548, longitude: 115.0089 }), true, 'Limbang');
+  assert.equal(inMalaysia({ latitude: 5.28, longitude: 115.24 }), true, 'Labuan');
+});
+
+test('findZone reads zone codes, places and states', () => {
+  assert.equal(findZone('sgr1')?.code, 'SGR01');
+  assert.equal(findZone('waktu solat kuala selangor esok')?.code, 'SGR02');
+  assert.equal(findZone('kelantan')?.code, 'KTN01');
+  assert.equal(findZone('mars'), undefined);
+});
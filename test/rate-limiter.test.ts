@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FairQueue, loadRateLimitConfig, RateLimitConfig, RateLimiter } from '../src/rate-limiter';
+
+const MINUTE = 60 * 1000;
+
+const config: RateLimitConfig = {
+  user: { limit: 3, windowMs: MINUTE },
+  group: { limit: 5, windowMs: MINUTE },
+  private: { limit: 2, windowMs: MINUTE },
+  global: { limit: 100, windowMs: MINUTE }
+};
+
+test('limits are read as "<units>/<seconds>" with defaults for the rest', () => {
+  const limits = loadRateLimitConfig({ RATE_LIMIT_USER: '5/60', RATE_LIMIT_GROUP: 'lots' });
+  assert.deepEqual(limits.user, { limit: 5, windowMs: MINUTE });
+  assert.deepEqual(limits.group, loadRateLimitConfig({}).group);
+});
+
+test('a user is limited within the window and allowed again as it slides', () => {
+  const limiter = new RateLimiter(config);
+  for (let i = 0; i < 3; i++) {
+    assert.equal(limiter.tryConsume(1, -100, 1, false, i * 1000).allowed, true);
+  }
+  assert.deepEqual(limiter.tryConsume(1, -100, 1, false, 10000), { allowed: false, scope: 'user', retryAfterMs: 50000 });
+  assert.equal(limiter.tryConsume(1, -100, 1, false, MINUTE + 1).allowed, true);
+});
+
+test('weighted requests use up more of the limit', () => {
+  const limiter = new RateLimiter(config);
+  assert.equal(limiter.tryConsume(1, -100, 2, false, 0).allowed, true);
+  assert.equal(limiter.tryConsume(1, -100, 2, false, 0).allowed, false);
+  assert.equal(limiter.tryConsume(1, -100, 1, false, 0).allowed, true);
+});
+
+test('a group is limited across its users, and refused requests are not counted', () => {
+  const limiter = new RateLimiter(config);
+  [1, 1, 1, 2, 2].forEach(userId => assert.equal(limiter.tryConsume(userId, -100, 1, false, 0).allowed, true));
+  const refused = limiter.tryConsume(3, -100, 1, false, 0);
+  assert.equal(refused.allowed === false && refused.scope, 'group');
+  // User 3's refused request did not count against them in another group
+  for (let i = 0; i < 3; i++) {
+    assert.equal(limiter.tryConsume(3, -200, 1, false, 0).allowed, true);
+  }
+});
+
+test('private chats have their own limit', () => {
+  const limiter = new RateLimiter(config);
+  assert.equal(limiter.tryConsume(1, 1, 1, true, 0).allowed, true);
+  assert.equal(limiter.tryConsume(1, 1, 1, true, 0).allowed, true);
+  const refused = limiter.tryConsume(1, 1, 1, true, 0);
+  assert.equal(refused.allowed === false && refused.scope, 'private');
+});
+
+test('the queue answers each chat in order and lets chats take turns', async () => {
+  const queue = new FairQueue(1);
+  const order: string[] = [];
+  const task = (name: string) => async () => {
+    await new Promise(resolve => setImmediate(resolve));
+    order.push(name);
+    return name;
+  };
+
+  const results = await Promise.all([
+    queue.run(1, task('a1')),
+    queue.run(1, task('a2')),
+    queue.run(1, task('a3')),
+    queue.run(2, task('b1')),
+    queue.run(2, task('b2'))
+  ]);
+  assert.deepEqual(results, ['a1', 'a2', 'a3', 'b1', 'b2']);
+  assert.deepEqual(order, ['a1', 'b1', 'a2', 'b2', 'a3']);
+});
+
+test('the queue runs different chats side by side up to its concurrency', async () => {
+  const queue = new FairQueue(2);
+  let running = 0;
+  let most = 0;
+  const task = async () => {
+    running++;
+    most = Math.max(most, running);
+    await new Promise(resolve => setImmediate(resolve));
+    running--;
+  };
+
+  await Promise.all([queue.run(1, task), queue.run(1, task), queue.run(2, task), queue.run(3, task)]);
+  assert.equal(most, 2);
+  assert.equal(queue.pendingFor(1), 0);
+});
+
+test('a failed task rejects without holding up the chat', async () => {
+  const queue = new FairQueue(1);
+  const failed = queue.run(1, async () => {
+    throw new Error('boom');
+  });
+  const next = queue.run(1, async () => 'next');
+  await assert.rejects(failed, /boom/);
+  assert.equal(await next, 'next');
+});
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CalendarDate, PRAYER_NAMES, PrayerTimes } from '../src/prayer-times';
+import { dailyIndex, findJobType, JobScheduler, parseSchedule, ScheduledJob } from '../src/scheduler';
+import { Collections, MemoryStorage } from '../src/storage';
+
+const MINUTE = 60 * 1000;
+// 08:00 on Monday 10 March 2025 in Malaysia
+const EIGHT_AM = Date.UTC(2025, 2, 10, 0, 0);
+const IMSAK = Date.UTC(2025, 2, 9, 21, 50);
+const MAGHRIB = Date.UTC(2025, 2, 10, 11, 25);
+
+function prayerTimes(_chatId: number, date: CalendarDate): PrayerTimes | undefined {
+  if (date.year !== 2025 || date.month !== 3 || date.day !== 10) {
+    return undefined;
+  }
+  const times = Object.fromEntries(PRAYER_NAMES.map(name => [name, new Date(EIGHT_AM)])) as PrayerTimes;
+  return { ...times, imsak: new Date(IMSAK), maghrib: new Date(MAGHRIB) };
+}
+
+/** A scheduler holding one job, with the occurrences it posted. */
+async function schedulerWith(job: Partial<ScheduledJob>) {
+  const storage = new MemoryStorage();
+  const stored: ScheduledJob = { id: 1, chatId: 1, type: 'hadith', days: [], createdAt: 0, lastOccurrence: EIGHT_AM - 24 * 60 * MINUTE, ...job };
+  await storage.set(Collections.scheduledJobs, '1:1', stored);
+  const posted: number[] = [];
+  const scheduler = new JobScheduler(storage, {
+    run: async (_job, occurrence) => {
+      posted.push(occurrence.getTime());
+    },
+    prayerTimes
+  });
+  await scheduler.load();
+  const tick = (now: number) => scheduler['tick'](now);
+  return { storage, posted, tick };
+}
+
+test('parseSchedule reads times, days and the daily keyword', () => {
+  assert.deepEqual(parseSchedule('jumaat 8.00'), { time: '08:00', days: [5] });
+  assert.deepEqual(parseSchedule('khamis, isnin 21:00 isnin'), { time: '21:00', days: [1, 4] });
+  assert.deepEqual(parseSchedule('harian 7:30'), { time: '07:30', days: [] });
+  assert.deepEqual(parseSchedule(''), { days: [] });
+});
+
+test('parseSchedule names the word it cannot read', () => {
+  assert.deepEqual(parseSchedule('isnin 24:00'), { invalid: '24:00' });
+  assert.deepEqual(parseSchedule('esok 08:00'), { invalid: 'esok' });
+});
+
+test('findJobType accepts Malay and English names', () => {
+  assert.equal(findJobType('Hadis'), 'hadith');
+  assert.equal(findJobType('al-kahf'), 'kahf');
+  assert.equal(findJobType('iftar'), 'ramadan');
+  assert.equal(findJobType('tazkirah'), undefined);
+});
+
+test('dailyIndex stays the same through a day and moves on the next', () => {
+  const today = { year: 2025, month: 3, day: 10 };
+  assert.equal(dailyIndex(today, 50), dailyIndex({ ...today }, 50));
+  assert.notEqual(dailyIndex(today, 50), dailyIndex({ ...today, day: 11 }, 50));
+  assert.ok(dailyIndex(today, 50) < 50);
+});
+
+test('a job posts once when it falls due', async () => {
+  const { storage, posted, tick } = await schedulerWith({ time: '08:00' });
+  await tick(EIGHT_AM - MINUTE);
+  assert.deepEqual(posted, []);
+  await tick(EIGHT_AM);
+  await tick(EIGHT_AM + MINUTE);
+  assert.deepEqual(posted, [EIGHT_AM]);
+  assert.equal((await storage.get<ScheduledJob>(Collections.scheduledJobs, '1:1'))!.lastOccurrence, EIGHT_AM);
+});
+
+test('after downtime a recent occurrence is posted late and an old one skipped', async () => {
+  const late = await schedulerWith({ time: '08:00' });
+  await late.tick(EIGHT_AM + 59 * MINUTE);
+  assert.deepEqual(late.posted, [EIGHT_AM]);
+
+  const missed = await schedulerWith({ time: '08:00' });
+  await missed.tick(EIGHT_AM + 61 * MINUTE);
+  assert.deepEqual(missed.posted, []);
+  // Skipped occurrences are recorded so they are not tried again
+  assert.equal((await missed.storage.get<ScheduledJob>(Collections.scheduledJobs, '1:1'))!.lastOccurrence, EIGHT_AM);
+});
+
+test('jobs on set days do not run on other days', async () => {
+  const { posted, tick } = await schedulerWith({ time: '08:00', days: [5] });
+  await tick(EIGHT_AM);
+  assert.deepEqual(posted, []);
+});
+
+test('prayer time alerts allow less lateness than timed posts', async () => {
+  const onTime = await schedulerWith({ type: 'ramadan', prayers: ['imsak', 'maghrib'] });
+  await onTime.tick(IMSAK + 5 * MINUTE);
+  assert.deepEqual(onTime.posted, [IMSAK]);
+
+  const late = await schedulerWith({ type: 'ramadan', prayers: ['imsak', 'maghrib'] });
+  await late.tick(IMSAK + 15 * MINUTE);
+  assert.deepEqual(late.posted, []);
+  await late.tick(MAGHRIB);
+  assert.deepEqual(late.posted, [MAGHRIB]);
+});
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryStorage } from '../src/storage';
+import { calculateZakat, missingRates, parseAmount, ZAKAT_TYPES, ZakatRateStore } from '../src/zakat-calculator';
+
+test('parseAmount reads ringgit, separators and thousands', () => {
+  assert.equal(parseAmount('3500'), 3500);
+  assert.equal(parseAmount('RM 3,500.50'), 3500.5);
+  assert.equal(parseAmount('3.5k'), 3500);
+  assert.equal(parseAmount('tiga ribu'), undefined);
+  assert.equal(parseAmount('-20'), undefined);
+});
+
+test('parseAmount takes only whole numbers for counts', () => {
+  assert.equal(parseAmount('3', true), 3);
+  assert.equal(parseAmount('2.5', true), undefined);
+});
+
+test('income zakat is 2.5% of a year of income once it reaches the nisab', () => {
+  const gross = calculateZakat('pendapatan', { method: 'kasar', income: 3000 }, { nisab: 24000 }, 'Selangor', 'en');
+  assert.equal(gross.due, true);
+  assert.equal(gross.amount, 900);
+
+  const net = calculateZakat('pendapatan', { method: 'bersih', income: 3000, deductions: 1500 }, { nisab: 24000 }, 'Selangor', 'en');
+  assert.equal(net.due, false);
+  assert.equal(net.amount, 0);
+});
+
+test('the nisab follows from 85 g of gold when a state sets only the gold price', () => {
+  assert.equal(calculateZakat('simpanan', { balance: 33999 }, { goldPrice: 400 }, 'Johor', 'en').due, false);
+  const result = calculateZakat('simpanan', { balance: 34000 }, { goldPrice: 400 }, 'Johor', 'en');
+  assert.equal(result.amount, 850);
+});
+
+test('business zakat is charged on working capital', () => {
+  const result = calculateZakat('perniagaan', { assets: 150000, liabilities: 50000 }, { nisab: 24000 }, 'Kedah', 'en');
+  assert.equal(result.amount, 2500);
+});
+
+test('worn gold is charged above the uruf and kept gold in full from 85 g', () => {
+  const rates = { goldPrice: 400, uruf: 800 };
+  assert.equal(calculateZakat('emas', { use: 'pakai', grams: 800 }, rates, 'Selangor', 'en').due, false);
+  assert.equal(calculateZakat('emas', { use: 'pakai', grams: 900 }, rates, 'Selangor', 'en').amount, 1000);
+  assert.equal(calculateZakat('emas', { use: 'simpan', grams: 84 }, rates, 'Selangor', 'en').due, false);
+  assert.equal(calculateZakat('emas', { use: 'simpan', grams: 100 }, rates, 'Selangor', 'en').amount, 1000);
+});
+
+test('fitrah is the chosen rate for each person', () => {
+  assert.equal(calculateZakat('fitrah', { rate: '7', people: 4 }, { fitrah: [7, 14] }, 'Perak', 'en').amount, 28);
+});
+
+test('missingRates names the figures a calculation cannot do without', () => {
+  assert.deepEqual(missingRates('simpanan', {}), ['nisab']);
+  assert.deepEqual(missingRates('emas', { goldPrice: 400 }, { use: 'simpan' }), []);
+  assert.deepEqual(missingRates('emas', {}, { use: 'pakai' }), ['emas', 'uruf']);
+  assert.deepEqual(missingRates('fitrah', { fitrah: [] }), ['fitrah']);
+});
+
+test('every state has bundled figures that /zakatrate overrides field by field', async () => {
+  const store = new ZakatRateStore(new MemoryStorage());
+  for (const [stateId, rates] of store.list()) {
+    for (const type of ZAKAT_TYPES) {
+      assert.deepEqual(missingRates(type, rates, { use: 'pakai' }), [], `${stateId} ${type}`);
+    }
+    assert.ok(rates.year, stateId);
+  }
+
+  const bundled = store.get('selangor');
+  const updated = await store.update('selangor', 'fitrah', [7, 14], 1);
+  assert.deepEqual(updated.fitrah, [7, 14]);
+  assert.equal(updated.uruf, bundled.uruf);
+  assert.ok(updated.updatedAt);
+
+  await store.update('selangor', 'fitrah', undefined, 1);
+  assert.deepEqual(store.get('selangor').fitrah, bundled.fitrah);
+});